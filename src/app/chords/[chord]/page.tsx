@@ -0,0 +1,51 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { ChordDetail } from '@/components/chord/ChordDetail';
+import { getChordFromSlug } from '@/utils/chordLibrary';
+
+interface ChordPageProps {
+  params: Promise<{ chord: string }>;
+}
+
+export async function generateMetadata({ params }: ChordPageProps): Promise<Metadata> {
+  const { chord: slug } = await params;
+  const chord = getChordFromSlug(slug);
+  return {
+    title: chord ? `${chord} Chord` : 'Chord',
+    description: chord
+      ? `How to play ${chord}: every voicing with diagrams, and how it sounds`
+      : 'Chord diagrams and finger positions',
+  };
+}
+
+export default async function ChordPage({ params }: ChordPageProps) {
+  const { chord: slug } = await params;
+  const chord = getChordFromSlug(slug);
+
+  if (!chord) {
+    notFound();
+  }
+
+  return (
+    <div className='min-h-screen px-4 py-6 max-w-6xl mx-auto'>
+      {/* Header */}
+      <div className='mb-8'>
+        <Link
+          href='/chords'
+          className='inline-flex items-center gap-2 mb-4 text-gray-400 hover:text-white transition-colors'
+        >
+          <ArrowLeft size={20} />
+          <span>Chord Library</span>
+        </Link>
+        <h1 className='text-4xl font-bold font-mono text-white mb-2'>{chord}</h1>
+        <p className='text-gray-400'>
+          Tap a voicing to hear it
+        </p>
+      </div>
+
+      <ChordDetail chord={chord} />
+    </div>
+  );
+}
@@ -1,60 +1,17 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { Music } from 'lucide-react';
+import { getChordCategories, getChordSlug } from '@/utils/chordLibrary';
+import { ChordChart } from '@/components/chord/ChordChart';
+import { InstrumentSelector } from '@/components/chord/InstrumentSelector';
+import { DiagramSettings } from '@/components/chord/DiagramSettings';
+import { ChordIdentifier } from '@/components/chord/ChordIdentifier';
 
 export const metadata: Metadata = {
   title: 'Chords',
-  description: 'Complete guitar chord library with diagrams and finger positions',
+  description: 'Chord library for guitar, ukulele, bass, mandolin and piano with diagrams and finger positions',
 };
 
-const chordCategories = [
-  {
-    name: 'Major Chords',
-    chords: ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'],
-    difficulty: 'beginner' as const,
-  },
-  {
-    name: 'Minor Chords',
-    chords: ['Cm', 'C#m', 'Dm', 'D#m', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'A#m', 'Bm'],
-    difficulty: 'beginner' as const,
-  },
-  {
-    name: '7th Chords',
-    chords: ['C7', 'D7', 'E7', 'F7', 'G7', 'A7', 'B7'],
-    difficulty: 'intermediate' as const,
-  },
-  {
-    name: 'Major 7th',
-    chords: ['Cmaj7', 'Dmaj7', 'Emaj7', 'Fmaj7', 'Gmaj7', 'Amaj7', 'Bmaj7'],
-    difficulty: 'intermediate' as const,
-  },
-  {
-    name: 'Minor 7th',
-    chords: ['Cm7', 'Dm7', 'Em7', 'Fm7', 'Gm7', 'Am7', 'Bm7'],
-    difficulty: 'intermediate' as const,
-  },
-  {
-    name: 'Suspended',
-    chords: ['Csus2', 'Csus4', 'Dsus2', 'Dsus4', 'Esus2', 'Esus4', 'Gsus4', 'Asus2', 'Asus4'],
-    difficulty: 'beginner' as const,
-  },
-  {
-    name: 'Diminished',
-    chords: ['Cdim', 'Ddim', 'Edim', 'Fdim', 'Gdim', 'Adim', 'Bdim'],
-    difficulty: 'advanced' as const,
-  },
-  {
-    name: 'Augmented',
-    chords: ['Caug', 'Daug', 'Eaug', 'Faug', 'Gaug', 'Aaug', 'Baug'],
-    difficulty: 'advanced' as const,
-  },
-  {
-    name: 'Add & Special',
-    chords: ['Cadd9', 'Dadd9', 'Gadd9', ' Gadd2', 'Dsus4', 'Asus2'],
-    difficulty: 'intermediate' as const,
-  },
-];
-
 const beginnerChords = ['C', 'G', 'D', 'A', 'E', 'Am', 'Em', 'Dm', 'G7', 'D7'];
 
 export default function ChordsPage() {
@@ -66,6 +23,16 @@ export default function ChordsPage() {
         <p className='text-gray-400'>
           Complete guitar chord reference with diagrams
         </p>
+        <div className='flex flex-wrap gap-x-4'>
+          <Link href='/scales' className='inline-block mt-2 text-sm text-primary-400 hover:text-primary-300'>
+            Browse scales &amp; modes →
+          </Link>
+          <Link href='/progressions' className='inline-block mt-2 text-sm text-primary-400 hover:text-primary-300'>
+            Common progressions →
+          </Link>
+        </div>
+        <InstrumentSelector className='mt-4 w-fit' />
+        <DiagramSettings className='mt-2' />
       </div>
 
       {/* Quick Access - Beginner Chords */}
@@ -78,7 +45,7 @@ export default function ChordsPage() {
           {beginnerChords.map((chord) => (
             <Link
               key={chord}
-              href={`/chords/${chord.toLowerCase()}`}
+              href={`/chords/${getChordSlug(chord)}`}
               className='flex flex-col items-center justify-center aspect-square rounded-xl bg-surface-200 border border-surface-300 hover:border-chord-beginner/50 hover:bg-surface-100 transition-all duration-200'
             >
               <span className='font-mono font-bold text-white text-lg'>{chord}</span>
@@ -87,9 +54,15 @@ export default function ChordsPage() {
         </div>
       </section>
 
+      {/* Chord Identifier */}
+      <section className='mb-10'>
+        <h2 className='text-xl font-semibold text-white mb-4'>Name a Shape</h2>
+        <ChordIdentifier />
+      </section>
+
       {/* Chord Categories */}
       <div className='space-y-10'>
-        {chordCategories.map((category) => (
+        {getChordCategories().map((category) => (
           <section key={category.name}>
             <h2 className='text-xl font-semibold text-white mb-4 flex items-center gap-2'>
               {category.difficulty === 'beginner' && (
@@ -106,11 +79,17 @@ export default function ChordsPage() {
             <div className='grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-3'>
               {category.chords.map((chord) => (
                 <Link
-                  key={chord}
-                  href={`/chords/${chord.toLowerCase().replace('#', '-sharp')}`}
-                  className='flex flex-col items-center justify-center aspect-square rounded-xl bg-surface-200 border border-surface-300 hover:border-primary-500/50 hover:bg-surface-100 transition-all duration-200'
+                  key={chord.name}
+                  href={`/chords/${getChordSlug(chord.name)}`}
+                  className='flex flex-col items-center justify-center gap-1 p-2 rounded-xl bg-surface-200 border border-surface-300 hover:border-primary-500/50 hover:bg-surface-100 transition-all duration-200'
                 >
-                  <span className='font-mono font-bold text-white text-lg'>{chord}</span>
+                  <span className='font-mono font-bold text-white text-lg'>{chord.name}</span>
+                  <ChordChart
+                    chord={chord.name}
+                    diagram={chord.diagrams[0]}
+                    showFingers={false}
+                    className='w-full max-w-[80px]'
+                  />
                 </Link>
               ))}
             </div>
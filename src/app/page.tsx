@@ -1,6 +1,7 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { Music, Search, Heart, Zap, BookOpen } from 'lucide-react';
+import { getChordSlug } from '@/utils/chordLibrary';
 
 export const metadata: Metadata = {
   title: 'Home',
@@ -117,7 +118,7 @@ export default function HomePage() {
           {popularChords.map((chord) => (
             <Link
               key={chord}
-              href={`/chords/${chord.toLowerCase()}`}
+              href={`/chords/${getChordSlug(chord)}`}
               className='inline-flex items-center justify-center w-16 h-16 rounded-xl bg-surface-200 border border-surface-300 font-mono font-bold text-white text-xl hover:border-primary-500/50 hover:bg-surface-100 transition-all duration-200'
             >
               {chord}
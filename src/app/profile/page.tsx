@@ -1,6 +1,8 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { User, Settings, LogOut, Music, Heart, Moon, Sun } from 'lucide-react';
+import { TuningSelector } from '@/components/song/TuningSelector';
+import { DiagramSettings } from '@/components/chord/DiagramSettings';
 
 export const metadata: Metadata = {
   title: 'Profile',
@@ -33,7 +35,7 @@ export default function ProfilePage() {
           </div>
           <div>
             <h2 className='text-xl font-semibold text-white'>Guest User</h2>
-            <p className='text-gray-400 text-sm'>Sign in to sync your favorites</p>
+            <p className='text-gray-400 text-sm'>Sign in to sync your favorites, instrument and tunings</p>
           </div>
         </div>
         <button className='w-full mt-6 py-3 px-4 rounded-xl bg-primary-500 text-white font-semibold hover:bg-primary-600 transition-colors'>
@@ -41,6 +43,15 @@ export default function ProfilePage() {
         </button>
       </div>
 
+      {/* Default Tuning (songs can override it) */}
+      <TuningSelector className='mb-8' />
+
+      {/* Chord and scale diagrams */}
+      <div className='mb-8'>
+        <h2 className='text-sm font-medium text-gray-400 mb-2'>Diagrams</h2>
+        <DiagramSettings />
+      </div>
+
       {/* Menu Items */}
       <div className='space-y-2'>
         {menuItems.map((item) => {
@@ -0,0 +1,32 @@
+import { Metadata } from 'next';
+import { ProgressionExplorer } from '@/components/progression/ProgressionExplorer';
+import { isNote, normalizeNote } from '@/utils/chord';
+
+export const metadata: Metadata = {
+  title: 'Progressions',
+  description: 'Common chord progressions in every key, from I–V–vi–IV to the 12-bar blues',
+};
+
+interface ProgressionsPageProps {
+  searchParams: Promise<{ key?: string; progression?: string }>;
+}
+
+export default async function ProgressionsPage({ searchParams }: ProgressionsPageProps) {
+  const { key, progression } = await searchParams;
+  // Keys come as C or Am
+  const initialKey = key && isNote(key.replace(/m$/, '')) ? normalizeNote(key) : undefined;
+
+  return (
+    <div className='min-h-screen px-4 py-6 max-w-6xl mx-auto'>
+      {/* Header */}
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-white mb-2'>Common Progressions</h1>
+        <p className='text-gray-400'>
+          The chord sequences behind thousands of songs, in any key
+        </p>
+      </div>
+
+      <ProgressionExplorer initialKey={initialKey} initialProgression={progression} />
+    </div>
+  );
+}
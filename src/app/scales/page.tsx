@@ -0,0 +1,31 @@
+import { Metadata } from 'next';
+import { ScaleExplorer } from '@/components/scale/ScaleExplorer';
+import { isNote, normalizeNote } from '@/utils/chord';
+
+export const metadata: Metadata = {
+  title: 'Scales',
+  description: 'Guitar scales and modes with fretboard positions in every key',
+};
+
+interface ScalesPageProps {
+  searchParams: Promise<{ root?: string; scale?: string }>;
+}
+
+export default async function ScalesPage({ searchParams }: ScalesPageProps) {
+  const { root, scale } = await searchParams;
+  const initialRoot = root && isNote(root) ? normalizeNote(root) : undefined;
+
+  return (
+    <div className='min-h-screen px-4 py-6 max-w-6xl mx-auto'>
+      {/* Header */}
+      <div className='mb-8'>
+        <h1 className='text-3xl font-bold text-white mb-2'>Scales &amp; Modes</h1>
+        <p className='text-gray-400'>
+          Major, minor, pentatonic, blues and modal scales across the neck
+        </p>
+      </div>
+
+      <ScaleExplorer initialRoot={initialRoot} initialScale={scale} />
+    </div>
+  );
+}
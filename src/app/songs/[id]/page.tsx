@@ -4,6 +4,16 @@ import Link from 'next/link';
 import { ArrowLeft, Heart, Share2, Play, Pause } from 'lucide-react';
 import { TransposeControl } from '@/components/song/TransposeControl';
 import { AutoScrollControl } from '@/components/song/AutoScrollControl';
+import { SongLyrics } from '@/components/song/SongLyrics';
+import { CapoAdvisor } from '@/components/song/CapoAdvisor';
+import { TuningSelector } from '@/components/song/TuningSelector';
+import { ScaleSuggestions } from '@/components/song/ScaleSuggestions';
+import { SongChords } from '@/components/song/SongChords';
+import { ChordProExport } from '@/components/song/ChordProExport';
+import { extractChords } from '@/utils/transpose';
+import { parseSections } from '@/utils/songStructure';
+import { analyzeSectionKeys } from '@/utils/keyAnalysis';
+import { ParsedSong } from '@/types';
 
 interface SongPageProps {
   params: Promise<{ id: string }>;
@@ -41,6 +51,8 @@ async function getSong(id: string) {
     album: '(What the Story) Morning Glory?',
     year: 1995,
     headerImageUrl: null,
+    bpm: 87,
+    timeSignature: { beats: 4, noteValue: 4 },
     lyrics: `[Intro]
 [Em7] [G] [sus4] [Cadd9]
 
@@ -82,6 +94,28 @@ export default async function SongPage({ params }: SongPageProps) {
     notFound();
   }
 
+  const chords = extractChords(song.lyrics);
+  const songId = String(song.id);
+
+  // Key of each section and where the song modulates
+  const { sections, modulations, keys, songKey } = analyzeSectionKeys(parseSections(song.lyrics));
+  const parsedSong: ParsedSong = {
+    metadata: {
+      id: song.id,
+      title: song.title,
+      artist: song.artist,
+      album: song.album,
+      releaseDate: song.year ? String(song.year) : undefined,
+      url: '',
+      bpm: song.bpm,
+      timeSignature: song.timeSignature,
+    },
+    sections,
+    originalKey: songKey,
+    detectedChords: chords,
+    modulations,
+  };
+
   return (
     <div className='min-h-screen pb-24'>
       {/* Header */}
@@ -104,6 +138,7 @@ export default async function SongPage({ params }: SongPageProps) {
             <button className='p-2 text-gray-400 hover:text-white transition-colors'>
               <Share2 size={20} />
             </button>
+            <ChordProExport song={parsedSong} />
           </div>
         </div>
       </header>
@@ -117,26 +152,31 @@ export default async function SongPage({ params }: SongPageProps) {
         )}
       </div>
 
+      {/* Tuning */}
+      <TuningSelector songId={songId} />
+
       {/* Transpose Control */}
-      <TransposeControl 
-        originalKey='Em' 
-        onKeyChange={(key, semitones) => {
-          console.log('Transpose to:', key, semitones);
-        }}
-      />
+      <TransposeControl originalKey={songKey} chords={chords} songKeys={keys} songId={songId} />
+
+      {/* Chord Shapes */}
+      <SongChords chords={chords} songId={songId} />
+
+      {/* Capo Suggestions */}
+      <CapoAdvisor chords={chords} songKey={songKey} songId={songId} />
+
+      {/* Solo Scales */}
+      <ScaleSuggestions chords={chords} />
 
       {/* Auto-Scroll Control */}
-      <AutoScrollControl 
-        onScroll={() => {
-          console.log('Auto-scroll triggered');
-        }}
+      <AutoScrollControl
+        songId={songId}
+        bpm={song.bpm}
+        timeSignature={song.timeSignature}
       />
 
       {/* Lyrics */}
       <article className='px-4 py-6'>
-        <div className='font-mono text-base leading-loose text-white whitespace-pre-wrap'>
-          {song.lyrics}
-        </div>
+        <SongLyrics sections={sections} songKey={songKey} modulations={modulations} songId={songId} />
       </article>
 
       {/* Song Info Footer */}
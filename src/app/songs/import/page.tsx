@@ -0,0 +1,32 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { SongImport } from '@/components/song/SongImport';
+
+export const metadata: Metadata = {
+  title: 'Import Song',
+  description: 'Open ChordPro songs and plain chord sheets to transpose, play along and export',
+};
+
+export default function ImportPage() {
+  return (
+    <div className='min-h-screen px-4 py-6 max-w-4xl mx-auto'>
+      {/* Header */}
+      <div className='mb-8'>
+        <Link
+          href='/songs'
+          className='inline-flex items-center gap-2 mb-4 text-gray-400 hover:text-white transition-colors'
+        >
+          <ArrowLeft size={20} />
+          <span>Songs</span>
+        </Link>
+        <h1 className='text-3xl font-bold text-white mb-2'>Import a Song</h1>
+        <p className='text-gray-400'>
+          Open a ChordPro file or paste chords over lyrics to transpose the song and play along
+        </p>
+      </div>
+
+      <SongImport />
+    </div>
+  );
+}
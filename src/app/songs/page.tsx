@@ -1,5 +1,6 @@
 import { Metadata } from 'next';
 import { Suspense } from 'react';
+import Link from 'next/link';
 import { Search } from 'lucide-react';
 
 export const metadata: Metadata = {
@@ -27,6 +28,9 @@ export default async function SongsPage({ searchParams }: SongsPageProps) {
         <p className='text-gray-400'>
           Search for songs with accurate chords and lyrics
         </p>
+        <Link href='/songs/import' className='inline-block mt-2 text-sm text-primary-400 hover:text-primary-300'>
+          Import a ChordPro file or chord sheet →
+        </Link>
       </div>
 
       {/* Search Bar */}
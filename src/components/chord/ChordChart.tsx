@@ -0,0 +1,80 @@
+'use client';
+
+// ============================================
+// Chord Chart Component
+// A chord's easiest shape on the user's instrument:
+// a fretboard diagram, or piano keys; tap to hear it
+// ============================================
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { useInstrument } from '@/hooks/useInstrument';
+import { useChordPlayer } from '@/hooks/useChordPlayer';
+import { ChordDiagram } from '@/types';
+import { getInstrumentDiagrams, getInstrumentKeyboardVoicings } from '@/utils/instruments';
+import { getFingeringMidiNumbers, isStandardTuning } from '@/utils/tuning';
+import { ChordDiagramView } from './ChordDiagramView';
+import { KeyboardDiagramView } from './KeyboardDiagramView';
+
+interface ChordChartProps {
+  chord: string;
+  diagram?: ChordDiagram; // Precomputed standard-tuning guitar voicing
+  songId?: string; // Reads the song's saved guitar tuning
+  showFingers?: boolean;
+  playable?: boolean; // Tapping plays the voicing shown
+  className?: string;
+}
+
+export function ChordChart({
+  chord,
+  diagram,
+  songId,
+  showFingers = true,
+  playable = false,
+  className,
+}: ChordChartProps) {
+  const { instrument, tuning } = useInstrument(songId);
+  const { playNotes } = useChordPlayer(songId);
+  const usePrecomputed = diagram && instrument.id === 'guitar' && tuning && isStandardTuning(tuning);
+
+  const fretted = useMemo(
+    () => (usePrecomputed ? diagram : getInstrumentDiagrams(chord, instrument, tuning, 1)[0]),
+    [usePrecomputed, diagram, chord, instrument, tuning]
+  );
+  const keys = useMemo(
+    () => getInstrumentKeyboardVoicings(chord, instrument)[0],
+    [chord, instrument]
+  );
+
+  let chart: React.ReactNode;
+  let notes: number[] = [];
+  if (keys) {
+    chart = <KeyboardDiagramView voicing={keys} className={className} />;
+    notes = keys.notes;
+  } else if (fretted && tuning) {
+    chart = <ChordDiagramView diagram={fretted} showFingers={showFingers} className={className} />;
+    notes = getFingeringMidiNumbers(fretted.positions, tuning);
+  }
+
+  if (chart && playable) {
+    return (
+      <button
+        onClick={() => playNotes(notes)}
+        className='flex justify-center w-full rounded-lg hover:bg-surface-300 transition-colors duration-200'
+        aria-label={`Play ${chord}`}
+      >
+        {chart}
+      </button>
+    );
+  }
+  if (chart) {
+    return <>{chart}</>;
+  }
+  return (
+    <span className={cn('text-xs text-gray-500', className)}>
+      No {instrument.name.toLowerCase()} shape
+    </span>
+  );
+}
+
+export default ChordChart;
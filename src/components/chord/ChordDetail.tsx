@@ -0,0 +1,109 @@
+'use client';
+
+// ============================================
+// Chord Detail Component
+// Every voicing of a chord on the user's instrument; tap one to hear it
+// block, strummed or arpeggiated
+// ============================================
+
+import React, { useMemo, useState } from 'react';
+import { Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useInstrument } from '@/hooks/useInstrument';
+import { useChordPlayer } from '@/hooks/useChordPlayer';
+import { StrumStyle } from '@/types';
+import { getInstrumentDiagrams, getInstrumentKeyboardVoicings } from '@/utils/instruments';
+import { getFingeringMidiNumbers } from '@/utils/tuning';
+import { ChordDiagramView } from './ChordDiagramView';
+import { KeyboardDiagramView } from './KeyboardDiagramView';
+import { InstrumentSelector } from './InstrumentSelector';
+
+const VOICING_COUNT = 8;
+
+const strumStyles: { value: StrumStyle; label: string }[] = [
+  { value: 'down', label: 'Strum ↓' },
+  { value: 'up', label: 'Strum ↑' },
+  { value: 'block', label: 'Block' },
+  { value: 'arpeggio', label: 'Arpeggio' },
+];
+
+interface ChordDetailProps {
+  chord: string;
+  className?: string;
+}
+
+export function ChordDetail({ chord, className }: ChordDetailProps) {
+  const { instrument, tuning } = useInstrument();
+  const { playNotes } = useChordPlayer();
+  const [style, setStyle] = useState<StrumStyle>('down');
+
+  // Each voicing with the notes it sounds, lowest first
+  const voicings = useMemo(() => {
+    const keys = getInstrumentKeyboardVoicings(chord, instrument).map((voicing) => ({
+      chart: <KeyboardDiagramView voicing={voicing} className='w-full' />,
+      notes: voicing.notes,
+    }));
+    const fretted = tuning
+      ? getInstrumentDiagrams(chord, instrument, tuning, VOICING_COUNT).map((diagram) => ({
+          chart: <ChordDiagramView diagram={diagram} className='w-full max-w-[120px]' />,
+          notes: getFingeringMidiNumbers(diagram.positions, tuning),
+        }))
+      : [];
+    return [...keys, ...fretted];
+  }, [chord, instrument, tuning]);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className='flex flex-wrap items-center gap-2'>
+        <InstrumentSelector />
+        <div className='flex items-center rounded-lg bg-surface-300 p-1' role='radiogroup' aria-label='Playback'>
+          {strumStyles.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setStyle(option.value)}
+              className={cn(
+                'h-8 px-3 rounded-md text-sm font-medium',
+                style === option.value
+                  ? 'bg-primary-500 text-white'
+                  : 'text-gray-300 hover:text-white',
+                'transition-all duration-200'
+              )}
+              role='radio'
+              aria-checked={style === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {voicings.length === 0 ? (
+        <p className='text-gray-400'>No {instrument.name.toLowerCase()} shape for {chord}</p>
+      ) : (
+        <div className='grid grid-cols-2 sm:grid-cols-4 gap-4'>
+          {voicings.map((voicing, index) => (
+            <button
+              key={index}
+              onClick={() => playNotes(voicing.notes, { style })}
+              className={cn(
+                'flex flex-col items-center gap-2 p-3 rounded-xl',
+                'bg-surface-200 border border-surface-300',
+                'hover:border-primary-500/50 hover:bg-surface-100',
+                'transition-all duration-200'
+              )}
+              aria-label={`Play ${chord} voicing ${index + 1}`}
+            >
+              {voicing.chart}
+              <span className='flex items-center gap-1 text-sm text-gray-400'>
+                <Play size={14} />
+                {index === 0 ? 'Easiest' : `Voicing ${index + 1}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ChordDetail;
@@ -0,0 +1,151 @@
+'use client';
+
+// ============================================
+// Chord Diagram Component
+// Draws a ChordDiagram as a fretboard chart in the user's orientation,
+// mirrored for left-handed players
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useDiagramPreferences } from '@/hooks/useDiagramPreferences';
+import { ChordDiagram } from '@/types';
+import { getDiagramFrame } from '@/utils/diagram';
+
+const FRETS_SHOWN = 4;
+const WIDTH = 100;
+const HEIGHT = 120;
+const LEFT = 18;
+const RIGHT = 10;
+const TOP = 22;
+const FRET_HEIGHT = 22;
+const DOT_RADIUS = 6;
+const NUMBER_SPACE = 10; // Below the strings for string numbers
+const MARKER_OFFSET = 11; // Open and muted markers before the nut
+
+interface ChordDiagramViewProps {
+  diagram: ChordDiagram;
+  showFingers?: boolean;
+  className?: string;
+}
+
+export function ChordDiagramView({
+  diagram,
+  showFingers = true,
+  className,
+}: ChordDiagramViewProps) {
+  const { leftHanded, orientation, stringNumbers } = useDiagramPreferences();
+  const stringCount = diagram.positions.length;
+  const spacing = (WIDTH - LEFT - RIGHT) / Math.max(1, stringCount - 1);
+  const bottom = TOP + FRETS_SHOWN * FRET_HEIGHT;
+  const frame = getDiagramFrame(WIDTH, HEIGHT + (stringNumbers ? NUMBER_SPACE : 0), { leftHanded, orientation });
+
+  // Laid out upright with string 1 (highest) on the right; the frame turns and mirrors it
+  const stringAcross = (string: number) => LEFT + (stringCount - string) * spacing;
+  const fretAlong = (fret: number) => TOP + (fret - diagram.baseFret + 0.5) * FRET_HEIGHT;
+  const baseFretLabel = frame.point(LEFT - 6, TOP + FRET_HEIGHT / 2);
+  const baseFretAnchor = orientation === 'horizontal' ? 'middle' : leftHanded ? 'start' : 'end';
+
+  return (
+    <svg
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      className={cn('text-white', className)}
+      role='img'
+      aria-label={`${diagram.chord} chord diagram`}
+    >
+      {/* Nut or starting fret */}
+      {diagram.baseFret === 1 ? (
+        <rect {...frame.rect(LEFT, TOP - 3, WIDTH - RIGHT, TOP)} className='fill-gray-300' />
+      ) : (
+        <text x={baseFretLabel.x} y={baseFretLabel.y + 3} textAnchor={baseFretAnchor} className='fill-gray-400 text-[9px]'>
+          {diagram.baseFret}
+        </text>
+      )}
+
+      {/* Frets */}
+      {Array.from({ length: FRETS_SHOWN + 1 }, (_, i) => {
+        const from = frame.point(LEFT, TOP + i * FRET_HEIGHT);
+        const to = frame.point(WIDTH - RIGHT, TOP + i * FRET_HEIGHT);
+        return (
+          <line
+            key={`fret-${i}`}
+            x1={from.x}
+            x2={to.x}
+            y1={from.y}
+            y2={to.y}
+            className='stroke-surface-400'
+            strokeWidth={1}
+          />
+        );
+      })}
+
+      {/* Strings */}
+      {diagram.positions.map(({ string }) => {
+        const from = frame.point(stringAcross(string), TOP);
+        const to = frame.point(stringAcross(string), bottom);
+        return (
+          <line
+            key={`string-${string}`}
+            x1={from.x}
+            x2={to.x}
+            y1={from.y}
+            y2={to.y}
+            className='stroke-gray-500'
+            strokeWidth={1}
+          />
+        );
+      })}
+
+      {/* String numbers past the last fret */}
+      {stringNumbers && diagram.positions.map(({ string }) => {
+        const label = frame.point(stringAcross(string), bottom + NUMBER_SPACE / 2 + 2);
+        return (
+          <text key={`number-${string}`} x={label.x} y={label.y + 3} textAnchor='middle' className='fill-gray-500 text-[8px]'>
+            {string}
+          </text>
+        );
+      })}
+
+      {/* Barre */}
+      {diagram.barre && (
+        <rect
+          {...frame.rect(
+            stringAcross(diagram.barre.fromString) - DOT_RADIUS,
+            fretAlong(diagram.barre.fret) - DOT_RADIUS,
+            stringAcross(diagram.barre.toString) + DOT_RADIUS,
+            fretAlong(diagram.barre.fret) + DOT_RADIUS
+          )}
+          rx={DOT_RADIUS}
+          className='fill-primary-500'
+        />
+      )}
+
+      {/* Open, muted and fretted strings */}
+      {diagram.positions.map(({ string, fret, finger }) => {
+        if (fret <= 0) {
+          const marker = frame.point(stringAcross(string), TOP - MARKER_OFFSET);
+          return fret < 0 ? (
+            <text key={`pos-${string}`} x={marker.x} y={marker.y + 3} textAnchor='middle' className='fill-gray-400 text-[10px]'>
+              ×
+            </text>
+          ) : (
+            <circle key={`pos-${string}`} cx={marker.x} cy={marker.y} r={3} className='fill-none stroke-gray-300' />
+          );
+        }
+        const dot = frame.point(stringAcross(string), fretAlong(fret));
+        return (
+          <g key={`pos-${string}`}>
+            <circle cx={dot.x} cy={dot.y} r={DOT_RADIUS} className='fill-primary-500' />
+            {showFingers && finger !== undefined && (
+              <text x={dot.x} y={dot.y + 3} textAnchor='middle' className='fill-white text-[8px] font-semibold'>
+                {finger}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default ChordDiagramView;
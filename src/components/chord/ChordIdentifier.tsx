@@ -0,0 +1,173 @@
+'use client';
+
+// ============================================
+// Chord Identifier Component
+// Click frets on a fretboard and see the chord name update
+// ============================================
+
+import React, { useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useTuning } from '@/hooks/useTuning';
+import { useInstrument } from '@/hooks/useInstrument';
+import { useDiagramPreferences } from '@/hooks/useDiagramPreferences';
+import { ChordFingering } from '@/types';
+import { identifyFingering } from '@/utils/identify';
+
+const FRET_COUNT = 12;
+const MUTED = -1;
+const MARKED_FRETS = [3, 5, 7, 9, 12];
+
+interface ChordIdentifierProps {
+  className?: string;
+}
+
+export function ChordIdentifier({ className }: ChordIdentifierProps) {
+  // Fretted instruments use their own strings; piano players get the guitar neck
+  const { tuning: guitarTuning } = useTuning();
+  const { instrument, tuning: instrumentTuning } = useInstrument();
+  const tuning = instrumentTuning ?? guitarTuning;
+  const stringCount = tuning.strings.length;
+  const { leftHanded, stringNumbers } = useDiagramPreferences();
+
+  // Fret per string, lowest string first
+  const [frets, setFrets] = useState<number[]>(() => Array(stringCount).fill(MUTED));
+  const shape = frets.length === stringCount ? frets : Array<number>(stringCount).fill(MUTED);
+
+  const positions = useMemo(
+    (): ChordFingering[] => shape.map((fret, index) => ({ string: stringCount - index, fret })),
+    [shape, stringCount]
+  );
+  // Re-entrant tunings (ukulele) rarely have the root lowest, so no slash names
+  const inversions = !instrumentTuning || (instrument.voicing?.rootInBass ?? true);
+  const matches = useMemo(
+    () => identifyFingering(positions, tuning, { inversions }),
+    [positions, tuning, inversions]
+  );
+  const [best, ...alternatives] = matches;
+  const soundingCount = shape.filter(fret => fret >= 0).length;
+
+  // Left-handed players see the nut on the right
+  const fretColumns = Array.from({ length: FRET_COUNT + 1 }, (_, fret) => fret);
+  if (leftHanded) fretColumns.reverse();
+  const columns = `repeat(${FRET_COUNT + 1}, 2.5rem)`;
+
+  // Open note, or × when muted, beside each string
+  const stringLabel = (index: number, held: number) => (
+    <span className='flex items-center justify-center gap-1 text-xs font-mono text-gray-400'>
+      {stringNumbers && <span className='text-gray-500'>{stringCount - index}</span>}
+      {held === MUTED ? '×' : tuning.strings[index].replace(/-?\d+$/, '')}
+    </span>
+  );
+
+  // Clicking the fret that is already held mutes the string
+  const toggleFret = (index: number, fret: number) => {
+    setFrets(shape.map((current, i) => (i === index ? (current === fret ? MUTED : fret) : current)));
+  };
+
+  return (
+    <div
+      className={cn(
+        'p-4 rounded-xl bg-surface-200 border border-surface-300',
+        className
+      )}
+      role='group'
+      aria-label='Chord identifier'
+    >
+      {/* Result */}
+      <div className='flex items-start justify-between gap-4 mb-4'>
+        <div aria-live='polite'>
+          {best ? (
+            <>
+              <p className='font-mono font-bold text-3xl text-white'>{best.chord}</p>
+              {alternatives.length > 0 && (
+                <p className='text-sm text-gray-400 mt-1'>
+                  Also: <span className='font-mono'>{alternatives.map(m => m.chord).join(', ')}</span>
+                </p>
+              )}
+            </>
+          ) : (
+            <p className='text-gray-400'>
+              {soundingCount < 2 ? 'Click frets to build a chord' : 'No chord name found'}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setFrets(Array(stringCount).fill(MUTED))}
+          disabled={soundingCount === 0}
+          className={cn(
+            'flex items-center justify-center w-10 h-10 rounded-lg',
+            'bg-surface-300 text-gray-300',
+            'hover:bg-surface-400 hover:text-white',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-all duration-200'
+          )}
+          aria-label='Clear fretboard'
+        >
+          <RotateCcw size={18} />
+        </button>
+      </div>
+
+      {/* Fretboard: highest string on top, like tab */}
+      <div className='overflow-x-auto'>
+        <div
+          className='inline-grid gap-y-1'
+          style={{ gridTemplateColumns: leftHanded ? `${columns} 2.5rem` : `2.5rem ${columns}` }}
+        >
+          {shape
+            .map((fret, index) => ({ fret, index }))
+            .reverse()
+            .map(({ fret: held, index }) => (
+              <React.Fragment key={index}>
+                {!leftHanded && stringLabel(index, held)}
+                {fretColumns.map((fret) => (
+                  <button
+                    key={fret}
+                    onClick={() => toggleFret(index, fret)}
+                    className={cn(
+                      'relative h-8 flex items-center justify-center',
+                      fret === 0
+                        ? cn(leftHanded ? 'border-l-4' : 'border-r-4', 'border-gray-300')
+                        : cn(leftHanded ? 'border-l' : 'border-r', 'border-surface-400'),
+                      'hover:bg-surface-300 transition-colors duration-200'
+                    )}
+                    aria-label={`String ${stringCount - index}, ${fret === 0 ? 'open' : `fret ${fret}`}`}
+                    aria-pressed={held === fret}
+                  >
+                    {/* String */}
+                    <span className='absolute inset-x-0 top-1/2 h-px bg-gray-500' aria-hidden='true' />
+                    {held === fret && (
+                      <span
+                        className={cn(
+                          'relative w-5 h-5 rounded-full',
+                          fret === 0 ? 'border-2 border-gray-300 bg-surface-200' : 'bg-primary-500'
+                        )}
+                        aria-hidden='true'
+                      />
+                    )}
+                  </button>
+                ))}
+                {leftHanded && stringLabel(index, held)}
+              </React.Fragment>
+            ))}
+
+          {/* Fret numbers */}
+          {!leftHanded && <span />}
+          {fretColumns.map((fret) => (
+            <span
+              key={fret}
+              className={cn(
+                'text-center text-xs',
+                MARKED_FRETS.includes(fret) ? 'text-gray-300' : 'text-gray-500'
+              )}
+            >
+              {fret}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ChordIdentifier;
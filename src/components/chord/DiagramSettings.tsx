@@ -0,0 +1,72 @@
+'use client';
+
+// ============================================
+// Diagram Settings Component
+// Left-handed mirroring, orientation and string numbers for all diagrams
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useDiagramPreferences } from '@/hooks/useDiagramPreferences';
+import { DiagramOrientation } from '@/types';
+
+const orientations: { value: DiagramOrientation; label: string }[] = [
+  { value: 'vertical', label: 'Vertical' },
+  { value: 'horizontal', label: 'Horizontal' },
+];
+
+interface DiagramSettingsProps {
+  className?: string;
+}
+
+export function DiagramSettings({ className }: DiagramSettingsProps) {
+  const { leftHanded, orientation, stringNumbers, setDiagrams } = useDiagramPreferences();
+
+  const toggleClass = (active: boolean) =>
+    cn(
+      'h-8 px-3 rounded-md text-sm font-medium',
+      active ? 'bg-primary-500 text-white' : 'text-gray-300 hover:text-white',
+      'transition-all duration-200'
+    );
+
+  return (
+    <div
+      className={cn('flex flex-wrap items-center gap-2', className)}
+      role='group'
+      aria-label='Diagram settings'
+    >
+      <div className='flex items-center rounded-lg bg-surface-300 p-1' role='radiogroup' aria-label='Diagram orientation'>
+        {orientations.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setDiagrams({ orientation: option.value })}
+            className={toggleClass(orientation === option.value)}
+            role='radio'
+            aria-checked={orientation === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className='flex items-center gap-1 rounded-lg bg-surface-300 p-1'>
+        <button
+          onClick={() => setDiagrams({ leftHanded: !leftHanded })}
+          className={toggleClass(leftHanded)}
+          aria-pressed={leftHanded}
+        >
+          Left-handed
+        </button>
+        <button
+          onClick={() => setDiagrams({ stringNumbers: !stringNumbers })}
+          className={toggleClass(stringNumbers)}
+          aria-pressed={stringNumbers}
+        >
+          String numbers
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default DiagramSettings;
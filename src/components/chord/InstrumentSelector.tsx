@@ -0,0 +1,50 @@
+'use client';
+
+// ============================================
+// Instrument Selector Component
+// Switch chord diagrams between guitar, ukulele, bass, mandolin and piano
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useInstrument } from '@/hooks/useInstrument';
+import { INSTRUMENTS } from '@/utils/instruments';
+
+interface InstrumentSelectorProps {
+  className?: string;
+}
+
+export function InstrumentSelector({ className }: InstrumentSelectorProps) {
+  const { instrument, setInstrument } = useInstrument();
+
+  return (
+    <div
+      className={cn(
+        'flex flex-wrap items-center rounded-lg bg-surface-300 p-1',
+        className
+      )}
+      role='radiogroup'
+      aria-label='Instrument'
+    >
+      {INSTRUMENTS.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => setInstrument(option.id)}
+          className={cn(
+            'h-8 px-3 rounded-md text-sm font-medium',
+            instrument.id === option.id
+              ? 'bg-primary-500 text-white'
+              : 'text-gray-300 hover:text-white',
+            'transition-all duration-200'
+          )}
+          role='radio'
+          aria-checked={instrument.id === option.id}
+        >
+          {option.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default InstrumentSelector;
@@ -0,0 +1,97 @@
+'use client';
+
+// ============================================
+// Keyboard Diagram Component
+// Draws a KeyboardVoicing on piano keys, whole octaves from C
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { KeyboardVoicing } from '@/types';
+import { getMidiNoteName } from '@/utils/keyboard';
+
+const WHITE_WIDTH = 10;
+const WHITE_HEIGHT = 48;
+const BLACK_WIDTH = 6;
+const BLACK_HEIGHT = 30;
+const TOP = 4;
+
+// Pitch classes of the white keys, and black keys with the white key they follow
+const WHITE_KEYS = [0, 2, 4, 5, 7, 9, 11];
+const BLACK_KEYS = [
+  { pitch: 1, after: 0 },
+  { pitch: 3, after: 1 },
+  { pitch: 6, after: 3 },
+  { pitch: 8, after: 4 },
+  { pitch: 10, after: 5 },
+];
+
+interface KeyboardDiagramViewProps {
+  voicing: KeyboardVoicing;
+  className?: string;
+}
+
+export function KeyboardDiagramView({
+  voicing,
+  className,
+}: KeyboardDiagramViewProps) {
+  const lowest = voicing.notes[0] ?? 60;
+  const highest = voicing.notes[voicing.notes.length - 1] ?? 60;
+  const firstC = lowest - (lowest % 12);
+  const octaves = Math.max(2, Math.floor((highest - firstC) / 12) + 1);
+  const width = octaves * WHITE_KEYS.length * WHITE_WIDTH;
+  const pressed = new Set(voicing.notes);
+
+  const octaveList = Array.from({ length: octaves }, (_, octave) => octave);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${WHITE_HEIGHT + TOP * 2}`}
+      className={cn('text-white', className)}
+      role='img'
+      aria-label={`${voicing.chord} on piano: ${voicing.notes.map(getMidiNoteName).join(' ')}`}
+    >
+      {/* White keys */}
+      {octaveList.flatMap((octave) =>
+        WHITE_KEYS.map((pitch, index) => {
+          const midi = firstC + octave * 12 + pitch;
+          return (
+            <rect
+              key={`white-${midi}`}
+              x={(octave * WHITE_KEYS.length + index) * WHITE_WIDTH}
+              y={TOP}
+              width={WHITE_WIDTH}
+              height={WHITE_HEIGHT}
+              rx={1}
+              className={cn(
+                'stroke-surface-400',
+                pressed.has(midi) ? 'fill-primary-500' : 'fill-gray-100'
+              )}
+              strokeWidth={0.5}
+            />
+          );
+        })
+      )}
+
+      {/* Black keys */}
+      {octaveList.flatMap((octave) =>
+        BLACK_KEYS.map(({ pitch, after }) => {
+          const midi = firstC + octave * 12 + pitch;
+          return (
+            <rect
+              key={`black-${midi}`}
+              x={(octave * WHITE_KEYS.length + after + 1) * WHITE_WIDTH - BLACK_WIDTH / 2}
+              y={TOP}
+              width={BLACK_WIDTH}
+              height={BLACK_HEIGHT}
+              rx={1}
+              className={pressed.has(midi) ? 'fill-primary-400' : 'fill-surface-100'}
+            />
+          );
+        })
+      )}
+    </svg>
+  );
+}
+
+export default KeyboardDiagramView;
@@ -8,6 +8,37 @@ export { BottomNav, TopNav, Navigation } from './navigation/BottomNav';
 // Song Components
 export { TransposeControl } from './song/TransposeControl';
 export { AutoScrollControl } from './song/AutoScrollControl';
+export { MetronomeControl } from './song/MetronomeControl';
+export { NotationToggle } from './song/NotationToggle';
+export { RepeatLayoutToggle } from './song/RepeatLayoutToggle';
+export { SimplifyToggle } from './song/SimplifyToggle';
+export { SongLyrics } from './song/SongLyrics';
+export { SongSheet } from './song/SongSheet';
+export { ChordLyricLine } from './song/ChordLyricLine';
+export { SubstitutionPanel } from './song/SubstitutionPanel';
+export { TabStaff } from './song/TabStaff';
+export { ChordProExport } from './song/ChordProExport';
+export { SongImport } from './song/SongImport';
+export { CapoAdvisor } from './song/CapoAdvisor';
+export { TuningSelector } from './song/TuningSelector';
+export { ScaleSuggestions } from './song/ScaleSuggestions';
+export { SongChords } from './song/SongChords';
+
+// Chord Components
+export { ChordDiagramView } from './chord/ChordDiagramView';
+export { ChordIdentifier } from './chord/ChordIdentifier';
+export { ChordChart } from './chord/ChordChart';
+export { KeyboardDiagramView } from './chord/KeyboardDiagramView';
+export { InstrumentSelector } from './chord/InstrumentSelector';
+export { DiagramSettings } from './chord/DiagramSettings';
+export { ChordDetail } from './chord/ChordDetail';
+
+// Scale Components
+export { ScaleDiagramView } from './scale/ScaleDiagramView';
+export { ScaleExplorer } from './scale/ScaleExplorer';
+
+// Progression Components
+export { ProgressionExplorer } from './progression/ProgressionExplorer';
 
 // UI Components
 export { SongCard, ChordCard } from './ui/SongCard';
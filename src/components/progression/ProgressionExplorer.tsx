@@ -0,0 +1,162 @@
+'use client';
+
+// ============================================
+// Progression Explorer Component
+// Common progressions spelled in a chosen key, each playable
+// on the user's instrument
+// ============================================
+
+import React, { useEffect, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useChordPlayer } from '@/hooks/useChordPlayer';
+import { PROGRESSIONS, formatProgression, getProgressionChords } from '@/utils/progressions';
+import { InstrumentSelector } from '@/components/chord/InstrumentSelector';
+
+const ROOTS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+interface ProgressionExplorerProps {
+  initialKey?: string; // C or Am
+  initialProgression?: string; // Progression id, highlighted
+  className?: string;
+}
+
+export function ProgressionExplorer({
+  initialKey = 'C',
+  initialProgression,
+  className,
+}: ProgressionExplorerProps) {
+  const { playProgression, stop, currentChord } = useChordPlayer();
+  const [root, setRoot] = useState(initialKey.replace(/m$/, ''));
+  const [minor, setMinor] = useState(initialKey.endsWith('m'));
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const key = minor ? `${root}m` : root;
+
+  // The player clears its chord when a progression has finished
+  useEffect(() => {
+    if (currentChord === null) setPlayingId(null);
+  }, [currentChord]);
+
+  // Jump to a progression linked from a song
+  useEffect(() => {
+    if (initialProgression) {
+      document.getElementById(`progression-${initialProgression}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [initialProgression]);
+
+  const togglePlay = (id: string, chords: string[]) => {
+    if (playingId === id) {
+      stop();
+      return;
+    }
+    playProgression(chords);
+    setPlayingId(id);
+  };
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Key */}
+      <div className='space-y-3'>
+        <div className='flex flex-wrap gap-2' role='radiogroup' aria-label='Key'>
+          {(ROOTS.includes(root) ? ROOTS : [root, ...ROOTS]).map((note) => (
+            <button
+              key={note}
+              onClick={() => setRoot(note)}
+              className={cn(
+                'h-10 min-w-[2.75rem] px-3 rounded-lg font-mono font-semibold',
+                root === note
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-surface-300 text-gray-300 hover:text-white',
+                'transition-all duration-200'
+              )}
+              role='radio'
+              aria-checked={root === note}
+            >
+              {note}
+            </button>
+          ))}
+        </div>
+        <div className='flex flex-wrap items-center gap-2'>
+          <div className='flex items-center rounded-lg bg-surface-300 p-1' role='radiogroup' aria-label='Mode'>
+            {[false, true].map((option) => (
+              <button
+                key={String(option)}
+                onClick={() => setMinor(option)}
+                className={cn(
+                  'h-8 px-3 rounded-md text-sm font-medium',
+                  minor === option
+                    ? 'bg-primary-500 text-white'
+                    : 'text-gray-300 hover:text-white',
+                  'transition-all duration-200'
+                )}
+                role='radio'
+                aria-checked={minor === option}
+              >
+                {option ? 'Minor' : 'Major'}
+              </button>
+            ))}
+          </div>
+          <InstrumentSelector />
+        </div>
+      </div>
+
+      {/* Progressions */}
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+        {PROGRESSIONS.map((progression) => {
+          const chords = getProgressionChords(progression, key);
+          const isPlaying = playingId === progression.id;
+
+          return (
+            <div
+              key={progression.id}
+              id={`progression-${progression.id}`}
+              className={cn(
+                'p-4 rounded-xl bg-surface-200 border',
+                progression.id === initialProgression ? 'border-primary-500/50' : 'border-surface-300'
+              )}
+            >
+              <div className='flex items-start justify-between gap-3 mb-2'>
+                <div>
+                  <h2 className='text-lg font-semibold text-white'>{progression.name}</h2>
+                  <p className='font-mono text-sm text-primary-400'>{formatProgression(progression)}</p>
+                </div>
+                <button
+                  onClick={() => togglePlay(progression.id, chords)}
+                  className={cn(
+                    'flex items-center justify-center w-10 h-10 shrink-0 rounded-lg',
+                    isPlaying
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-surface-300 text-gray-300 hover:bg-surface-400 hover:text-white',
+                    'transition-all duration-200'
+                  )}
+                  aria-label={isPlaying ? `Stop ${progression.name}` : `Play ${progression.name}`}
+                >
+                  {isPlaying ? <Square size={16} /> : <Play size={18} />}
+                </button>
+              </div>
+              <p className='text-sm text-gray-400 mb-3'>{progression.description}</p>
+              <div className='flex flex-wrap gap-2'>
+                {chords.map((chord, index) => (
+                  <span
+                    key={index}
+                    className={cn(
+                      'px-2 py-1 rounded-md font-mono text-sm',
+                      isPlaying && currentChord === index
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-surface-300 text-gray-200',
+                      'transition-colors duration-100'
+                    )}
+                  >
+                    {chord}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default ProgressionExplorer;
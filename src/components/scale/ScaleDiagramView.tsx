@@ -0,0 +1,139 @@
+'use client';
+
+// ============================================
+// Scale Diagram Component
+// Draws one scale position as a fretboard chart in the user's orientation,
+// mirrored for left-handed players
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useDiagramPreferences } from '@/hooks/useDiagramPreferences';
+import { ScalePosition } from '@/types';
+import { getDiagramFrame } from '@/utils/diagram';
+
+const WIDTH = 100;
+const LEFT = 18;
+const RIGHT = 10;
+const TOP = 22;
+const BOTTOM = 6;
+const FRET_HEIGHT = 22;
+const DOT_RADIUS = 7;
+const NUMBER_SPACE = 10; // Below the strings for string numbers
+const OPEN_OFFSET = 11; // Open strings sit before the nut
+
+interface ScaleDiagramViewProps {
+  position: ScalePosition;
+  stringCount: number;
+  showDegrees?: boolean; // Label dots with degrees (b3) instead of note names
+  className?: string;
+}
+
+export function ScaleDiagramView({
+  position,
+  stringCount,
+  showDegrees = true,
+  className,
+}: ScaleDiagramViewProps) {
+  const { leftHanded, orientation, stringNumbers } = useDiagramPreferences();
+  const baseFret = Math.max(1, position.startFret);
+  const fretsShown = position.endFret - baseFret + 1;
+  const spacing = (WIDTH - LEFT - RIGHT) / Math.max(1, stringCount - 1);
+  const bottom = TOP + fretsShown * FRET_HEIGHT;
+  const height = bottom + (stringNumbers ? NUMBER_SPACE + BOTTOM : BOTTOM);
+  const frame = getDiagramFrame(WIDTH, height, { leftHanded, orientation });
+
+  // Laid out upright with string 1 (highest) on the right; the frame turns and mirrors it
+  const stringAcross = (string: number) => LEFT + (stringCount - string) * spacing;
+  const fretAlong = (fret: number) => TOP + (fret - baseFret + 0.5) * FRET_HEIGHT;
+  const baseFretLabel = frame.point(LEFT - 6, TOP + FRET_HEIGHT / 2);
+  const baseFretAnchor = orientation === 'horizontal' ? 'middle' : leftHanded ? 'start' : 'end';
+
+  return (
+    <svg
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      className={cn('text-white', className)}
+      role='img'
+      aria-label={`Scale position from fret ${position.startFret} to ${position.endFret}`}
+    >
+      {/* Nut or starting fret */}
+      {baseFret === 1 ? (
+        <rect {...frame.rect(LEFT, TOP - 3, WIDTH - RIGHT, TOP)} className='fill-gray-300' />
+      ) : (
+        <text x={baseFretLabel.x} y={baseFretLabel.y + 3} textAnchor={baseFretAnchor} className='fill-gray-400 text-[9px]'>
+          {baseFret}
+        </text>
+      )}
+
+      {/* Frets */}
+      {Array.from({ length: fretsShown + 1 }, (_, i) => {
+        const from = frame.point(LEFT, TOP + i * FRET_HEIGHT);
+        const to = frame.point(WIDTH - RIGHT, TOP + i * FRET_HEIGHT);
+        return (
+          <line
+            key={`fret-${i}`}
+            x1={from.x}
+            x2={to.x}
+            y1={from.y}
+            y2={to.y}
+            className='stroke-surface-400'
+            strokeWidth={1}
+          />
+        );
+      })}
+
+      {/* Strings */}
+      {Array.from({ length: stringCount }, (_, i) => {
+        const from = frame.point(stringAcross(i + 1), TOP);
+        const to = frame.point(stringAcross(i + 1), bottom);
+        return (
+          <line
+            key={`string-${i}`}
+            x1={from.x}
+            x2={to.x}
+            y1={from.y}
+            y2={to.y}
+            className='stroke-gray-500'
+            strokeWidth={1}
+          />
+        );
+      })}
+
+      {/* String numbers past the last fret */}
+      {stringNumbers && Array.from({ length: stringCount }, (_, i) => {
+        const label = frame.point(stringAcross(i + 1), bottom + NUMBER_SPACE / 2 + 2);
+        return (
+          <text key={`number-${i}`} x={label.x} y={label.y + 3} textAnchor='middle' className='fill-gray-500 text-[8px]'>
+            {i + 1}
+          </text>
+        );
+      })}
+
+      {/* Scale notes: roots filled, open strings before the nut */}
+      {position.notes.map(({ string, fret, degree, note }) => {
+        const isRoot = degree === '1';
+        const dot = frame.point(stringAcross(string), fret === 0 ? TOP - OPEN_OFFSET : fretAlong(fret));
+        return (
+          <g key={`${string}-${fret}`}>
+            <circle
+              cx={dot.x}
+              cy={dot.y}
+              r={fret === 0 ? DOT_RADIUS - 2 : DOT_RADIUS}
+              className={cn(
+                isRoot ? 'fill-primary-500' : 'fill-surface-300',
+                fret === 0 && !isRoot && 'fill-none stroke-gray-300'
+              )}
+            />
+            {fret > 0 && (
+              <text x={dot.x} y={dot.y + 3} textAnchor='middle' className='fill-white text-[7px] font-semibold'>
+                {showDegrees ? degree : note}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default ScaleDiagramView;
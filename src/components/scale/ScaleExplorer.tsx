@@ -0,0 +1,145 @@
+'use client';
+
+// ============================================
+// Scale Explorer Component
+// Pick a root and scale to see its notes and fretboard positions
+// ============================================
+
+import React, { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useTuning } from '@/hooks/useTuning';
+import { useInstrument } from '@/hooks/useInstrument';
+import { ScaleCategory } from '@/types';
+import { SCALES, getScale, getScaleDegrees, getScaleNotes, getScalePositions } from '@/utils/scales';
+import { ScaleDiagramView } from './ScaleDiagramView';
+
+const ROOTS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const categoryLabels: Record<ScaleCategory, string> = {
+  major: 'Major',
+  minor: 'Minor',
+  pentatonic: 'Pentatonic',
+  blues: 'Blues',
+  mode: 'Modes',
+};
+
+interface ScaleExplorerProps {
+  initialRoot?: string;
+  initialScale?: string; // Scale id
+  className?: string;
+}
+
+export function ScaleExplorer({
+  initialRoot = 'A',
+  initialScale = 'minor-pentatonic',
+  className,
+}: ScaleExplorerProps) {
+  // Fretted instruments use their own strings; piano players get the guitar neck
+  const { tuning: guitarTuning } = useTuning();
+  const { tuning: instrumentTuning } = useInstrument();
+  const tuning = instrumentTuning ?? guitarTuning;
+  const [root, setRoot] = useState(initialRoot);
+  const [scaleId, setScaleId] = useState(getScale(initialScale) ? initialScale : SCALES[0].id);
+  const [showDegrees, setShowDegrees] = useState(true);
+
+  const scale = getScale(scaleId) ?? SCALES[0];
+  const notes = useMemo(() => getScaleNotes(root, scale), [root, scale]);
+  const degrees = useMemo(() => getScaleDegrees(scale), [scale]);
+  const positions = useMemo(() => getScalePositions(root, scale, tuning), [root, scale, tuning]);
+  const categories = Object.keys(categoryLabels) as ScaleCategory[];
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Root */}
+      <div className='flex flex-wrap gap-2' role='radiogroup' aria-label='Root note'>
+        {(ROOTS.includes(root) ? ROOTS : [root, ...ROOTS]).map((note) => (
+          <button
+            key={note}
+            onClick={() => setRoot(note)}
+            className={cn(
+              'h-10 min-w-[2.75rem] px-3 rounded-lg font-mono font-semibold',
+              root === note
+                ? 'bg-primary-500 text-white'
+                : 'bg-surface-300 text-gray-300 hover:text-white',
+              'transition-all duration-200'
+            )}
+            role='radio'
+            aria-checked={root === note}
+          >
+            {note}
+          </button>
+        ))}
+      </div>
+
+      {/* Scales by category */}
+      <div className='space-y-3'>
+        {categories.map((category) => (
+          <div key={category} className='flex flex-wrap items-center gap-2'>
+            <span className='w-24 text-sm text-gray-400'>{categoryLabels[category]}</span>
+            {SCALES.filter(s => s.category === category).map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setScaleId(option.id)}
+                className={cn(
+                  'px-3 py-1.5 rounded-full text-sm',
+                  option.id === scale.id
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-surface-300 text-gray-300 hover:text-white',
+                  'transition-all duration-200'
+                )}
+                aria-pressed={option.id === scale.id}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Notes */}
+      <div className='p-4 rounded-xl bg-surface-200 border border-surface-300'>
+        <div className='flex items-center justify-between gap-2 mb-3'>
+          <h2 className='text-lg font-semibold text-white'>
+            {root} {scale.name}
+          </h2>
+          <button
+            onClick={() => setShowDegrees(!showDegrees)}
+            className='px-3 py-1.5 rounded-lg text-sm bg-surface-300 text-gray-300 hover:text-white transition-colors'
+          >
+            {showDegrees ? 'Show notes' : 'Show degrees'}
+          </button>
+        </div>
+        <div className='flex flex-wrap gap-3'>
+          {notes.map((note, index) => (
+            <div key={note} className='flex flex-col items-center'>
+              <span className='font-mono font-bold text-white'>{note}</span>
+              <span className='text-xs text-gray-400'>{degrees[index]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Positions */}
+      <div className='grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4'>
+        {positions.map((position, index) => (
+          <div
+            key={position.startFret}
+            className='flex flex-col items-center gap-1 p-3 rounded-xl bg-surface-200 border border-surface-300'
+          >
+            <span className='text-sm text-gray-300'>
+              Position {index + 1} · frets {position.startFret}–{position.endFret}
+            </span>
+            <ScaleDiagramView
+              position={position}
+              stringCount={tuning.strings.length}
+              showDegrees={showDegrees}
+              className='w-full max-w-[120px]'
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ScaleExplorer;
@@ -2,27 +2,47 @@
 
 // ============================================
 // Auto Scroll Control Component
-// Performance-friendly smooth auto-scroll controls
+// Performance-friendly smooth auto-scroll controls,
+// with a metronome that can count in before scrolling starts;
+// scrolling follows the song's full playing order
 // ============================================
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAutoScroll } from '@/hooks/useAutoScroll';
+import { useMetronome } from '@/hooks/useMetronome';
+import { useSongTempo } from '@/hooks/useSongTempo';
+import { useSongView } from '@/hooks/useSongView';
 import { cn } from '@/lib/utils';
-import { Play, Pause, RotateCcw, Settings } from 'lucide-react';
+import { AccentLevel, MetronomeSettings, SongLayout, TimeSignature } from '@/types';
+import { formatTimeSignature, getDefaultAccents } from '@/utils/metronome';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+import { MetronomeControl } from './MetronomeControl';
+
+const countInOptions = [
+  { bars: 0, label: 'No count-in' },
+  { bars: 1, label: 'Count in 1 bar' },
+  { bars: 2, label: 'Count in 2 bars' },
+];
 
 interface AutoScrollControlProps {
+  songId?: string; // Remembers the song's tempo
+  bpm?: number; // Song tempo from its metadata
+  timeSignature?: TimeSignature;
   className?: string;
   showSpeedIndicator?: boolean;
 }
 
 export function AutoScrollControl({
+  songId,
+  bpm: songBpm,
+  timeSignature: songTimeSignature,
   className,
   showSpeedIndicator = true,
 }: AutoScrollControlProps) {
   const {
     isPlaying,
     speed,
-    currentPosition,
+    progress,
     start,
     pause,
     toggle,
@@ -30,6 +50,59 @@ export function AutoScrollControl({
     reset,
   } = useAutoScroll();
 
+  // Metronome at the song's tempo
+  const { bpm, timeSignature, setBpm, setTimeSignature } = useSongTempo(songId, {
+    bpm: songBpm,
+    timeSignature: songTimeSignature,
+  });
+  const [subdivision, setSubdivision] = useState(1);
+  const [countInBars, setCountInBars] = useState(1);
+
+  // Accents edited for one meter; a new meter starts from its defaults
+  const meter = formatTimeSignature(timeSignature);
+  const [accentPattern, setAccentPattern] = useState<{ meter: string; accents: AccentLevel[] }>();
+  const accents = accentPattern?.meter === meter ? accentPattern.accents : getDefaultAccents(timeSignature);
+
+  const settings: MetronomeSettings = { bpm, timeSignature, accents, subdivision };
+  const metronome = useMetronome(settings);
+
+  const updateSettings = (changes: Partial<MetronomeSettings>) => {
+    if (changes.bpm !== undefined) setBpm(changes.bpm);
+    if (changes.timeSignature) setTimeSignature(changes.timeSignature);
+    if (changes.accents) setAccentPattern({ meter, accents: changes.accents });
+    if (changes.subdivision !== undefined) setSubdivision(changes.subdivision);
+  };
+
+  // Repeats are written out while scrolling so the page scrolls through them
+  // in order; the reader's own layout comes back once scrolling stops
+  const layout = useSongView(state => state.layout);
+  const setLayout = useSongView(state => state.setLayout);
+  const layoutBeforeScroll = useRef<SongLayout | null>(null);
+  const isScrolling = isPlaying || metronome.isCountingIn;
+
+  useEffect(() => {
+    if (isScrolling || layoutBeforeScroll.current === null) return;
+    setLayout(layoutBeforeScroll.current);
+    layoutBeforeScroll.current = null;
+  }, [isScrolling, setLayout]);
+
+  // Count in before scrolling; pressing again during the count-in cancels it
+  const handlePlay = () => {
+    if (metronome.isCountingIn) {
+      metronome.stop();
+      return;
+    }
+    if (!isPlaying) {
+      layoutBeforeScroll.current = layout;
+      setLayout('expanded');
+    }
+    if (isPlaying || countInBars === 0) {
+      toggle();
+    } else {
+      metronome.countIn(countInBars, start);
+    }
+  };
+
   // Format speed display
   const speedDisplay = speed.toFixed(1);
 
@@ -46,21 +119,43 @@ export function AutoScrollControl({
       role='group'
       aria-label='Auto-scroll controls'
     >
-      {/* Play/Pause Button */}
+      {/* Play/Pause Button (shows the beat while counting in) */}
       <button
-        onClick={toggle}
+        onClick={handlePlay}
         className={cn(
           'flex items-center justify-center w-12 h-12 rounded-full',
-          isPlaying
+          isPlaying || metronome.isCountingIn
             ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30'
             : 'bg-primary-500 text-white hover:bg-primary-600',
           'transition-all duration-200 active:scale-95'
         )}
-        aria-label={isPlaying ? 'Pause auto-scroll' : 'Start auto-scroll'}
+        aria-label={
+          metronome.isCountingIn ? 'Cancel count-in' : isPlaying ? 'Pause auto-scroll' : 'Start auto-scroll'
+        }
       >
-        {isPlaying ? <Pause size={24} /> : <Play size={24} />}
+        {metronome.isCountingIn ? (
+          <span className='font-mono text-xl font-bold'>{(metronome.beat ?? 0) + 1}</span>
+        ) : isPlaying ? (
+          <Pause size={24} />
+        ) : (
+          <Play size={24} />
+        )}
       </button>
 
+      {/* Count-in */}
+      <select
+        value={countInBars}
+        onChange={(e) => setCountInBars(parseInt(e.target.value, 10))}
+        className='h-8 px-2 rounded-lg bg-surface-300 text-sm text-white focus:outline-none focus:ring-2 focus:ring-primary-500/50'
+        aria-label='Count-in'
+      >
+        {countInOptions.map((option) => (
+          <option key={option.bars} value={option.bars}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
       {/* Speed Slider */}
       <div className='flex items-center gap-3 flex-1 min-w-[150px]'>
         <span className='text-sm text-gray-400'>Speed:</span>
@@ -115,6 +210,16 @@ export function AutoScrollControl({
         <RotateCcw size={18} />
       </button>
 
+      {/* Metronome */}
+      <MetronomeControl
+        settings={settings}
+        onChange={updateSettings}
+        isPlaying={metronome.isPlaying && !metronome.isCountingIn}
+        beat={metronome.beat}
+        onToggle={metronome.toggle}
+        className='w-full pt-3 border-t border-surface-300'
+      />
+
       {/* Progress Indicator */}
       {showSpeedIndicator && (
         <div className='w-full mt-2 pt-2 border-t border-surface-300'>
@@ -123,7 +228,7 @@ export function AutoScrollControl({
             <div className='flex-1 h-1 rounded-full bg-surface-300 overflow-hidden'>
               <div
                 className='h-full bg-primary-500 transition-all duration-300'
-                style={{ width: '50%' }} // Would need context for actual progress
+                style={{ width: `${Math.round(progress * 100)}%` }}
               />
             </div>
             <span>End</span>
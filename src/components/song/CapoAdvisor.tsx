@@ -0,0 +1,110 @@
+'use client';
+
+// ============================================
+// Capo Advisor Component
+// Suggests capo positions with easier chord shapes
+// ============================================
+
+import React, { useMemo, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useTuning } from '@/hooks/useTuning';
+import { useSongView } from '@/hooks/useSongView';
+import { suggestCapoPositions } from '@/utils/capo';
+import { shiftKey, transposeChords } from '@/utils/transpose';
+
+interface CapoAdvisorProps {
+  chords: string[];
+  songKey?: string;
+  songId?: string; // Reads the song's saved tuning
+  maxOptions?: number;
+  className?: string;
+}
+
+export function CapoAdvisor({
+  chords,
+  songKey,
+  songId,
+  maxOptions = 4,
+  className,
+}: CapoAdvisorProps) {
+  const { tuning } = useTuning(songId);
+  // Shapes for the chords as played, after transposition and simplification
+  const { semitones, originalKey, targetKey, accidentals, simplification } =
+    useSongView(state => state.transposition);
+  const options = useMemo(() => {
+    const played = transposeChords(chords, semitones, {
+      originalKey: originalKey ?? songKey,
+      targetKey,
+      accidentals,
+      simplify: simplification,
+    });
+    const playedKey = songKey && shiftKey(songKey, semitones);
+    return suggestCapoPositions(played, playedKey, tuning).slice(0, maxOptions);
+  }, [chords, semitones, originalKey, targetKey, accidentals, simplification, songKey, tuning, maxOptions]);
+  const [selectedCapo, setSelectedCapo] = useState<number | null>(null);
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  const selected = options.find(o => o.capo === selectedCapo) ?? options[0];
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-xl',
+        'bg-surface-200 border border-surface-300',
+        className
+      )}
+      role='group'
+      aria-label='Capo suggestions'
+    >
+      {/* Options */}
+      <div className='flex flex-wrap items-center gap-2'>
+        <span className='text-sm font-medium text-gray-400 mr-2'>Capo</span>
+        {options.map((option) => (
+          <button
+            key={option.capo}
+            onClick={() => setSelectedCapo(option.capo)}
+            className={cn(
+              'flex items-center gap-2 px-3 py-1.5 rounded-full',
+              option.capo === selected.capo
+                ? 'bg-primary-500 text-white'
+                : 'bg-surface-300 text-gray-300 hover:bg-surface-400',
+              'transition-all duration-200'
+            )}
+            aria-pressed={option.capo === selected.capo}
+            aria-label={option.reason}
+          >
+            <span className='font-semibold'>{option.capo === 0 ? 'None' : option.capo}</span>
+            <span className='text-xs opacity-75 font-mono'>{option.key}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Selected Option */}
+      <div className='mt-3 pt-3 border-t border-surface-300'>
+        <p className='text-white font-medium'>{selected.reason}</p>
+        {selected.barreChordsRemoved > 0 && (
+          <p className='text-xs text-chord-beginner mt-1'>
+            {selected.barreChordsRemoved} fewer barre chord{selected.barreChordsRemoved === 1 ? '' : 's'}
+          </p>
+        )}
+        <div className='grid grid-cols-[auto_auto_1fr] gap-x-4 gap-y-1 mt-3 text-sm font-mono'>
+          <span className='text-xs text-gray-500 font-sans'>Shape</span>
+          <span className='text-xs text-gray-500 font-sans'>Sounds as</span>
+          <span />
+          {selected.shapes.map((shape) => (
+            <React.Fragment key={shape.sounding}>
+              <span className={cn('chord', shape.barre && 'chord-advanced')}>{shape.shape}</span>
+              <span className='text-gray-400'>{shape.sounding}</span>
+              <span className='text-xs text-gray-500 font-sans'>{shape.barre ? 'barre' : ''}</span>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CapoAdvisor;
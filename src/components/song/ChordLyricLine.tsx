@@ -0,0 +1,45 @@
+'use client';
+
+// ============================================
+// Chord Lyric Line Component
+// One line of a song with each chord drawn over the syllable it is
+// played on; tab blocks are drawn as a staff
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { SongLine } from '@/types';
+import { formatSongLine } from '@/utils/songStructure';
+import { TabStaff } from './TabStaff';
+
+interface ChordLyricLineProps {
+  line: SongLine;
+  renderChord?: (chord: string) => React.ReactNode; // Called for each chord in order
+  className?: string;
+}
+
+export function ChordLyricLine({ line, renderChord = (chord) => chord, className }: ChordLyricLineProps) {
+  if (line.tab) {
+    return <TabStaff block={line.tab} className={className} />;
+  }
+  if (!line.segments.some(segment => segment.chord !== undefined)) {
+    return <div className={className}>{formatSongLine(line) || ' '}</div>;
+  }
+
+  // Chords without words get no lyrics row
+  const hasLyrics = line.segments.some(segment => segment.lyrics.trim());
+  return (
+    <div className={cn('flex flex-wrap items-end', className)}>
+      {line.segments.map((segment, segmentIndex) => (
+        <span key={segmentIndex} className='inline-flex flex-col'>
+          <span className={cn('lyrics-chord mx-0 leading-tight', segment.chord !== undefined && 'pr-[1ch]')}>
+            {segment.chord !== undefined ? renderChord(segment.chord) : ' '}
+          </span>
+          {hasLyrics && <span>{segment.lyrics || ' '}</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default ChordLyricLine;
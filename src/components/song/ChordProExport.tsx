@@ -0,0 +1,51 @@
+'use client';
+
+// ============================================
+// ChordPro Export Component
+// Downloads the song as a ChordPro file, transposed, simplified
+// and reharmonized as it is shown
+// ============================================
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ParsedSong } from '@/types';
+import { useSongView } from '@/hooks/useSongView';
+import { serializeChordPro } from '@/utils/chordpro';
+import { applySubstitutions } from '@/utils/substitutions';
+
+interface ChordProExportProps {
+  song: ParsedSong;
+  className?: string;
+}
+
+export function ChordProExport({ song, className }: ChordProExportProps) {
+  const transposition = useSongView(state => state.transposition);
+  const substitutions = useSongView(state => state.substitutions);
+
+  const download = () => {
+    const text = serializeChordPro(
+      { ...song, sections: applySubstitutions(song.sections, substitutions) },
+      transposition
+    );
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${song.metadata.title.trim().replace(/[^\w-]+/g, '-') || 'song'}.cho`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <button
+      onClick={download}
+      className={cn('p-2 text-gray-400 hover:text-white transition-colors', className)}
+      aria-label='Download ChordPro'
+      title='Download ChordPro'
+    >
+      <Download size={20} />
+    </button>
+  );
+}
+
+export default ChordProExport;
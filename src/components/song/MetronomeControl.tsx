@@ -0,0 +1,197 @@
+'use client';
+
+// ============================================
+// Metronome Control Component
+// BPM with tap tempo, time signature, subdivisions and a tappable
+// accent pattern
+// ============================================
+
+import React, { useRef, useState } from 'react';
+import { Minus, Plus, Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AccentLevel, MetronomeSettings } from '@/types';
+import {
+  MIN_BPM,
+  MAX_BPM,
+  TIME_SIGNATURES,
+  addTap,
+  cycleAccent,
+  formatTimeSignature,
+  getTapTempo,
+  parseTimeSignature,
+} from '@/utils/metronome';
+
+const subdivisions = [
+  { value: 1, label: 'Beats' },
+  { value: 2, label: '8ths' },
+  { value: 3, label: 'Triplets' },
+  { value: 4, label: '16ths' },
+];
+
+const accentStyles: Record<AccentLevel, string> = {
+  strong: 'h-6 bg-primary-500',
+  medium: 'h-4 bg-primary-400',
+  weak: 'h-2.5 bg-gray-400',
+  off: 'h-1 bg-surface-400',
+};
+
+interface MetronomeControlProps {
+  settings: MetronomeSettings;
+  onChange: (settings: Partial<MetronomeSettings>) => void;
+  isPlaying: boolean;
+  beat: number | null; // Beat being heard, highlighted
+  onToggle: () => void;
+  className?: string;
+}
+
+export function MetronomeControl({
+  settings,
+  onChange,
+  isPlaying,
+  beat,
+  onToggle,
+  className,
+}: MetronomeControlProps) {
+  const { bpm, timeSignature, accents, subdivision } = settings;
+  // A song in an unusual meter keeps it selectable
+  const timeSignatures = TIME_SIGNATURES.some(option => formatTimeSignature(option) === formatTimeSignature(timeSignature))
+    ? TIME_SIGNATURES
+    : [timeSignature, ...TIME_SIGNATURES];
+  const tapsRef = useRef<number[]>([]);
+  // Typed tempo, applied when the field is left
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commitDraft = () => {
+    const value = parseInt(draft ?? '', 10);
+    if (!Number.isNaN(value)) onChange({ bpm: value });
+    setDraft(null);
+  };
+
+  const tap = () => {
+    tapsRef.current = addTap(tapsRef.current, performance.now());
+    const tempo = getTapTempo(tapsRef.current);
+    if (tempo !== null) {
+      onChange({ bpm: tempo });
+    }
+  };
+
+  const setAccent = (index: number) => {
+    onChange({ accents: accents.map((level, i) => (i === index ? cycleAccent(level) : level)) });
+  };
+
+  return (
+    <div
+      className={cn('flex flex-wrap items-center gap-3', className)}
+      role='group'
+      aria-label='Metronome'
+    >
+      {/* On/off */}
+      <button
+        onClick={onToggle}
+        className={cn(
+          'flex items-center justify-center w-10 h-10 rounded-lg',
+          isPlaying
+            ? 'bg-primary-500 text-white'
+            : 'bg-surface-300 text-gray-300 hover:bg-surface-400 hover:text-white',
+          'transition-all duration-200'
+        )}
+        aria-label={isPlaying ? 'Stop metronome' : 'Start metronome'}
+        aria-pressed={isPlaying}
+      >
+        <Timer size={18} />
+      </button>
+
+      {/* BPM */}
+      <div className='flex items-center gap-1'>
+        <button
+          onClick={() => onChange({ bpm: bpm - 1 })}
+          disabled={bpm <= MIN_BPM}
+          className='flex items-center justify-center w-8 h-8 rounded-lg bg-surface-300 text-gray-300 hover:bg-surface-400 disabled:opacity-50 transition-all duration-200'
+          aria-label='Slower'
+        >
+          <Minus size={16} />
+        </button>
+        <input
+          type='number'
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={draft ?? bpm}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitDraft();
+          }}
+          className='w-16 h-8 rounded-lg bg-surface-300 text-center font-mono text-white focus:outline-none focus:ring-2 focus:ring-primary-500/50'
+          aria-label='Beats per minute'
+        />
+        <button
+          onClick={() => onChange({ bpm: bpm + 1 })}
+          disabled={bpm >= MAX_BPM}
+          className='flex items-center justify-center w-8 h-8 rounded-lg bg-surface-300 text-gray-300 hover:bg-surface-400 disabled:opacity-50 transition-all duration-200'
+          aria-label='Faster'
+        >
+          <Plus size={16} />
+        </button>
+        <span className='text-sm text-gray-400'>BPM</span>
+      </div>
+
+      {/* Tap tempo */}
+      <button
+        onClick={tap}
+        className='h-8 px-3 rounded-lg text-sm font-medium bg-surface-300 text-gray-300 hover:bg-surface-400 hover:text-white active:scale-95 transition-all duration-200'
+      >
+        Tap
+      </button>
+
+      {/* Time signature */}
+      <select
+        value={formatTimeSignature(timeSignature)}
+        onChange={(e) => {
+          const next = parseTimeSignature(e.target.value);
+          if (next) onChange({ timeSignature: next });
+        }}
+        className='h-8 px-2 rounded-lg bg-surface-300 text-sm text-white focus:outline-none focus:ring-2 focus:ring-primary-500/50'
+        aria-label='Time signature'
+      >
+        {timeSignatures.map((option) => (
+          <option key={formatTimeSignature(option)} value={formatTimeSignature(option)}>
+            {formatTimeSignature(option)}
+          </option>
+        ))}
+      </select>
+
+      {/* Subdivisions */}
+      <select
+        value={subdivision}
+        onChange={(e) => onChange({ subdivision: parseInt(e.target.value, 10) })}
+        className='h-8 px-2 rounded-lg bg-surface-300 text-sm text-white focus:outline-none focus:ring-2 focus:ring-primary-500/50'
+        aria-label='Subdivision'
+      >
+        {subdivisions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {/* Accent pattern: tap a beat to change its accent */}
+      <div className='flex items-end gap-1 h-8' role='group' aria-label='Accent pattern'>
+        {accents.map((level, index) => (
+          <button
+            key={index}
+            onClick={() => setAccent(index)}
+            className={cn(
+              'flex items-end justify-center w-5 h-full rounded',
+              beat === index && 'bg-surface-300'
+            )}
+            aria-label={`Beat ${index + 1}: ${level}`}
+          >
+            <span className={cn('w-3 rounded-sm transition-all duration-100', accentStyles[level])} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default MetronomeControl;
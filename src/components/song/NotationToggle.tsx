@@ -0,0 +1,60 @@
+'use client';
+
+// ============================================
+// Notation Toggle Component
+// Switch the sheet between chords, Roman numerals and Nashville numbers
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { NotationMode } from '@/types';
+
+const notationOptions: Array<{ value: NotationMode; label: string; description: string }> = [
+  { value: 'chords', label: 'C G Am', description: 'Show chord names' },
+  { value: 'roman', label: 'I V vi', description: 'Show Roman numerals' },
+  { value: 'nashville', label: '1 5 6-', description: 'Show Nashville numbers' },
+];
+
+interface NotationToggleProps {
+  value: NotationMode;
+  onChange: (mode: NotationMode) => void;
+  className?: string;
+}
+
+export function NotationToggle({
+  value,
+  onChange,
+  className,
+}: NotationToggleProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-center rounded-lg bg-surface-300 p-1',
+        className
+      )}
+      role='radiogroup'
+      aria-label='Chord notation'
+    >
+      {notationOptions.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'h-8 px-3 rounded-md text-sm font-mono font-medium',
+            value === option.value
+              ? 'bg-primary-500 text-white'
+              : 'text-gray-300 hover:text-white',
+            'transition-all duration-200'
+          )}
+          role='radio'
+          aria-checked={value === option.value}
+          aria-label={option.description}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default NotationToggle;
@@ -0,0 +1,59 @@
+'use client';
+
+// ============================================
+// Repeat Layout Toggle Component
+// Switch the sheet between repeats as written and the full playing order
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { SongLayout } from '@/types';
+
+const layoutOptions: Array<{ value: SongLayout; label: string; description: string }> = [
+  { value: 'compact', label: 'Compact', description: 'Show repeats as written' },
+  { value: 'expanded', label: 'Expanded', description: 'Write out every repeat in playing order' },
+];
+
+interface RepeatLayoutToggleProps {
+  value: SongLayout;
+  onChange: (layout: SongLayout) => void;
+  className?: string;
+}
+
+export function RepeatLayoutToggle({
+  value,
+  onChange,
+  className,
+}: RepeatLayoutToggleProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-center rounded-lg bg-surface-300 p-1',
+        className
+      )}
+      role='radiogroup'
+      aria-label='Repeats'
+    >
+      {layoutOptions.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'h-8 px-3 rounded-md text-sm font-medium',
+            value === option.value
+              ? 'bg-primary-500 text-white'
+              : 'text-gray-300 hover:text-white',
+            'transition-all duration-200'
+          )}
+          role='radio'
+          aria-checked={value === option.value}
+          title={option.description}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default RepeatLayoutToggle;
@@ -0,0 +1,68 @@
+'use client';
+
+// ============================================
+// Scale Suggestions Component
+// Scales to solo with over the song, in the key it is played in
+// ============================================
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { useSongView } from '@/hooks/useSongView';
+import { transposeChords } from '@/utils/transpose';
+import { suggestSoloScales } from '@/utils/scales';
+
+interface ScaleSuggestionsProps {
+  chords: string[];
+  className?: string;
+}
+
+export function ScaleSuggestions({
+  chords,
+  className,
+}: ScaleSuggestionsProps) {
+  const { semitones, originalKey, targetKey, accidentals } = useSongView(state => state.transposition);
+
+  // Follow the transposition so the scales match what is played
+  const suggestions = useMemo(() => {
+    const played = transposeChords(chords, semitones, { originalKey, targetKey, accidentals });
+    return chords.length > 0 ? suggestSoloScales(played) : [];
+  }, [chords, semitones, originalKey, targetKey, accidentals]);
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-xl',
+        'bg-surface-200 border border-surface-300',
+        className
+      )}
+      role='group'
+      aria-label='Scales to solo with'
+    >
+      <span className='text-sm font-medium text-gray-400 block mb-2'>Solo scales</span>
+      <div className='flex flex-wrap gap-2'>
+        {suggestions.map(({ root, scale, name, reason }) => (
+          <Link
+            key={`${root}-${scale}`}
+            href={`/scales?root=${encodeURIComponent(root)}&scale=${scale}`}
+            className={cn(
+              'px-3 py-1.5 rounded-full text-sm',
+              'bg-surface-300 text-white',
+              'hover:bg-surface-400',
+              'transition-all duration-200'
+            )}
+            title={reason}
+          >
+            {name}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ScaleSuggestions;
@@ -0,0 +1,62 @@
+'use client';
+
+// ============================================
+// Simplify Toggle Component
+// Reduce the sheet's chords to sevenths, triads or power chords
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { SimplificationLevel } from '@/types';
+
+const simplifyOptions: Array<{ value: SimplificationLevel; label: string; description: string }> = [
+  { value: 'full', label: 'Full', description: 'Show chords as written' },
+  { value: 'seventh', label: '7ths', description: 'Cut extensions back to seventh chords' },
+  { value: 'triad', label: 'Triads', description: 'Play plain major, minor, diminished and augmented chords' },
+  { value: 'power', label: 'Power', description: 'Play power chords' },
+];
+
+interface SimplifyToggleProps {
+  value: SimplificationLevel;
+  onChange: (level: SimplificationLevel) => void;
+  className?: string;
+}
+
+export function SimplifyToggle({
+  value,
+  onChange,
+  className,
+}: SimplifyToggleProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-center rounded-lg bg-surface-300 p-1',
+        className
+      )}
+      role='radiogroup'
+      aria-label='Chord simplification'
+    >
+      {simplifyOptions.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'h-8 px-3 rounded-md text-sm font-medium',
+            value === option.value
+              ? 'bg-primary-500 text-white'
+              : 'text-gray-300 hover:text-white',
+            'transition-all duration-200'
+          )}
+          role='radio'
+          aria-checked={value === option.value}
+          aria-label={option.description}
+          title={option.description}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default SimplifyToggle;
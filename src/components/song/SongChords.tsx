@@ -0,0 +1,71 @@
+'use client';
+
+// ============================================
+// Song Chords Component
+// Shapes of every chord in the song, as played, on the chosen instrument
+// ============================================
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { useSongView } from '@/hooks/useSongView';
+import { isNoChord } from '@/utils/chord';
+import { transposeChords } from '@/utils/transpose';
+import { ChordChart } from '@/components/chord/ChordChart';
+import { InstrumentSelector } from '@/components/chord/InstrumentSelector';
+
+interface SongChordsProps {
+  chords: string[];
+  songId?: string; // Reads the song's saved guitar tuning
+  className?: string;
+}
+
+export function SongChords({
+  chords,
+  songId,
+  className,
+}: SongChordsProps) {
+  const { semitones, originalKey, targetKey, accidentals, simplification } =
+    useSongView(state => state.transposition);
+
+  // Unique chords after transposition and simplification, in order of appearance
+  const played = useMemo(() => {
+    const transposed = transposeChords(chords, semitones, {
+      originalKey,
+      targetKey,
+      accidentals,
+      simplify: simplification,
+    });
+    return Array.from(new Set(transposed.filter(chord => !isNoChord(chord))));
+  }, [chords, semitones, originalKey, targetKey, accidentals, simplification]);
+
+  if (played.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-xl',
+        'bg-surface-200 border border-surface-300',
+        className
+      )}
+      role='group'
+      aria-label='Chords in this song'
+    >
+      <div className='flex flex-wrap items-center justify-between gap-2 mb-3'>
+        <span className='text-sm font-medium text-gray-400'>Chords</span>
+        <InstrumentSelector />
+      </div>
+      <div className='grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-3'>
+        {played.map((chord) => (
+          <div key={chord} className='flex flex-col items-center gap-1'>
+            <span className='font-mono font-bold text-white'>{chord}</span>
+            <ChordChart chord={chord} songId={songId} showFingers={false} playable className='w-full max-w-[80px]' />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SongChords;
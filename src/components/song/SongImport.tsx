@@ -0,0 +1,147 @@
+'use client';
+
+// ============================================
+// Song Import Component
+// Opens a ChordPro file or a plain chords-over-lyrics sheet as a song
+// that can be transposed, played along to and exported again
+// ============================================
+
+import React, { useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ParsedSong, UnclassifiedLine, ValidationResult } from '@/types';
+import { parseChordPro } from '@/utils/chordpro';
+import { parseChordSheet } from '@/utils/chordSheet';
+import { analyzeSongKeys } from '@/utils/keyAnalysis';
+import { TransposeControl } from './TransposeControl';
+import { SongLyrics } from './SongLyrics';
+import { ChordProExport } from './ChordProExport';
+
+// Any {directive} line means ChordPro; anything else is read as a plain sheet
+const DIRECTIVE_PATTERN = /^\s*\{[^}]*\}\s*$/m;
+
+interface SongImportProps {
+  className?: string;
+}
+
+export function SongImport({ className }: SongImportProps) {
+  const [text, setText] = useState('');
+  const [song, setSong] = useState<ParsedSong | null>(null);
+  const [unclassified, setUnclassified] = useState<UnclassifiedLine[]>([]);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = (source: string) => {
+    const sheet = DIRECTIVE_PATTERN.test(source) ? null : parseChordSheet(source);
+    const parsed = sheet ? sheet.song : parseChordPro(source);
+    setUnclassified(sheet?.unclassified ?? []);
+    setValidation(sheet?.validation ?? null);
+    if (parsed.sections.length === 0) {
+      setSong(null);
+      setError('No lyrics or chords found in this file');
+      return;
+    }
+    setSong(sheet ? parsed : analyzeSongKeys(parsed));
+    setError(null);
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    const source = await file.text();
+    setText(source);
+    open(source);
+  };
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Source */}
+      <div className='space-y-3'>
+        <label className='flex items-center justify-center gap-2 h-12 rounded-xl border border-dashed border-surface-400 text-gray-300 hover:text-white hover:border-primary-500 cursor-pointer transition-colors'>
+          <FileUp size={20} />
+          <span>Choose a ChordPro or text file</span>
+          <input
+            type='file'
+            accept='.cho,.crd,.chopro,.chordpro,.pro,.txt'
+            onChange={(e) => openFile(e.target.files?.[0])}
+            className='sr-only'
+          />
+        </label>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'[Verse 1]\nG          C\nPaste chords over lyrics\n[D]or a ChordPro song here'}
+          rows={8}
+          className='w-full p-3 rounded-xl bg-surface-200 border border-surface-300 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:border-primary-500'
+          aria-label='Song text'
+        />
+        <button
+          onClick={() => open(text)}
+          disabled={!text.trim()}
+          className='h-10 px-4 rounded-lg font-medium bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 transition-colors'
+        >
+          Open song
+        </button>
+        {error && <p className='text-sm text-red-500'>{error}</p>}
+      </div>
+
+      {/* Import report */}
+      {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <ul className='space-y-1 text-sm'>
+          {validation.errors.map((issue, index) => (
+            <li key={`error-${index}`} className='text-red-500'>{issue.message}</li>
+          ))}
+          {validation.warnings.map((issue, index) => (
+            <li key={`warning-${index}`} className='text-yellow-500'>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+      {unclassified.length > 0 && (
+        <div className='p-4 rounded-xl bg-surface-200 border border-surface-300'>
+          <h2 className='flex items-center gap-2 mb-2 text-sm font-semibold text-white'>
+            <AlertTriangle size={16} className='text-yellow-500' />
+            {unclassified.length === 1 ? '1 line was left out' : `${unclassified.length} lines were left out`}
+          </h2>
+          <ul className='space-y-1 text-sm'>
+            {unclassified.map((line) => (
+              <li key={line.line} className='flex flex-wrap gap-x-3'>
+                <span className='text-gray-500'>Line {line.line}</span>
+                <span className='font-mono text-gray-200 whitespace-pre'>{line.text}</span>
+                <span className='text-gray-400'>{line.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Song */}
+      {song && (
+        <div className='rounded-xl border border-surface-300'>
+          <div className='flex items-start justify-between gap-2 px-4 py-4 border-b border-surface-300'>
+            <div>
+              <h2 className='text-2xl font-bold text-white mb-1'>{song.metadata.title || 'Untitled'}</h2>
+              {song.metadata.artist && <p className='text-gray-400'>{song.metadata.artist}</p>}
+              {song.metadata.capo ? (
+                <p className='text-gray-500 text-sm mt-1'>Capo {song.metadata.capo}</p>
+              ) : null}
+            </div>
+            <ChordProExport song={song} />
+          </div>
+          <TransposeControl
+            originalKey={song.originalKey}
+            chords={song.detectedChords}
+            songKeys={Array.from(new Set([song.originalKey, ...song.sections.map(section => section.key)]))
+              .filter((key): key is string => !!key)}
+          />
+          <SongLyrics
+            sections={song.sections}
+            songKey={song.originalKey ?? 'C'}
+            modulations={song.modulations}
+            className='px-4 py-6'
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SongImport;
@@ -0,0 +1,243 @@
+'use client';
+
+// ============================================
+// Song Lyrics Component
+// The song sheet with its controls: key and progression badges on
+// each section, chord notation modes, and repeats shown as written or
+// written out in playing order. Tapping a chord plays it, or while
+// reharmonizing offers substitutions for it
+// ============================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { RotateCcw, Undo2, Wand2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChordSubstitution, Modulation, NotationMode, SheetChord, SongSection } from '@/types';
+import {
+  transposeChord,
+  transposeKey,
+  shiftKey,
+  keyUsesFlats,
+  resolveUseFlats,
+} from '@/utils/transpose';
+import { simplifyChord } from '@/utils/simplify';
+import { findSectionProgressions, formatProgression } from '@/utils/progressions';
+import { applySubstitutions, countSubstitutionTargets, suggestSubstitutions } from '@/utils/substitutions';
+import { useSongView } from '@/hooks/useSongView';
+import { useChordPlayer } from '@/hooks/useChordPlayer';
+import { NotationToggle } from './NotationToggle';
+import { RepeatLayoutToggle } from './RepeatLayoutToggle';
+import { SongSheet } from './SongSheet';
+import { SubstitutionPanel } from './SubstitutionPanel';
+
+interface SongLyricsProps {
+  sections: SongSection[];
+  songKey: string;
+  modulations?: Modulation[];
+  songId?: string; // Chords play in the song's tuning
+  className?: string;
+}
+
+export function SongLyrics({
+  sections,
+  songKey,
+  modulations = [],
+  songId,
+  className,
+}: SongLyricsProps) {
+  const { playChord } = useChordPlayer(songId);
+  const [notation, setNotation] = useState<NotationMode>('chords');
+  const [reharmonizing, setReharmonizing] = useState(false);
+  // Chord tapped; `at` tells the copies of a repeated section apart
+  const [selected, setSelected] = useState<SheetChord | null>(null);
+  const { semitones, originalKey, targetKey, accidentals, simplification } =
+    useSongView(state => state.transposition);
+  const { substitutions, applySubstitution, undoSubstitution, resetSubstitutions, layout, setLayout } = useSongView();
+
+  // Substitutions only last while the song is open
+  useEffect(() => resetSubstitutions, [resetSubstitutions]);
+
+  const arranged = useMemo(
+    () => applySubstitutions(sections, substitutions),
+    [sections, substitutions]
+  );
+  const hasRepeats = arranged.some(section => (section.repeat ?? 1) > 1 || section.reference !== undefined);
+  // Numerals don't change with transposition, so the original chords are analysed
+  const progressions = useMemo(
+    () => findSectionProgressions(arranged, songKey),
+    [arranged, songKey]
+  );
+
+  // Suggestions are worked out on the chords as shown (transposed and
+  // simplified), and stored in the original key
+  const useFlats = resolveUseFlats(
+    semitones,
+    { originalKey: originalKey ?? songKey, targetKey, accidentals },
+    arranged.flatMap(section => section.chords ?? [])
+  );
+  const showChord = (chord: string) =>
+    simplifyChord(transposeChord(chord, semitones, useFlats), simplification);
+  const selectedChords = selected ? arranged[selected.section]?.chords ?? [] : [];
+  const selectedChord = selected ? selectedChords[selected.index] : undefined;
+  const nextChord = selected ? selectedChords[selected.index + 1] : undefined;
+  const suggestions = selected && selectedChord
+    ? suggestSubstitutions(showChord(selectedChord), {
+        key: shiftKey(arranged[selected.section].key ?? songKey, semitones),
+        next: nextChord && showChord(nextChord),
+      })
+    : [];
+
+  const trySubstitution = (suggestion: ChordSubstitution, all: boolean) => {
+    if (!selected || !selectedChord) return;
+    const sectionKey = arranged[selected.section].key ?? songKey;
+    const backToOriginal = transposeKey(shiftKey(sectionKey, semitones), sectionKey);
+    applySubstitution({
+      chord: selectedChord,
+      chords: suggestion.chords.map(chord =>
+        transposeChord(chord, backToOriginal, keyUsesFlats(sectionKey))
+      ),
+      next: suggestion.needsNext ? nextChord : undefined,
+      occurrence: all ? undefined : { section: selected.section, index: selected.index },
+    });
+    setSelected(null);
+  };
+
+  return (
+    <div className={className}>
+      {/* Notation Toggle */}
+      <div className='flex items-center justify-between gap-2 mb-4'>
+        <span className='text-sm text-gray-400'>Notation</span>
+        <NotationToggle value={notation} onChange={setNotation} />
+      </div>
+
+      {/* Repeats */}
+      {hasRepeats && (
+        <div className='flex items-center justify-between gap-2 mb-4'>
+          <span className='text-sm text-gray-400'>Repeats</span>
+          <RepeatLayoutToggle
+            value={layout}
+            onChange={(value) => {
+              setLayout(value);
+              setSelected(null);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Reharmonize */}
+      <div className='flex flex-wrap items-center gap-2 mb-4'>
+        <button
+          onClick={() => {
+            setReharmonizing(!reharmonizing);
+            setSelected(null);
+          }}
+          className={cn(
+            'flex items-center gap-2 h-8 px-3 rounded-lg text-sm font-medium',
+            reharmonizing
+              ? 'bg-primary-500 text-white'
+              : 'bg-surface-300 text-gray-300 hover:text-white',
+            'transition-all duration-200'
+          )}
+          aria-pressed={reharmonizing}
+        >
+          <Wand2 size={16} />
+          Reharmonize
+        </button>
+        {reharmonizing && substitutions.length === 0 && (
+          <span className='text-sm text-gray-400'>Tap a chord for substitutions</span>
+        )}
+        {substitutions.length > 0 && (
+          <>
+            <button
+              onClick={() => {
+                undoSubstitution();
+                setSelected(null);
+              }}
+              className='flex items-center gap-1 h-8 px-3 rounded-lg text-sm bg-surface-300 text-gray-300 hover:text-white transition-colors'
+            >
+              <Undo2 size={16} />
+              Undo
+            </button>
+            <button
+              onClick={() => {
+                resetSubstitutions();
+                setSelected(null);
+              }}
+              className='flex items-center gap-1 h-8 px-3 rounded-lg text-sm bg-surface-300 text-gray-300 hover:text-white transition-colors'
+            >
+              <RotateCcw size={16} />
+              Original chords
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Sections */}
+      <SongSheet
+        sections={arranged}
+        songKey={songKey}
+        notation={notation}
+        layout={layout}
+        renderChord={(chord, label, placed) => {
+          const isSelected = selected?.at === placed.at && selected.index === placed.index;
+          return (
+            <button
+              onClick={() => reharmonizing ? setSelected(placed) : playChord(chord)}
+              className={cn(
+                'hover:text-primary-300 transition-colors duration-200',
+                reharmonizing && 'underline decoration-dotted underline-offset-4',
+                isSelected && 'rounded bg-primary-500/30'
+              )}
+              aria-label={reharmonizing ? `Substitutions for ${chord}` : `Play ${chord}`}
+            >
+              {label}
+            </button>
+          );
+        }}
+        renderBadges={({ index, from, pass }, sectionKey) => {
+          const modulation = pass === 1 ? modulations.find(m => m.sectionIndex === from) : undefined;
+          return (
+            <>
+              <span
+                className={cn(
+                  'px-2 py-0.5 rounded-full text-xs font-mono font-semibold',
+                  modulation
+                    ? 'bg-chord-advanced/20 text-chord-advanced'
+                    : 'bg-surface-300 text-gray-300'
+                )}
+                title={modulation ? `Modulates from ${modulation.fromKey} (${modulation.type})` : undefined}
+              >
+                Key {sectionKey}
+              </span>
+              {progressions[index].map((match) => (
+                <Link
+                  key={match.progression.id}
+                  href={`/progressions?key=${encodeURIComponent(shiftKey(match.key, semitones))}&progression=${match.progression.id}`}
+                  className='px-2 py-0.5 rounded-full text-xs font-semibold bg-primary-500/20 text-primary-300 hover:bg-primary-500/30 transition-colors'
+                  title={formatProgression(match.progression)}
+                >
+                  {match.progression.name}
+                </Link>
+              ))}
+            </>
+          );
+        }}
+        renderPanel={(_, at) => selected?.at === at && selectedChord && (
+          <SubstitutionPanel
+            chord={showChord(selectedChord)}
+            suggestions={suggestions}
+            countAll={(suggestion) => countSubstitutionTargets(
+              arranged,
+              selectedChord,
+              suggestion.needsNext ? nextChord : undefined
+            )}
+            onApply={trySubstitution}
+            onClose={() => setSelected(null)}
+          />
+        )}
+      />
+    </div>
+  );
+}
+
+export default SongLyrics;
@@ -0,0 +1,116 @@
+'use client';
+
+// ============================================
+// Song Sheet Component
+// Song sections under their headings, chords over their syllables,
+// redrawn as soon as the song view's transposition or simplification
+// or the notation mode changes; choruses stand out from the verses
+// ============================================
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { NotationMode, PlayedSection, SheetChord, SongLayout, SongSection } from '@/types';
+import { formatChordNotation } from '@/utils/harmony';
+import { getPlayingOrder } from '@/utils/songStructure';
+import { shiftKey, transposeSection } from '@/utils/transpose';
+import { useSongView } from '@/hooks/useSongView';
+import { ChordLyricLine } from './ChordLyricLine';
+
+interface SongSheetProps {
+  sections: SongSection[];
+  songKey: string; // Key of sections without one of their own
+  notation?: NotationMode;
+  layout?: SongLayout;
+  // A chord as drawn; label is the chord in the notation shown
+  renderChord?: (chord: string, label: string, placed: SheetChord) => React.ReactNode;
+  renderBadges?: (played: PlayedSection, sectionKey: string) => React.ReactNode; // Next to the heading
+  renderPanel?: (played: PlayedSection, at: string) => React.ReactNode; // Between the heading and the lines
+  className?: string;
+}
+
+export function SongSheet({
+  sections,
+  songKey,
+  notation = 'chords',
+  layout = 'compact',
+  renderChord,
+  renderBadges,
+  renderPanel,
+  className,
+}: SongSheetProps) {
+  const { semitones, originalKey, targetKey, accidentals, simplification } =
+    useSongView(state => state.transposition);
+
+  const shown = useMemo(
+    () => sections.map(section => transposeSection(section, semitones, {
+      originalKey: originalKey ?? songKey,
+      targetKey,
+      accidentals,
+      simplify: simplification,
+    })),
+    [sections, songKey, semitones, originalKey, targetKey, accidentals, simplification]
+  );
+  const order: PlayedSection[] = layout === 'expanded'
+    ? getPlayingOrder(sections)
+    : sections.map((_, index) => ({ index, from: index, pass: 1 }));
+
+  return (
+    <div className={className}>
+      {order.map((played) => {
+        const { index, from, pass } = played;
+        // Written as `section`; its lines are those of the section it repeats
+        const section = sections[from];
+        const target = section.reference !== undefined ? sections[section.reference] : undefined;
+        const collapsed = layout === 'compact' && target !== undefined;
+        const isChorus = section.type === 'chorus';
+        const repeat = section.repeat ?? 1;
+        const at = `${from}-${pass}`;
+        // Numerals are relative to the section's own (transposed) key
+        const sectionKey = shiftKey(sections[index].key ?? songKey, semitones);
+        // Chords are numbered through the section's lines in order
+        let chordIndex = 0;
+
+        const showChord = (chord: string) => {
+          const label = formatChordNotation(chord, sectionKey, notation);
+          return renderChord ? renderChord(chord, label, { section: index, index: chordIndex++, at }) : label;
+        };
+
+        return (
+          <section
+            key={at}
+            className={cn('lyrics-section', isChorus && 'pl-4 border-l-2 border-primary-500/60')}
+          >
+            <div className='flex flex-wrap items-center gap-2 mb-2'>
+              <h2 className={cn('lyrics-section-header mb-0', isChorus && 'text-primary-400')}>
+                {section.label ?? target?.label ?? section.type}
+              </h2>
+              {repeat > 1 && (
+                <span className='px-2 py-0.5 rounded-full text-xs font-mono font-semibold bg-surface-300 text-gray-300'>
+                  {layout === 'expanded' ? `${pass}/${repeat}` : `×${repeat}`}
+                </span>
+              )}
+              {section.performers && (
+                <span className='text-sm text-gray-400'>{section.performers.join(' & ')}</span>
+              )}
+              {renderBadges?.(played, sectionKey)}
+            </div>
+            {renderPanel?.(played, at)}
+            {collapsed ? (
+              <p className='text-gray-400 italic'>
+                Repeat {target.label ?? target.type}
+              </p>
+            ) : (
+              <div className='font-mono text-base leading-loose text-white whitespace-pre-wrap'>
+                {shown[index].lines.map((line, lineIndex) => (
+                  <ChordLyricLine key={lineIndex} line={line} renderChord={showChord} />
+                ))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SongSheet;
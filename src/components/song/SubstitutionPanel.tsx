@@ -0,0 +1,96 @@
+'use client';
+
+// ============================================
+// Substitution Panel Component
+// Reharmonization ideas for a tapped chord, tried on that chord
+// or on every one like it
+// ============================================
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChordSubstitution, SubstitutionType } from '@/types';
+
+const typeLabels: Record<SubstitutionType, string> = {
+  tritone: 'Tritone sub',
+  relative: 'Relative',
+  'secondary-dominant': 'Secondary dominant',
+  'passing-diminished': 'Passing diminished',
+  'sus-resolution': 'Sus resolution',
+};
+
+interface SubstitutionPanelProps {
+  chord: string; // As shown on the sheet
+  suggestions: ChordSubstitution[];
+  countAll: (suggestion: ChordSubstitution) => number; // Chords "all" would replace
+  onApply: (suggestion: ChordSubstitution, all: boolean) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function SubstitutionPanel({
+  chord,
+  suggestions,
+  countAll,
+  onApply,
+  onClose,
+  className,
+}: SubstitutionPanelProps) {
+  return (
+    <div
+      className={cn('p-3 mb-3 rounded-xl bg-surface-200 border border-surface-300', className)}
+      role='dialog'
+      aria-label={`Substitutions for ${chord}`}
+    >
+      <div className='flex items-center justify-between gap-2 mb-2'>
+        <h3 className='text-sm font-semibold text-white'>
+          Instead of <span className='font-mono text-primary-400'>{chord}</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className='p-1 rounded-md text-gray-400 hover:text-white transition-colors'
+          aria-label='Close substitutions'
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className='text-sm text-gray-400'>No substitutions for this chord</p>
+      ) : (
+        <ul className='space-y-2'>
+          {suggestions.map((suggestion) => {
+            const count = countAll(suggestion);
+            return (
+              <li key={suggestion.type} className='flex flex-wrap items-center gap-x-3 gap-y-1'>
+                <span className='font-mono font-semibold text-white'>
+                  {suggestion.chords.join(' ')}
+                </span>
+                <span className='text-xs text-gray-400'>{typeLabels[suggestion.type]}</span>
+                <div className='flex gap-1 ml-auto'>
+                  <button
+                    onClick={() => onApply(suggestion, false)}
+                    className='px-2 py-1 rounded-md text-xs font-medium bg-primary-500 text-white hover:bg-primary-600 transition-colors'
+                  >
+                    Try here
+                  </button>
+                  {count > 1 && (
+                    <button
+                      onClick={() => onApply(suggestion, true)}
+                      className='px-2 py-1 rounded-md text-xs font-medium bg-surface-300 text-gray-300 hover:text-white transition-colors'
+                    >
+                      All {count}
+                    </button>
+                  )}
+                </div>
+                <p className='w-full text-xs text-gray-400'>{suggestion.explanation}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SubstitutionPanel;
@@ -0,0 +1,70 @@
+'use client';
+
+// ============================================
+// Tab Staff Component
+// An ASCII tab block drawn as a staff that scrolls sideways,
+// with notes transposed off the neck flagged
+// ============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { TabBlock, TabNote } from '@/types';
+import { getUnplayableNotes, layoutTabString } from '@/utils/tablature';
+
+interface TabStaffProps {
+  block: TabBlock;
+  className?: string;
+}
+
+/**
+ * Why a flagged note can't be played as written
+ */
+function describeUnplayable(note: TabNote): string {
+  return (note.fret ?? 0) < 0 ? 'Below the open string in this key' : 'Past the last fret in this key';
+}
+
+export function TabStaff({ block, className }: TabStaffProps) {
+  const nameWidth = Math.max(0, ...block.strings.map(name => name.length));
+  const separator = nameWidth > 0 && !block.bars.includes(0) ? ' ' : '';
+  const unplayable = getUnplayableNotes(block).length;
+
+  return (
+    <div className={cn('my-2', className)}>
+      <div className='overflow-x-auto rounded-lg bg-surface-200 py-2' role='figure' aria-label='Tablature'>
+        <div className='inline-block min-w-full px-3 font-mono text-sm leading-snug whitespace-pre'>
+          {block.strings.map((name, string) => (
+            <div key={string}>
+              {nameWidth > 0 && (
+                <span className='sticky left-0 bg-surface-200 text-gray-400'>
+                  {name.padEnd(nameWidth) + separator}
+                </span>
+              )}
+              <span className='text-gray-600'>
+                {layoutTabString(block, string).map((run, runIndex) =>
+                  run.note ? (
+                    <span
+                      key={runIndex}
+                      className={cn('font-semibold', run.note.unplayable ? 'text-red-400' : 'text-white')}
+                      title={run.note.unplayable ? describeUnplayable(run.note) : undefined}
+                    >
+                      {run.text}
+                    </span>
+                  ) : (
+                    <React.Fragment key={runIndex}>{run.text}</React.Fragment>
+                  )
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+      {unplayable > 0 && (
+        <p className='mt-1 text-xs text-red-400'>
+          {unplayable === 1 ? '1 note is' : `${unplayable} notes are`} off the neck in this key
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default TabStaff;
@@ -7,20 +7,42 @@
 
 import React from 'react';
 import { useTranspose } from '@/hooks/useTranspose';
+import { useTuning } from '@/hooks/useTuning';
 import { cn } from '@/lib/utils';
+import { AccidentalPreference } from '@/types';
+import { KeyDetectionResult } from '@/utils/transpose';
+import { describeShapes, getShapeKey, isStandardTuning } from '@/utils/tuning';
 import { ChevronUp, ChevronDown, RotateCcw, Music } from 'lucide-react';
+import { SimplifyToggle } from './SimplifyToggle';
+
+const accidentalOptions: Array<{ value: AccidentalPreference; label: string; description: string }> = [
+  { value: 'auto', label: 'Auto', description: 'Spell notes for the target key' },
+  { value: 'sharps', label: '♯', description: 'Always use sharps' },
+  { value: 'flats', label: '♭', description: 'Always use flats' },
+];
 
 interface TransposeControlProps {
   originalKey?: string;
+  chords?: string[]; // Detects the original key when originalKey is not set
+  songKeys?: string[]; // Every key the song visits, for Easy Mode
+  songId?: string; // Reads the song's saved tuning
+  onKeyDetected?: (key: string, detection: KeyDetectionResult) => void;
   className?: string;
   showEasyMode?: boolean;
+  showSimplify?: boolean;
 }
 
 export function TransposeControl({
   originalKey,
+  chords,
+  songKeys,
+  songId,
+  onKeyDetected,
   className,
   showEasyMode = true,
+  showSimplify = true,
 }: TransposeControlProps) {
+  const { tuning } = useTuning(songId);
   const {
     semitones,
     targetKey,
@@ -28,10 +50,22 @@ export function TransposeControl({
     incrementSemitones,
     decrementSemitones,
     setTargetKey,
+    accidentals,
+    setAccidentals,
+    simplification,
+    setSimplification,
     reset,
     easyModeKeys,
     allKeys,
-  } = useTranspose({ originalKey });
+    originalKey: songKey,
+    keyDetection,
+  } = useTranspose({ originalKey, chords, songKeys, tuning, onKeyDetected });
+
+  // Shapes to play for the current key outside standard tuning
+  const soundingKey = targetKey || songKey;
+  const tuningNote = soundingKey && !isStandardTuning(tuning)
+    ? describeShapes(getShapeKey(soundingKey, 0, tuning), 0, tuning)
+    : undefined;
 
   // Format semitones display
   const semitoneDisplay = semitones > 0 
@@ -53,6 +87,16 @@ export function TransposeControl({
         Transpose
       </span>
 
+      {/* Detected Key */}
+      {keyDetection && (
+        <span
+          className='px-2 py-1 rounded-full text-xs font-medium bg-surface-300 text-gray-300'
+          title={`Other candidates: ${keyDetection.possibleKeys.slice(1).join(', ')}`}
+        >
+          Key {keyDetection.detectedKey} · {Math.round(keyDetection.confidenceScore * 100)}%
+        </span>
+      )}
+
       {/* Decrease Button */}
       <button
         onClick={decrementSemitones}
@@ -107,7 +151,9 @@ export function TransposeControl({
           )}
           aria-label='Select target key'
         >
-          <option value=''>Original</option>
+          <option value=''>
+            {songKey ? `Original (${songKey})` : 'Original'}
+          </option>
           {allKeys.map((key) => (
             <option key={key} value={key}>
               {key}
@@ -121,6 +167,32 @@ export function TransposeControl({
         />
       </div>
 
+      {/* Accidental Spelling */}
+      <div
+        className='flex items-center rounded-lg bg-surface-300 p-1'
+        role='radiogroup'
+        aria-label='Accidental spelling'
+      >
+        {accidentalOptions.map(({ value, label, description }) => (
+          <button
+            key={value}
+            onClick={() => setAccidentals(value)}
+            className={cn(
+              'h-8 min-w-[2.5rem] px-2 rounded-md text-sm font-medium',
+              accidentals === value
+                ? 'bg-primary-500 text-white'
+                : 'text-gray-300 hover:text-white',
+              'transition-all duration-200'
+            )}
+            role='radio'
+            aria-checked={accidentals === value}
+            aria-label={description}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* Reset Button */}
       <button
         onClick={reset}
@@ -137,6 +209,23 @@ export function TransposeControl({
         <RotateCcw size={18} />
       </button>
 
+      {/* Chord Simplification */}
+      {showSimplify && (
+        <div className='w-full flex flex-wrap items-center gap-2'>
+          <span className='text-sm font-medium text-gray-400 mr-2'>
+            Simplify
+          </span>
+          <SimplifyToggle value={simplification} onChange={setSimplification} />
+        </div>
+      )}
+
+      {/* Tuning Note */}
+      {tuningNote && (
+        <p className='w-full text-xs text-gray-400'>
+          {tuning.name}: {tuningNote}
+        </p>
+      )}
+
       {/* Easy Mode Suggestions */}
       {showEasyMode && easyModeKeys.length > 0 && (
         <div className='w-full mt-2 pt-2 border-t border-surface-300'>
@@ -144,7 +233,7 @@ export function TransposeControl({
             Easy Mode Keys
           </span>
           <div className='flex flex-wrap gap-2'>
-            {easyModeKeys.map(({ key, difficulty, reason }) => (
+            {easyModeKeys.map(({ key, semitones: distance, reason }) => (
               <button
                 key={key}
                 onClick={() => setTargetKey(key)}
@@ -157,7 +246,7 @@ export function TransposeControl({
                 aria-label={`Transpose to ${key}: ${reason}`}
               >
                 <span className='font-semibold'>{key}</span>
-                <span className='text-xs opacity-75'>{difficulty} semitones</span>
+                <span className='text-xs opacity-75'>{distance ?? 0} semitones</span>
               </button>
             ))}
           </div>
@@ -0,0 +1,137 @@
+'use client';
+
+// ============================================
+// Tuning Selector Component
+// Pick a preset or custom tuning for a song or as the user's default
+// ============================================
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useTuning } from '@/hooks/useTuning';
+import { TUNING_PRESETS, createCustomTuning, describeTuning } from '@/utils/tuning';
+
+const CUSTOM_VALUE = 'custom';
+
+interface TuningSelectorProps {
+  songId?: string; // Saves a per-song tuning; without it the user's default changes
+  className?: string;
+}
+
+export function TuningSelector({
+  songId,
+  className,
+}: TuningSelectorProps) {
+  const { tuning, isSongTuning, setTuning, resetTuning } = useTuning(songId);
+  const isCustom = !TUNING_PRESETS.some(preset => preset.id === tuning.id);
+  const [editing, setEditing] = useState(false);
+  const [customInput, setCustomInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM_VALUE) {
+      setCustomInput(tuning.strings.map(s => s.replace(/-?\d+$/, '')).join(' '));
+      setEditing(true);
+      return;
+    }
+    const preset = TUNING_PRESETS.find(p => p.id === value);
+    if (preset) {
+      setTuning(preset);
+      setEditing(false);
+    }
+  };
+
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setTuning(createCustomTuning(customInput));
+      setEditing(false);
+      setError(null);
+    } catch {
+      setError('Enter one note per string, lowest first (D A D G B E)');
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex flex-wrap items-center gap-2 p-3 rounded-xl',
+        'bg-surface-200 border border-surface-300',
+        className
+      )}
+      role='group'
+      aria-label='Tuning'
+    >
+      <span className='text-sm font-medium text-gray-400 mr-2'>Tuning</span>
+
+      <select
+        value={editing || isCustom ? CUSTOM_VALUE : tuning.id}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={cn(
+          'h-10 px-3 rounded-lg',
+          'bg-surface-300 text-white',
+          'border border-transparent',
+          'focus:border-primary-500 focus:outline-none',
+          'cursor-pointer',
+          'text-sm font-medium'
+        )}
+        aria-label='Select tuning'
+      >
+        {TUNING_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+        <option value={CUSTOM_VALUE}>
+          {isCustom ? `Custom (${tuning.name})` : 'Custom…'}
+        </option>
+      </select>
+
+      <span className='text-xs text-gray-500 font-mono'>
+        {tuning.strings.map(s => s.replace(/-?\d+$/, '')).join(' ')}
+      </span>
+
+      {songId && isSongTuning && (
+        <button
+          onClick={resetTuning}
+          className='text-xs text-gray-400 hover:text-white transition-colors'
+        >
+          Use my default
+        </button>
+      )}
+
+      {/* Custom Tuning */}
+      {editing && (
+        <form onSubmit={handleCustomSubmit} className='w-full flex items-center gap-2'>
+          <input
+            value={customInput}
+            onChange={(e) => setCustomInput(e.target.value)}
+            placeholder='D A D G B E'
+            className={cn(
+              'h-10 flex-1 px-3 rounded-lg',
+              'bg-surface-300 text-white font-mono text-sm',
+              'border border-transparent',
+              'focus:border-primary-500 focus:outline-none'
+            )}
+            aria-label='Custom tuning, lowest string first'
+          />
+          <button
+            type='submit'
+            className='h-10 px-4 rounded-lg bg-primary-500 text-white text-sm font-medium hover:bg-primary-600 transition-colors'
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {error && editing && (
+        <p className='w-full text-xs text-red-500'>{error}</p>
+      )}
+
+      {!editing && (
+        <p className='w-full text-xs text-gray-500'>{describeTuning(tuning)}</p>
+      )}
+    </div>
+  );
+}
+
+export default TuningSelector;
@@ -9,8 +9,10 @@ import React from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { cn } from '@/lib/utils';
+import { getChordDifficulty } from '@/utils/difficulty';
+import { useChordPlayer } from '@/hooks/useChordPlayer';
 import { Heart, Music } from 'lucide-react';
-import { SearchResult } from '@/types';
+import { ChordDiagram, SearchResult } from '@/types';
 
 interface SongCardProps {
   song: SearchResult;
@@ -102,21 +104,30 @@ export function SongCard({
 
 interface ChordCardProps {
   chord: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
-  onClick?: () => void;
+  difficulty?: ChordDiagram['difficulty']; // Scored from the chord's easiest voicing when omitted
+  onClick?: () => void; // Called after the chord is played
   className?: string;
 }
 
 export function ChordCard({
   chord,
-  difficulty = 'beginner',
+  difficulty: difficultyProp,
   onClick,
   className,
 }: ChordCardProps) {
+  const difficulty = difficultyProp ?? getChordDifficulty(chord).level;
+  const { playChord } = useChordPlayer();
   const difficultyColors = {
     beginner: 'bg-chord-beginner/20 text-chord-beginner border-chord-beginner/30',
     intermediate: 'bg-chord-default/20 text-chord-default border-chord-default/30',
     advanced: 'bg-chord-advanced/20 text-chord-advanced border-chord-advanced/30',
+    expert: 'bg-chord-advanced/30 text-chord-advanced border-chord-advanced/50',
+  };
+
+  // Tapping a chord plays it
+  const handleClick = () => {
+    playChord(chord);
+    onClick?.();
   };
 
   const Content = (
@@ -126,19 +137,19 @@ export function ChordCard({
         'bg-surface-200 border-2 border-surface-300',
         'hover:border-primary-500/50 hover:bg-surface-100',
         'transition-all duration-200',
-        onClick && 'cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary-500',
+        'cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary-500',
         className
       )}
-      onClick={onClick}
+      onClick={handleClick}
       onKeyDown={(e) => {
-        if (onClick && (e.key === 'Enter' || e.key === ' ')) {
+        if (e.key === 'Enter' || e.key === ' ') {
           e.preventDefault();
-          onClick();
+          handleClick();
         }
       }}
-      tabIndex={onClick ? 0 : undefined}
-      role={onClick ? 'button' : undefined}
-      aria-label={`Chord: ${chord}`}
+      tabIndex={0}
+      role='button'
+      aria-label={`Play chord ${chord}`}
     >
       <span className='text-4xl font-bold font-mono text-white'>
         {chord}
@@ -4,4 +4,12 @@
 
 export { useTranspose } from './useTranspose';
 export { useAutoScroll } from './useAutoScroll';
+export { useMetronome } from './useMetronome';
 
+export { usePreferences, useHydratePreferences } from './usePreferences';
+export { useTuning } from './useTuning';
+export { useSongTempo } from './useSongTempo';
+export { useInstrument } from './useInstrument';
+export { useDiagramPreferences } from './useDiagramPreferences';
+export { useChordPlayer } from './useChordPlayer';
+export { useSongView } from './useSongView';
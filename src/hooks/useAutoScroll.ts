@@ -15,6 +15,7 @@ interface UseAutoScrollOptions {
 }
 
 interface UseAutoScrollReturn extends AutoScrollState {
+  progress: number; // How far down the song is scrolled (0 - 1)
   start: () => void;
   pause: () => void;
   toggle: () => void;
@@ -34,6 +35,7 @@ export function useAutoScroll(
     speed: initialSpeed,
     currentPosition: 0,
   });
+  const [progress, setProgress] = useState(0);
   
   const animationFrameRef = useRef<number | null>(null);
   const containerRef = useRef<HTMLElement | null>(null);
@@ -196,6 +198,27 @@ export function useAutoScroll(
     return () => window.removeEventListener('scroll', handleScroll);
   }, [state.isPlaying, pause, getScrollContainer]);
   
+  // Follow the scroll position, whether scrolled by hand or automatically
+  useEffect(() => {
+    const container = getScrollContainer();
+    if (!container) return;
+
+    const updateProgress = () => {
+      const maxScroll = container.scrollHeight - container.clientHeight;
+      setProgress(maxScroll > 0 ? Math.min(1, container.scrollTop / maxScroll) : 0);
+    };
+    updateProgress();
+
+    // The document scrolls the window, so its scroll events go to the window
+    const target = container === document.documentElement ? window : container;
+    target.addEventListener('scroll', updateProgress, { passive: true });
+    window.addEventListener('resize', updateProgress);
+    return () => {
+      target.removeEventListener('scroll', updateProgress);
+      window.removeEventListener('resize', updateProgress);
+    };
+  }, [getScrollContainer]);
+  
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -207,6 +230,7 @@ export function useAutoScroll(
   
   return {
     ...state,
+    progress,
     start,
     pause,
     toggle,
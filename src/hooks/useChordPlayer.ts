@@ -0,0 +1,90 @@
+'use client';
+
+// ============================================
+// Chord Player Hook
+// Plays chords as voiced on the user's instrument and tuning
+// ============================================
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { StrumStyle } from '@/types';
+import { useInstrument } from '@/hooks/useInstrument';
+import { isNoChord } from '@/utils/chord';
+import { getInstrumentChordNotes } from '@/utils/instruments';
+import { PlaybackOptions, getAudioContext, scheduleChord } from '@/utils/audio';
+
+const CHORD_INTERVAL = 1.2; // Seconds between chords of a progression
+
+interface UseChordPlayerReturn {
+  playNotes: (notes: number[], options?: PlaybackOptions) => void; // MIDI, lowest string first
+  playChord: (chord: string, options?: PlaybackOptions) => void;
+  playProgression: (chords: string[], options?: PlaybackOptions & { interval?: number }) => void;
+  stop: () => void;
+  currentChord: number | null; // Index of the progression chord being heard
+}
+
+export function useChordPlayer(songId?: string): UseChordPlayerReturn {
+  const { instrument, tuning } = useInstrument(songId);
+  // Strings are strummed, keys are struck together
+  const style: StrumStyle = instrument.layout === 'keyboard' ? 'block' : 'down';
+  const [currentChord, setCurrentChord] = useState<number | null>(null);
+
+  // A progression plays through its own gain node so it can be cut off
+  const busRef = useRef<GainNode | null>(null);
+  const timersRef = useRef<number[]>([]);
+
+  const playNotes = useCallback((notes: number[], options?: PlaybackOptions) => {
+    const context = getAudioContext();
+    if (context && notes.length > 0) {
+      scheduleChord(context, notes, { style, ...options });
+    }
+  }, [style]);
+
+  // Plays the same voicing the chord's chart shows
+  const playChord = useCallback((chord: string, options?: PlaybackOptions) => {
+    if (isNoChord(chord)) return;
+    playNotes(getInstrumentChordNotes(chord, instrument, tuning), options);
+  }, [instrument, tuning, playNotes]);
+
+  const stop = useCallback(() => {
+    timersRef.current.forEach(window.clearTimeout);
+    timersRef.current = [];
+    busRef.current?.disconnect();
+    busRef.current = null;
+    setCurrentChord(null);
+  }, []);
+
+  // Plays chords one after another, each ringing until the next
+  const playProgression = useCallback((
+    chords: string[],
+    options: PlaybackOptions & { interval?: number } = {}
+  ) => {
+    stop();
+    const context = getAudioContext();
+    if (!context || chords.length === 0) return;
+
+    const { interval = CHORD_INTERVAL, ...playback } = options;
+    const bus = context.createGain();
+    bus.connect(context.destination);
+    busRef.current = bus;
+
+    const start = context.currentTime + 0.05;
+    chords.forEach((chord, index) => {
+      const when = start + index * interval;
+      if (!isNoChord(chord)) {
+        const notes = getInstrumentChordNotes(chord, instrument, tuning);
+        scheduleChord(context, notes, { style, duration: interval + 0.5, ...playback }, when, bus);
+      }
+      timersRef.current.push(window.setTimeout(() => setCurrentChord(index), (when - context.currentTime) * 1000));
+    });
+    timersRef.current.push(window.setTimeout(() => {
+      timersRef.current = [];
+      setCurrentChord(null);
+    }, (start + chords.length * interval - context.currentTime) * 1000));
+    setCurrentChord(0);
+  }, [instrument, tuning, style, stop]);
+
+  // Cleanup on unmount
+  useEffect(() => stop, [stop]);
+
+  return { playNotes, playChord, playProgression, stop, currentChord };
+}
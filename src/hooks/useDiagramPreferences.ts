@@ -0,0 +1,22 @@
+'use client';
+
+// ============================================
+// Diagram Preferences Hook
+// Handedness, orientation and string numbers for every diagram
+// ============================================
+
+import { DiagramPreferences } from '@/types';
+import { usePreferences, useHydratePreferences } from '@/hooks/usePreferences';
+
+interface UseDiagramPreferencesReturn extends DiagramPreferences {
+  setDiagrams: (diagrams: Partial<DiagramPreferences>) => void;
+}
+
+export function useDiagramPreferences(): UseDiagramPreferencesReturn {
+  const diagrams = usePreferences((state) => state.diagrams);
+  const setDiagrams = usePreferences((state) => state.setDiagrams);
+
+  useHydratePreferences();
+
+  return { ...diagrams, setDiagrams };
+}
@@ -0,0 +1,32 @@
+'use client';
+
+// ============================================
+// Instrument Hook
+// The user's instrument, with the tuning its chords are voiced in
+// ============================================
+
+import { Instrument, InstrumentId, Tuning } from '@/types';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTuning } from '@/hooks/useTuning';
+import { getInstrument, getInstrumentTuning } from '@/utils/instruments';
+
+interface UseInstrumentReturn {
+  instrument: Instrument;
+  tuning?: Tuning; // Undefined for piano
+  setInstrument: (instrument: InstrumentId) => void;
+}
+
+export function useInstrument(songId?: string): UseInstrumentReturn {
+  const instrumentId = usePreferences((state) => state.instrument);
+  const setInstrument = usePreferences((state) => state.setInstrument);
+  // Also loads the saved preferences after the first render
+  const { tuning: guitarTuning } = useTuning(songId);
+  
+  const instrument = getInstrument(instrumentId);
+  
+  return {
+    instrument,
+    tuning: getInstrumentTuning(instrument, guitarTuning),
+    setInstrument,
+  };
+}
@@ -0,0 +1,170 @@
+'use client';
+
+// ============================================
+// Metronome Hook
+// Web Audio clicks scheduled slightly ahead of time, with count-in
+// ============================================
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { MetronomeSettings } from '@/types';
+import { getAudioContext } from '@/utils/audio';
+import { getClick, getSecondsPerBeat, scheduleClick } from '@/utils/metronome';
+
+// Clicks are queued on the audio clock this far ahead, checked this often.
+// A timer rather than requestAnimationFrame so the pulse keeps going when
+// the tab is in the background.
+const LOOKAHEAD = 0.1; // Seconds
+const SCHEDULE_INTERVAL = 25; // Milliseconds
+
+interface UseMetronomeReturn {
+  isPlaying: boolean;
+  isCountingIn: boolean;
+  beat: number | null; // Beat of the bar being heard, 0-based
+  start: () => void;
+  stop: () => void;
+  toggle: () => void;
+  countIn: (bars: number, onComplete: () => void) => void;
+}
+
+interface CountIn {
+  steps: number; // Clicks left before the song starts
+  keepPlaying: boolean; // The metronome was on before the count-in
+  onComplete: () => void;
+}
+
+export function useMetronome(settings: MetronomeSettings): UseMetronomeReturn {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [beat, setBeat] = useState<number | null>(null);
+
+  // The scheduler reads the latest settings without restarting
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const timerRef = useRef<number | null>(null);
+  const stepRef = useRef(0);
+  const nextTimeRef = useRef(0);
+  const countInRef = useRef<CountIn | null>(null);
+  const uiTimersRef = useRef<number[]>([]);
+
+  // Run something when the audio clock reaches a time
+  const atTime = useCallback((context: AudioContext, time: number, callback: () => void) => {
+    const delay = Math.max(0, (time - context.currentTime) * 1000);
+    const id = window.setTimeout(() => {
+      uiTimersRef.current = uiTimersRef.current.filter(timer => timer !== id);
+      callback();
+    }, delay);
+    uiTimersRef.current.push(id);
+  }, []);
+
+  const halt = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    uiTimersRef.current.forEach(window.clearTimeout);
+    uiTimersRef.current = [];
+    countInRef.current = null;
+    setIsPlaying(false);
+    setIsCountingIn(false);
+    setBeat(null);
+  }, []);
+
+  const schedule = useCallback(() => {
+    const context = getAudioContext();
+    if (!context) return;
+
+    while (nextTimeRef.current < context.currentTime + LOOKAHEAD) {
+      const current = settingsRef.current;
+      const click = getClick(stepRef.current, current);
+      const time = nextTimeRef.current;
+      scheduleClick(context, click, time);
+      if (click.subdivision === 0) {
+        atTime(context, time, () => setBeat(click.beat));
+      }
+
+      stepRef.current += 1;
+      nextTimeRef.current += getSecondsPerBeat(current.bpm) / Math.max(1, Math.round(current.subdivision));
+
+      // The song starts on the downbeat after the count-in
+      const countIn = countInRef.current;
+      if (countIn && stepRef.current >= countIn.steps) {
+        countInRef.current = null;
+        atTime(context, nextTimeRef.current, () => {
+          if (!countIn.keepPlaying) halt();
+          setIsCountingIn(false);
+          countIn.onComplete();
+        });
+        if (!countIn.keepPlaying) {
+          timerRef.current = null;
+          return;
+        }
+      }
+    }
+
+    timerRef.current = window.setTimeout(schedule, SCHEDULE_INTERVAL);
+  }, [atTime, halt]);
+
+  const run = useCallback(() => {
+    const context = getAudioContext();
+    if (!context) return false;
+
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+    }
+    stepRef.current = 0;
+    nextTimeRef.current = context.currentTime + 0.05;
+    setIsPlaying(true);
+    schedule();
+    return true;
+  }, [schedule]);
+
+  const start = useCallback(() => {
+    if (timerRef.current === null) run();
+  }, [run]);
+
+  const stop = useCallback(() => {
+    halt();
+  }, [halt]);
+
+  const toggle = useCallback(() => {
+    if (timerRef.current !== null) {
+      halt();
+    } else {
+      run();
+    }
+  }, [halt, run]);
+
+  // Count bars in from a fresh downbeat, then call onComplete; the metronome
+  // keeps clicking afterwards only if it was already on
+  const countIn = useCallback((bars: number, onComplete: () => void) => {
+    const { timeSignature, subdivision } = settingsRef.current;
+    const steps = Math.max(0, bars) * timeSignature.beats * Math.max(1, Math.round(subdivision));
+    if (steps === 0) {
+      onComplete();
+      return;
+    }
+
+    const keepPlaying = timerRef.current !== null;
+    countInRef.current = { steps, keepPlaying, onComplete };
+    setIsCountingIn(true);
+    if (!run()) {
+      countInRef.current = null;
+      setIsCountingIn(false);
+      onComplete();
+    }
+  }, [run]);
+
+  // Cleanup on unmount
+  useEffect(() => halt, [halt]);
+
+  return {
+    isPlaying,
+    isCountingIn,
+    beat,
+    start,
+    stop,
+    toggle,
+    countIn,
+  };
+}
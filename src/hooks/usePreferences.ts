@@ -0,0 +1,136 @@
+'use client';
+
+// ============================================
+// Preferences Store
+// Per-user settings persisted to localStorage, with per-song overrides.
+// A signed-in user's instrument and tunings are kept with their profile.
+// ============================================
+
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase, Database } from '@/lib/supabase/client';
+import { PreferencesState } from '@/types';
+import { STANDARD_TUNING } from '@/utils/tuning';
+import { DEFAULT_DIAGRAM_PREFERENCES } from '@/utils/diagram';
+
+export const usePreferences = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      instrument: 'guitar',
+      tuning: STANDARD_TUNING,
+      songTunings: {},
+      diagrams: DEFAULT_DIAGRAM_PREFERENCES,
+      songTempos: {},
+      
+      setInstrument: (instrument) => set({ instrument }),
+      
+      setTuning: (tuning) => set({ tuning }),
+      
+      setSongTuning: (songId, tuning) =>
+        set((state) => ({
+          songTunings: { ...state.songTunings, [songId]: tuning },
+        })),
+      
+      clearSongTuning: (songId) =>
+        set((state) => {
+          const { [songId]: _removed, ...songTunings } = state.songTunings;
+          return { songTunings };
+        }),
+      
+      setDiagrams: (diagrams) =>
+        set((state) => ({
+          diagrams: { ...state.diagrams, ...diagrams },
+        })),
+      
+      setSongTempo: (songId, tempo) =>
+        set((state) => ({
+          songTempos: { ...state.songTempos, [songId]: tempo },
+        })),
+    }),
+    {
+      name: 'guitarchords-preferences',
+      // Rehydrated on mount so server and first client render match
+      skipHydration: true,
+    }
+  )
+);
+
+// Set once the saved preferences have been requested
+let hydrationStarted = false;
+
+type ProfilePreferences = Pick<
+  Database['public']['Tables']['profiles']['Row'],
+  'instrument' | 'tuning' | 'song_tunings'
+>;
+
+/**
+ * Keep the instrument and tunings with the signed-in user's profile: the
+ * profile's are loaded on sign-in and changes are saved back to it.
+ * Guests, and users whose profile can't be reached, keep localStorage's.
+ */
+function syncWithProfile(): void {
+  if (!supabase) return;
+  const client = supabase;
+  let userId: string | null = null;
+  let loading = false; // Preferences set from the profile are not saved back to it
+
+  const save = (id: string, state: PreferencesState) => {
+    void client.from('profiles').upsert({
+      id,
+      instrument: state.instrument,
+      tuning: state.tuning,
+      song_tunings: state.songTunings,
+      updated_at: new Date().toISOString(),
+    });
+  };
+
+  const load = async (id: string) => {
+    const { data, error } = await client
+      .from('profiles')
+      .select('instrument, tuning, song_tunings')
+      .eq('id', id)
+      .maybeSingle<ProfilePreferences>();
+    if (error || userId !== id) return;
+    if (!data) {
+      // A new profile starts from the preferences set as a guest
+      save(id, usePreferences.getState());
+      return;
+    }
+    loading = true;
+    usePreferences.setState({ instrument: data.instrument, tuning: data.tuning, songTunings: data.song_tunings });
+    loading = false;
+  };
+
+  client.auth.onAuthStateChange((_event, session) => {
+    const id = session?.user.id ?? null;
+    if (id === userId) return;
+    userId = id;
+    // Queried outside the callback, which must not wait on the client
+    if (id) setTimeout(() => void load(id), 0);
+  });
+
+  usePreferences.subscribe((state, previous) => {
+    if (!userId || loading) return;
+    if (
+      state.instrument !== previous.instrument ||
+      state.tuning !== previous.tuning ||
+      state.songTunings !== previous.songTunings
+    ) {
+      save(userId, state);
+    }
+  });
+}
+
+/**
+ * Load saved preferences after the first render, once per page load
+ * however many components ask for them: localStorage's first, then the
+ * signed-in user's profile
+ */
+export function useHydratePreferences(): void {
+  useEffect(() => {
+    if (hydrationStarted) return;
+    hydrationStarted = true;
+    void Promise.resolve(usePreferences.persist.rehydrate()).then(syncWithProfile);
+  }, []);
+}
@@ -0,0 +1,59 @@
+'use client';
+
+// ============================================
+// Song Tempo Hook
+// BPM and time signature of a song, remembered per song
+// ============================================
+
+import { useCallback, useState } from 'react';
+import { SongTempo, TimeSignature } from '@/types';
+import { usePreferences, useHydratePreferences } from '@/hooks/usePreferences';
+import { DEFAULT_BPM, DEFAULT_TIME_SIGNATURE, clampBpm } from '@/utils/metronome';
+
+interface UseSongTempoOptions {
+  bpm?: number; // From the song's metadata
+  timeSignature?: TimeSignature;
+}
+
+interface UseSongTempoReturn extends SongTempo {
+  setBpm: (bpm: number) => void;
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+}
+
+export function useSongTempo(
+  songId?: string,
+  { bpm = DEFAULT_BPM, timeSignature = DEFAULT_TIME_SIGNATURE }: UseSongTempoOptions = {}
+): UseSongTempoReturn {
+  const savedTempo = usePreferences((state) =>
+    songId ? state.songTempos[songId] : undefined
+  );
+  const setSongTempo = usePreferences((state) => state.setSongTempo);
+  // Without a song the tempo lives only as long as the page
+  const [localTempo, setLocalTempo] = useState<SongTempo | undefined>();
+  
+  useHydratePreferences();
+  
+  const tempo: SongTempo = savedTempo ?? localTempo ?? { bpm: clampBpm(bpm), timeSignature };
+  
+  const saveTempo = useCallback((next: SongTempo) => {
+    if (songId) {
+      setSongTempo(songId, next);
+    } else {
+      setLocalTempo(next);
+    }
+  }, [songId, setSongTempo]);
+  
+  const setBpm = useCallback((next: number) => {
+    saveTempo({ ...tempo, bpm: clampBpm(next) });
+  }, [tempo, saveTempo]);
+  
+  const setTimeSignature = useCallback((next: TimeSignature) => {
+    saveTempo({ ...tempo, timeSignature: next });
+  }, [tempo, saveTempo]);
+  
+  return {
+    ...tempo,
+    setBpm,
+    setTimeSignature,
+  };
+}
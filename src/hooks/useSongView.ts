@@ -0,0 +1,41 @@
+'use client';
+
+// ============================================
+// Song View Store
+// Transposition, simplification, substitutions tried and the repeat
+// layout of the open song, shared by the song controls and the lyrics
+// ============================================
+
+import { create } from 'zustand';
+import { SongViewState, TranspositionState } from '@/types';
+
+const INITIAL_TRANSPOSITION: TranspositionState = {
+  semitones: 0,
+  accidentals: 'auto',
+  simplification: 'full',
+};
+
+export const useSongView = create<SongViewState>()((set) => ({
+  transposition: INITIAL_TRANSPOSITION,
+  
+  setTransposition: (state) =>
+    set((current) => ({
+      transposition: { ...current.transposition, ...state },
+    })),
+  
+  resetTransposition: () => set({ transposition: INITIAL_TRANSPOSITION }),
+
+  substitutions: [],
+
+  applySubstitution: (substitution) =>
+    set((current) => ({ substitutions: [...current.substitutions, substitution] })),
+
+  undoSubstitution: () =>
+    set((current) => ({ substitutions: current.substitutions.slice(0, -1) })),
+
+  resetSubstitutions: () => set({ substitutions: [] }),
+
+  layout: 'compact',
+
+  setLayout: (layout) => set({ layout }),
+}));
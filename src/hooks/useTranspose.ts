@@ -2,23 +2,39 @@
 
 // ============================================
 // Transpose Hook
-// Manages chord transposition state and logic
+// Manages chord transposition and simplification state and logic
 // ============================================
 
-import { useState, useCallback, useMemo } from 'react';
-import { TranspositionState, SemitoneShift, EasyModeKey } from '@/types';
+import { useCallback, useMemo, useEffect } from 'react';
+import {
+  TranspositionState,
+  SemitoneShift,
+  EasyModeKey,
+  AccidentalPreference,
+  SimplificationLevel,
+  Tuning,
+} from '@/types';
 import { 
   transposeChord, 
   transposeLyrics, 
   detectKey, 
   transposeKey,
-  suggestEasyModeKeys,
-  getAllKeys 
+  shiftKey,
+  resolveUseFlats,
+  getAllKeys,
+  KeyDetectionResult
 } from '@/utils/transpose';
+import { STANDARD_TUNING, getShapeShift, describeShapes } from '@/utils/tuning';
+import { rateEasyModeKeys } from '@/utils/difficulty';
+import { simplifyChord, simplifyChords } from '@/utils/simplify';
+import { useSongView } from '@/hooks/useSongView';
 
 interface UseTransposeOptions {
-  originalKey?: string;
-  onKeyDetected?: (key: string) => void;
+  originalKey?: string; // Skips detection when known
+  chords?: string[]; // Used to detect the original key
+  songKeys?: string[]; // Keys of modulating sections, considered by Easy Mode
+  tuning?: Tuning; // Easy Mode rates the shapes fretted in this tuning
+  onKeyDetected?: (key: string, detection: KeyDetectionResult) => void;
 }
 
 interface UseTransposeReturn extends TranspositionState {
@@ -26,86 +42,141 @@ interface UseTransposeReturn extends TranspositionState {
   incrementSemitones: () => void;
   decrementSemitones: () => void;
   setTargetKey: (key: string) => void;
+  setAccidentals: (accidentals: AccidentalPreference) => void;
+  setSimplification: (level: SimplificationLevel) => void;
   transpose: (chord: string) => string;
   transposeLyrics: (lyrics: string) => string;
   reset: () => void;
   easyModeKeys: EasyModeKey[];
   allKeys: string[];
+  keyDetection?: KeyDetectionResult;
 }
 
 export function useTranspose(options: UseTransposeOptions = {}): UseTransposeReturn {
-  const { originalKey, onKeyDetected } = options;
+  const {
+    originalKey: providedKey,
+    chords,
+    songKeys,
+    tuning = STANDARD_TUNING,
+    onKeyDetected,
+  } = options;
   
-  const [semitones, setSemitonesState] = useState<SemitoneShift>(0);
-  const [targetKey, setTargetKey] = useState<string | undefined>(undefined);
+  // Detect the original key from the song's chords unless it was given
+  const keyDetection = useMemo(
+    () => (!providedKey && chords && chords.length > 0 ? detectKey(chords) : undefined),
+    [providedKey, chords]
+  );
+  const originalKey = providedKey ?? keyDetection?.detectedKey;
   
-  // Auto-detect key from chords and notify
-  const detectAndNotify = useCallback((chords: string[]) => {
-    if (!originalKey) {
-      const detection = detectKey(chords);
-      if (detection.confidence !== 'low' && onKeyDetected) {
-        onKeyDetected(detection.detectedKey);
-      }
+  // Shared with the lyrics through the song view store
+  const { semitones, targetKey, accidentals, simplification } = useSongView(state => state.transposition);
+  const setTransposition = useSongView(state => state.setTransposition);
+  const resetTransposition = useSongView(state => state.resetTransposition);
+  
+  // Publish the key the lyrics are transposed from; start fresh for the next song
+  useEffect(() => {
+    setTransposition({ originalKey });
+  }, [originalKey, setTransposition]);
+  
+  useEffect(() => resetTransposition, [resetTransposition]);
+  
+  // Notify when a key was detected with reasonable confidence
+  useEffect(() => {
+    if (keyDetection && keyDetection.confidence !== 'low' && onKeyDetected) {
+      onKeyDetected(keyDetection.detectedKey, keyDetection);
     }
-  }, [originalKey, onKeyDetected]);
+  }, [keyDetection, onKeyDetected]);
   
   // Set semitones with bounds checking
   const setSemitones = useCallback((newSemitones: SemitoneShift) => {
     const clamped = Math.max(-12, Math.min(12, newSemitones)) as SemitoneShift;
-    setSemitonesState(clamped);
     
     // Update target key
-    if (originalKey) {
-      const newKey = transposeKey(originalKey, clamped);
-      setTargetKey(newKey);
-    }
-  }, [originalKey]);
+    setTransposition({
+      semitones: clamped,
+      ...(originalKey && { targetKey: shiftKey(originalKey, clamped) }),
+    });
+  }, [originalKey, setTransposition]);
   
-  // Increment/decrement semitones
+  // Increment/decrement semitones (keeps the target key in sync)
   const incrementSemitones = useCallback(() => {
-    setSemitonesState(prev => Math.min(12, prev + 1) as SemitoneShift);
-  }, []);
+    setSemitones(Math.min(12, semitones + 1) as SemitoneShift);
+  }, [semitones, setSemitones]);
   
   const decrementSemitones = useCallback(() => {
-    setSemitonesState(prev => Math.max(-12, prev - 1) as SemitoneShift);
-  }, []);
-  
-  // Set target key (calculates semitones needed)
-  const setTargetKeyCallback = useCallback((key: string) => {
-    if (originalKey) {
-      const shift = transposeKey(originalKey, key);
-      setSemitonesState(shift);
+    setSemitones(Math.max(-12, semitones - 1) as SemitoneShift);
+  }, [semitones, setSemitones]);
+  
+  // Set target key (calculates semitones needed). The song keeps its mode,
+  // so C picked for a song in Em moves it to Cm and is spelled for Cm
+  const setTargetKey = useCallback((key: string) => {
+    if (!originalKey) {
+      setTransposition({ targetKey: key });
+      return;
     }
-    setTargetKey(key);
-  }, [originalKey]);
+    const shift = transposeKey(originalKey, key) as SemitoneShift;
+    setTransposition({ semitones: shift, targetKey: shiftKey(originalKey, shift) });
+  }, [originalKey, setTransposition]);
+  
+  const setAccidentals = useCallback((value: AccidentalPreference) => {
+    setTransposition({ accidentals: value });
+  }, [setTransposition]);
+  
+  const setSimplification = useCallback((value: SimplificationLevel) => {
+    setTransposition({ simplification: value });
+  }, [setTransposition]);
+  
+  // Spell transposed notes for the target key unless the user overrides it
+  const useFlats = useMemo(
+    () => resolveUseFlats(semitones, { originalKey, targetKey, accidentals }),
+    [semitones, originalKey, targetKey, accidentals]
+  );
   
   // Transpose a single chord
   const transpose = useCallback((chord: string): string => {
-    return transposeChord(chord, semitones);
-  }, [semitones]);
+    return simplifyChord(transposeChord(chord, semitones, useFlats), simplification);
+  }, [semitones, useFlats, simplification]);
   
   // Transpose lyrics with inline chords
   const transposeLyricsCallback = useCallback((lyrics: string): string => {
-    return transposeLyrics(lyrics, semitones);
-  }, [semitones]);
+    return transposeLyrics(lyrics, semitones, {
+      originalKey,
+      targetKey,
+      accidentals,
+      simplify: simplification,
+    });
+  }, [semitones, originalKey, targetKey, accidentals, simplification]);
   
   // Reset to original
   const reset = useCallback(() => {
-    setSemitonesState(0);
-    setTargetKey(undefined);
-  }, []);
+    setTransposition({ semitones: 0, targetKey: undefined });
+  }, [setTransposition]);
   
-  // Easy mode key suggestions
+  // Easy mode key suggestions, rated by how hard the (simplified) chords are there
   const easyModeKeys = useMemo((): EasyModeKey[] => {
+    const shift = getShapeShift(tuning);
     const currentKey = originalKey || 'C';
-    const suggestions = suggestEasyModeKeys(currentKey);
+    const otherKeys = (songKeys ?? []).filter(key => key !== currentKey);
+    const playedChords = chords && simplifyChords(chords, simplification);
+    const ratings = rateEasyModeKeys(currentKey, otherKeys, playedChords, tuning);
     
-    return suggestions.slice(0, 5).map(({ key, distance }) => ({
-      key,
-      difficulty: Math.abs(distance),
-      reason: getEasyModeReason(key),
-    }));
-  }, [originalKey]);
+    return ratings.slice(0, 5).map(({ key, shapeKey, distance, score, hardChords, songKeys: movedKeys }) => {
+      const reasons = [
+        hardChords.length === 0
+          ? 'Only beginner chords'
+          : `Harder chords: ${hardChords.join(', ')}`,
+      ];
+      if (shift !== 0) reasons.push(describeShapes(shapeKey, 0, tuning));
+      if (movedKeys.length > 0) reasons.push(`other sections in ${movedKeys.join(', ')}`);
+      
+      return {
+        key,
+        difficulty: score,
+        semitones: Math.abs(distance),
+        reason: reasons.join('; '),
+      };
+    });
+  }, [originalKey, songKeys, chords, tuning, simplification]);
   
   // All available keys
   const allKeys = useMemo(() => getAllKeys(), []);
@@ -114,31 +185,19 @@ export function useTranspose(options: UseTransposeOptions = {}): UseTransposeRet
     semitones,
     originalKey,
     targetKey,
+    accidentals,
+    simplification,
     setSemitones,
     incrementSemitones,
     decrementSemitones,
-    setTargetKey: setTargetKeyCallback,
+    setTargetKey,
+    setAccidentals,
+    setSimplification,
     transpose,
     transposeLyrics: transposeLyricsCallback,
     reset,
     easyModeKeys,
     allKeys,
+    keyDetection,
   };
 }
-
-// Helper function for easy mode reasons
-function getEasyModeReason(key: string): string {
-  const easyKeys: Record<string, string> = {
-    'G': 'Open position, common chords',
-    'C': 'Open position, beginner friendly',
-    'D': 'Simple fingerings',
-    'A': 'Easy barre chords',
-    'E': 'Open position',
-    'Am': 'Simple minor chord',
-    'Em': 'Two-finger chord',
-    'Dm': 'Common progression chord',
-  };
-  return easyKeys[key] || 'Good for beginners';
-}
-
-
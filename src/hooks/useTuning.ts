@@ -0,0 +1,51 @@
+'use client';
+
+// ============================================
+// Tuning Hook
+// Active tuning for a song, falling back to the user's default
+// ============================================
+
+import { useCallback } from 'react';
+import { Tuning } from '@/types';
+import { usePreferences, useHydratePreferences } from '@/hooks/usePreferences';
+
+interface UseTuningReturn {
+  tuning: Tuning;
+  isSongTuning: boolean; // The song overrides the user's default
+  setTuning: (tuning: Tuning) => void;
+  resetTuning: () => void;
+}
+
+export function useTuning(songId?: string): UseTuningReturn {
+  const userTuning = usePreferences((state) => state.tuning);
+  const songTuning = usePreferences((state) =>
+    songId ? state.songTunings[songId] : undefined
+  );
+  const setUserTuning = usePreferences((state) => state.setTuning);
+  const setSongTuning = usePreferences((state) => state.setSongTuning);
+  const clearSongTuning = usePreferences((state) => state.clearSongTuning);
+  
+  useHydratePreferences();
+  
+  // Song pages store an override, elsewhere the user's default changes
+  const setTuning = useCallback((tuning: Tuning) => {
+    if (songId) {
+      setSongTuning(songId, tuning);
+    } else {
+      setUserTuning(tuning);
+    }
+  }, [songId, setSongTuning, setUserTuning]);
+  
+  const resetTuning = useCallback(() => {
+    if (songId) {
+      clearSongTuning(songId);
+    }
+  }, [songId, clearSongTuning]);
+  
+  return {
+    tuning: songTuning ?? userTuning,
+    isSongTuning: songTuning !== undefined,
+    setTuning,
+    resetTuning,
+  };
+}
@@ -3,6 +3,7 @@
 // ============================================
 
 import { createBrowserClient } from '@supabase/ssr';
+import { InstrumentId, Tuning } from '@/types';
 
 // ----------------------
 // Environment Variables
@@ -11,6 +12,9 @@ import { createBrowserClient } from '@supabase/ssr';
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
+// Without a project the app runs for guests only
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
 // ----------------------
 // Browser Client
 // ----------------------
@@ -52,10 +56,32 @@ export interface Database {
           created_at?: string;
         };
       };
+      profiles: {
+        Row: {
+          id: string; // The user's id
+          instrument: InstrumentId;
+          tuning: Tuning;
+          song_tunings: Record<string, Tuning>;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          instrument?: InstrumentId;
+          tuning?: Tuning;
+          song_tunings?: Record<string, Tuning>;
+          updated_at?: string;
+        };
+        Update: {
+          instrument?: InstrumentId;
+          tuning?: Tuning;
+          song_tunings?: Record<string, Tuning>;
+          updated_at?: string;
+        };
+      };
     };
   };
 }
 
-// Export for convenience
-export const supabase = createClient();
+// Export for convenience; null when no project is configured
+export const supabase = isSupabaseConfigured ? createClient() : null;
 
@@ -17,6 +17,9 @@ export interface SongMetadata {
   headerImageUrl?: string;
   coverArtUrl?: string;
   url: string;
+  bpm?: number; // Beats per minute of the time signature's beat
+  timeSignature?: TimeSignature;
+  capo?: number;
 }
 
 export interface LyricsResponse {
@@ -28,9 +31,62 @@ export interface LyricsResponse {
 
 export interface SongSection {
   type: 'intro' | 'verse' | 'pre-chorus' | 'chorus' | 'bridge' | 'outro' | 'other';
-  content: string;
+  content: string; // The lines with chords inline ([Am]Love me)
+  lines: SongLine[];
   chords?: string[];
   isChorus?: boolean;
+  key?: string; // Local key of this section
+  label?: string; // Heading as written (Verse 2, Solo)
+  performers?: string[]; // Named in the heading ([Chorus: Artist & Artist])
+  environment?: 'tab' | 'grid'; // Kept verbatim, not read as chords and lyrics
+  repeat?: number; // Times played in a row (Chorus x2)
+  reference?: number; // Earlier section played again here (Repeat verse 2); has no lines of its own
+}
+
+// A section in the order the song is played, repeats and references written out
+export interface PlayedSection {
+  index: number; // Section whose lines are played
+  from: number; // Section of the sheet that calls for them (a reference, or the section itself)
+  pass: number; // 1 the first time through, 2 for the first repeat...
+}
+
+// A chord as placed on the sheet
+export interface SheetChord {
+  section: number; // Section whose lines hold it
+  index: number; // Its number among the chords of that section
+  at: string; // `${from}-${pass}` of the PlayedSection drawn, telling repeats apart
+}
+
+// How repeats are shown: as written, or in full in the order they are played
+export type SongLayout = 'compact' | 'expanded';
+
+// A line of a section, split where chords change, or a block of tablature
+export interface SongLine {
+  segments: SongSegment[]; // Empty for a blank line and for tablature
+  tab?: TabBlock; // The string lines of an ASCII tab, read as one
+}
+
+// A chord and the lyrics sung over it, up to the next chord
+export interface SongSegment {
+  chord?: string; // Missing for lyrics before the first chord of a line
+  lyrics: string; // Empty or spaces for chords played without words
+}
+
+// A section heading read from lyrics: [Verse 1: Artist], Intro: Em7 G
+export interface SectionHeader {
+  type: SongSection['type'];
+  label: string;
+  performers?: string[];
+  repeat?: number; // [Chorus x2]
+  chords?: ChordPosition[]; // Played under a plain-text heading, at columns of the line
+}
+
+export interface Modulation {
+  sectionIndex: number; // First section in the new key
+  fromKey: string;
+  toKey: string;
+  semitones: number;
+  type: 'step' | 'relative' | 'parallel' | 'other';
 }
 
 export interface ParsedSong {
@@ -38,24 +94,142 @@ export interface ParsedSong {
   sections: SongSection[];
   originalKey?: string;
   detectedChords: string[];
+  modulations?: Modulation[];
+  chordDefinitions?: ChordDiagram[]; // Shapes the song defines itself
+}
+
+// A lyric line with its chords at character offsets into the lyrics
+export interface AnchoredLine {
+  lyrics: string; // Empty for chords played without words
+  chords: ChordPosition[]; // Column = offset in the lyrics (may run past the end)
+}
+
+// A line of an imported sheet that was neither chords, lyrics nor a header
+export interface UnclassifiedLine {
+  line: number; // 1-based
+  text: string;
+  reason: string;
+}
+
+// A plain-text chord sheet read into a song
+export interface ChordSheetImport {
+  song: ParsedSong;
+  lines: AnchoredLine[][]; // Lines of each section
+  unclassified: UnclassifiedLine[];
+  validation: ValidationResult;
+}
+
+// ----------------------
+// Tablature Types
+// ----------------------
+
+// How a note leads into the next one on its string: 5h7, 7p5, 7b9, 9r7, 5/7, 7\5, 5~
+export type TabTechnique = 'hammer-on' | 'pull-off' | 'bend' | 'release' | 'slide-up' | 'slide-down' | 'slide' | 'vibrato';
+
+// A fret played on a string of a tab block
+export interface TabNote {
+  string: number; // 0 = top line of the block (the highest string)
+  column: number; // Character offset in the string's line, after its name
+  fret: number | null; // null for a muted (x) note
+  technique?: TabTechnique;
+  unplayable?: boolean; // Transposed off the neck: below the nut or past the last fret
+}
+
+// An ASCII tab block: one line per string, highest string first
+export interface TabBlock {
+  strings: string[]; // Names as written (e B G D A E); empty strings when unnamed
+  notes: TabNote[];
+  bars: number[]; // Columns of bar lines, shared by every string
+  width: number; // Columns of the longest string line
+}
+
+// A run of a tab string line as laid out; note runs keep the note they stand for
+export interface TabRun {
+  text: string;
+  note?: TabNote;
 }
 
 // ----------------------
 // Chord Types
 // ----------------------
 
+export type Accidental = 'b' | '#';
+
+export type ChordQuality = 'major' | 'minor' | 'diminished' | 'augmented' | 'sus2' | 'sus4' | 'power';
+
+export type ChordSeventh = 'minor' | 'major' | 'diminished';
+
+export type ChordExtension = 6 | 7 | 9 | 11 | 13;
+
+export interface ChordTone {
+  degree: number; // Scale degree (5, 9, 11, 13...)
+  accidental?: Accidental;
+}
+
+// Parsed chord symbol (e.g. F#m7b5, C6/9, D/F#)
+export interface ChordSymbol {
+  root: string;
+  quality: ChordQuality;
+  seventh?: ChordSeventh;
+  extension?: ChordExtension;
+  alterations: ChordTone[];
+  added: ChordTone[];
+  omissions: number[];
+  bass?: string;
+}
+
+// A name found for a set of notes by the chord identifier
+export interface ChordMatch {
+  chord: string; // Slash name when the bass is not the root (C/E)
+  root: string;
+  bass?: string; // Only when the bass is not the root
+  inversion: number; // Position of the bass among the chord tones (0 = root position)
+  intervals: number[]; // Semitones above the root, as in ChordLibraryEntry
+  missing: number[]; // Optional intervals that are not sounded
+  score: number; // Lower is a more likely name
+}
+
+// A chord written above the lyrics at a character column
+export interface ChordPosition {
+  chord: string;
+  column: number;
+}
+
+// A run of a lyrics line as displayed; chord runs keep the symbol they stand for
+export interface LyricSegment {
+  text: string;
+  chord?: string;
+}
+
 export interface ChordFingering {
-  string: number; // 1-6 (high E to low E)
-  fret: number;
+  string: number; // 1 = highest string, up to the instrument's string count
+  fret: number; // 0 = open, -1 = muted
   finger?: number;
 }
 
+// One finger pressing several strings at the same fret
+export interface ChordBarre {
+  fret: number;
+  fromString: number; // Lowest-pitched string covered (the string count for a full barre)
+  toString: number; // Highest-pitched string covered
+}
+
 export interface ChordDiagram {
   chord: string;
-  positions: ChordFingering[];
-  baseFret: number;
+  positions: ChordFingering[]; // One entry per string
+  baseFret: number; // Fret shown at the top of the diagram (1 = nut)
   barred?: boolean;
+  barre?: ChordBarre;
   difficulty: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+  tuning?: string; // Tuning id the voicing is fretted in (standard when unset)
+}
+
+// Difficulty of a chord from its easiest voicing
+export interface ChordDifficulty {
+  chord: string;
+  score: number; // Lower is easier
+  level: ChordDiagram['difficulty'];
+  diagram?: ChordDiagram; // Missing when no playable voicing exists
 }
 
 export interface ChordLibraryEntry {
@@ -66,21 +240,217 @@ export interface ChordLibraryEntry {
   beginnerFriendly: boolean;
 }
 
+export interface ChordCategory {
+  name: string;
+  chords: ChordLibraryEntry[];
+  score: number; // Average over its chord types on the natural roots
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+}
+
+// ----------------------
+// Tuning Types
+// ----------------------
+
+export interface Tuning {
+  id: string; // Preset id ('drop-d') or 'custom:D2 A2 D3 G3 B3 E4'
+  name: string;
+  strings: string[]; // Open string pitches from the top string down to string 1 (E2, A2, D3...; ukulele G4 C4 E4 A4)
+}
+
+// ----------------------
+// Instrument Types
+// ----------------------
+
+export type InstrumentId = 'guitar' | 'ukulele' | 'bass' | 'mandolin' | 'piano';
+
+// How far the voicing search may reach on a fretted instrument
+export interface VoicingLimits {
+  maxFret: number;
+  maxSpan: number; // Frets between the lowest and highest fretted note
+  minStrings: number; // Sounding strings a voicing needs (power chords may use fewer)
+  rootInBass: boolean; // Lowest note must be the root (off for re-entrant tunings)
+}
+
+export interface Instrument {
+  id: InstrumentId;
+  name: string;
+  layout: 'fretboard' | 'keyboard';
+  tuning?: Tuning; // Fretted instruments only
+  voicing?: VoicingLimits; // Fretted instruments only
+}
+
+// A chord on the piano keyboard
+export interface KeyboardVoicing {
+  chord: string;
+  notes: number[]; // MIDI note numbers, lowest first
+  inversion: number; // 0 = root position
+}
+
+// ----------------------
+// Diagram Types
+// ----------------------
+
+// Vertical draws strings upright like a chord chart, horizontal lays them flat like tab
+export type DiagramOrientation = 'vertical' | 'horizontal';
+
+// How chord, scale and fretboard diagrams are drawn for the user
+export interface DiagramPreferences {
+  leftHanded: boolean; // Mirror so the nut and low string face a left-handed player
+  orientation: DiagramOrientation;
+  stringNumbers: boolean; // Label strings 1 (highest) to n
+}
+
+// ----------------------
+// Playback Types
+// ----------------------
+
+// How a chord's notes are sounded: together, strummed from the low or high string, or one by one
+export type StrumStyle = 'block' | 'down' | 'up' | 'arpeggio';
+
 // ----------------------
 // Transposition Types
 // ----------------------
 
 export type SemitoneShift = -12 | -11 | -10 | -9 | -8 | -7 | -6 | -5 | -4 | -3 | -2 | -1 | 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
 
+// How transposed notes are spelled: follow the target key, or always sharps/flats
+export type AccidentalPreference = 'auto' | 'sharps' | 'flats';
+
+// How far chords are reduced for easier playing (slash basses go below 'full')
+export type SimplificationLevel = 'full' | 'seventh' | 'triad' | 'power';
+
 export interface TranspositionState {
   semitones: SemitoneShift;
   originalKey?: string;
   targetKey?: string;
+  accidentals: AccidentalPreference;
+  simplification: SimplificationLevel;
 }
 
 export interface EasyModeKey {
   key: string;
-  difficulty: number;
+  difficulty: number; // Average chord difficulty score (lower is easier)
+  reason: string;
+  semitones?: number; // Distance from the original key
+}
+
+export interface CapoShape {
+  sounding: string; // Chord as heard (and written on the sheet)
+  shape: string; // Chord shape fretted behind the capo
+  barre: boolean;
+}
+
+// Easy Mode key reached with a capo instead of retuning the song
+export interface CapoOption extends EasyModeKey {
+  capo: number; // 0-9
+  shapes: CapoShape[];
+  barreChords: number;
+  barreChordsRemoved: number; // Compared to playing without a capo
+}
+
+// ----------------------
+// Harmony Types
+// ----------------------
+
+// How chords are shown on the sheet
+export type NotationMode = 'chords' | 'roman' | 'nashville';
+
+export interface ChordFunction {
+  chord: string;
+  key: string;
+  roman: string; // vi, V7/V, bVII
+  nashville: string; // 6-, 5⁷, b7
+  degree: number; // 1-7
+  diatonic: boolean;
+  borrowed: boolean; // From the parallel major/minor
+  secondaryTarget?: string; // 'V' for V/V
+}
+
+// Where a chord sits in a key, ignoring sevenths and extensions
+export interface ChordStep {
+  semitones: number; // Root above the tonic, 0-11
+  triad: 'major' | 'minor' | 'diminished' | 'augmented' | 'open'; // Open: sus and power chords, no third
+}
+
+// A named chord progression, written in Roman numerals
+export interface ProgressionDefinition {
+  id: string;
+  name: string;
+  mode: 'major' | 'minor'; // Mode of the key the numerals are relative to
+  numerals: string[]; // As played, one per bar for the blues (I, bVII, iiø, V7)
+  description: string;
+}
+
+// A progression found in a run of a song's chords
+export interface ProgressionMatch {
+  progression: ProgressionDefinition;
+  key: string;
+  chords: string[]; // As written in the song
+  start: number; // Index of the first chord in the chord list
+}
+
+export type SubstitutionType =
+  | 'tritone'
+  | 'relative'
+  | 'secondary-dominant'
+  | 'passing-diminished'
+  | 'sus-resolution';
+
+// Where a chord is played, for suggesting what could replace it
+export interface SubstitutionContext {
+  key: string;
+  next?: string; // Chord that follows
+}
+
+// A reharmonization idea for one chord
+export interface ChordSubstitution {
+  type: SubstitutionType;
+  chords: string[]; // Played in the original chord's place (Gsus4 G, C C#dim7)
+  explanation: string;
+  needsNext: boolean; // Only makes sense before the same next chord
+}
+
+// A substitution tried on the song, replayed in order over the original sheet
+export interface AppliedSubstitution {
+  chord: string;
+  chords: string[];
+  next?: string; // Only where this chord comes next
+  occurrence?: { section: number; index: number }; // One chord of a section; every one when absent
+}
+
+// ----------------------
+// Scale Types
+// ----------------------
+
+export type ScaleCategory = 'major' | 'minor' | 'pentatonic' | 'blues' | 'mode';
+
+export interface ScaleDefinition {
+  id: string; // 'minor-pentatonic', 'dorian'
+  name: string;
+  category: ScaleCategory;
+  intervals: number[]; // Semitones above the root
+}
+
+// A scale note on the fretboard
+export interface ScaleNote {
+  string: number; // 1 = highest string
+  fret: number; // 0 = open
+  degree: string; // 1, b3, #4...
+  note: string;
+}
+
+// A playable box of a scale, a few frets wide
+export interface ScalePosition {
+  startFret: number;
+  endFret: number;
+  notes: ScaleNote[];
+}
+
+// A scale to solo with over a song
+export interface ScaleSuggestion {
+  root: string;
+  scale: string; // ScaleDefinition id
+  name: string; // 'A minor pentatonic'
   reason: string;
 }
 
@@ -150,6 +520,32 @@ export interface AutoScrollState {
   currentPosition: number;
 }
 
+// ----------------------
+// Metronome Types
+// ----------------------
+
+// 4/4 = { beats: 4, noteValue: 4 }, 6/8 = { beats: 6, noteValue: 8 }
+export interface TimeSignature {
+  beats: number;
+  noteValue: number;
+}
+
+// How loud a beat clicks ('off' leaves it silent)
+export type AccentLevel = 'strong' | 'medium' | 'weak' | 'off';
+
+export interface MetronomeSettings {
+  bpm: number;
+  timeSignature: TimeSignature;
+  accents: AccentLevel[]; // One per beat of the bar
+  subdivision: number; // Clicks per beat (1 = beats only, 2 = eighths...)
+}
+
+// Tempo the user keeps for a song
+export interface SongTempo {
+  bpm: number;
+  timeSignature: TimeSignature;
+}
+
 // ----------------------
 // Cache Types
 // ----------------------
@@ -250,3 +646,28 @@ export interface AppState {
   toggleTheme: () => void;
 }
 
+// Transposition of the song being viewed, shared by its controls and lyrics
+export type SongViewState = Pick<AppState, 'transposition' | 'setTransposition' | 'resetTransposition'> & {
+  substitutions: AppliedSubstitution[];
+  applySubstitution: (substitution: AppliedSubstitution) => void;
+  undoSubstitution: () => void;
+  resetSubstitutions: () => void;
+  layout: SongLayout;
+  setLayout: (layout: SongLayout) => void;
+};
+
+// Persisted per-user settings, with per-song overrides
+export interface PreferencesState {
+  instrument: InstrumentId;
+  tuning: Tuning; // Guitar tuning
+  songTunings: Record<string, Tuning>;
+  diagrams: DiagramPreferences;
+  songTempos: Record<string, SongTempo>;
+  setInstrument: (instrument: InstrumentId) => void;
+  setTuning: (tuning: Tuning) => void;
+  setSongTuning: (songId: string, tuning: Tuning) => void;
+  clearSongTuning: (songId: string) => void;
+  setDiagrams: (diagrams: Partial<DiagramPreferences>) => void;
+  setSongTempo: (songId: string, tempo: SongTempo) => void;
+}
+
@@ -0,0 +1,4 @@
+// Web Audio rendered in plain JavaScript, for testing audio under Node
+declare module 'web-audio-engine' {
+  export const OfflineAudioContext: typeof globalThis.OfflineAudioContext;
+}
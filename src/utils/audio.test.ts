@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { OfflineAudioContext } from 'web-audio-engine';
+import { StrumStyle } from '@/types';
+import { getNoteOffsets, renderChord } from '@/utils/audio';
+
+const SAMPLE_RATE = 8000;
+const E_MAJOR = [40, 47, 52, 56, 59, 64];
+const options = { duration: 0.3 };
+
+beforeAll(() => {
+  vi.stubGlobal('OfflineAudioContext', OfflineAudioContext);
+});
+
+/**
+ * Render some of the chord's strings at the level they have in the whole chord
+ */
+async function renderStrings(notes: number[], style: StrumStyle): Promise<Float32Array> {
+  const volume = Math.sqrt(notes.length / E_MAJOR.length);
+  const buffer = await renderChord(notes, { ...options, style, volume }, SAMPLE_RATE);
+  return buffer.getChannelData(0);
+}
+
+/**
+ * First sample at which two renders differ
+ */
+function firstDifference(a: Float32Array, b: Float32Array): number {
+  return a.findIndex((sample, index) => sample !== (b[index] ?? 0));
+}
+
+describe('renderChord', () => {
+  it('renders the whole strum and makes a sound', async () => {
+    const buffer = await renderChord(E_MAJOR, options, SAMPLE_RATE);
+    const offsets = getNoteOffsets(E_MAJOR.length, 'down');
+    const data = buffer.getChannelData(0);
+
+    expect(buffer.sampleRate).toBe(SAMPLE_RATE);
+    expect(buffer.length).toBe(Math.ceil((offsets[offsets.length - 1] + options.duration) * SAMPLE_RATE));
+    expect(data.reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0)).toBeGreaterThan(0.01);
+  });
+
+  // Adding a string changes nothing before it is plucked
+  it('plucks each string of a down strum at its offset, low string first', async () => {
+    const offsets = getNoteOffsets(E_MAJOR.length, 'down');
+    for (let string = 0; string < E_MAJOR.length; string++) {
+      const without = await renderStrings(E_MAJOR.slice(0, string), 'down');
+      const withString = await renderStrings(E_MAJOR.slice(0, string + 1), 'down');
+      expect(firstDifference(withString, without)).toBeCloseTo(offsets[string] * SAMPLE_RATE, 0);
+    }
+  });
+
+  it('plucks each string of an up strum at its offset, high string first', async () => {
+    const offsets = getNoteOffsets(E_MAJOR.length, 'up');
+    for (let string = E_MAJOR.length - 1; string >= 0; string--) {
+      const without = await renderStrings(E_MAJOR.slice(string + 1), 'up');
+      const withString = await renderStrings(E_MAJOR.slice(string), 'up');
+      expect(firstDifference(withString, without)).toBeCloseTo(offsets[string] * SAMPLE_RATE, 0);
+    }
+  });
+});
@@ -0,0 +1,194 @@
+// ============================================
+// Chord Playback
+// Plucked-string synthesis (Karplus-Strong) scheduled on any Web Audio
+// context, so chords can be played live or rendered offline
+// ============================================
+
+import { StrumStyle } from '@/types';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const DEFAULT_DURATION = 2.5; // Seconds each note rings
+const DEFAULT_VOLUME = 0.6;
+const STRUM_SPREAD = 0.035; // Seconds between strings in a strum
+const ARPEGGIO_SPREAD = 0.2; // Seconds between notes of an arpeggio
+const DECAY = 0.996; // Energy kept by the string loop per period
+const FADE_TIME = 0.05; // Release at the end of a note, avoids clicks
+const SILENCE = 0.0001;
+const DEFAULT_SAMPLE_RATE = 44100;
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface PlaybackOptions {
+  style?: StrumStyle;
+  duration?: number; // Seconds each note rings
+  spread?: number; // Seconds between notes (defaults depend on style)
+  volume?: number; // 0-1 for the whole chord
+}
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Frequency in Hz of a MIDI note (A4 = 69 = 440 Hz)
+ */
+export function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+/**
+ * Seconds after the start at which each note (lowest string first) is plucked
+ */
+export function getNoteOffsets(count: number, style: StrumStyle = 'down', spread?: number): number[] {
+  const gap = spread ?? (style === 'arpeggio' ? ARPEGGIO_SPREAD : STRUM_SPREAD);
+  return Array.from({ length: count }, (_, index) => {
+    if (style === 'block') return 0;
+    if (style === 'up') return (count - 1 - index) * gap;
+    return index * gap;
+  });
+}
+
+/**
+ * Seeded noise so the same note always renders the same way
+ */
+function createNoise(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return (state / 0x100000000) * 2 - 1;
+  };
+}
+
+// ----------------------
+// Audio Context
+// ----------------------
+
+type AudioContextConstructor = typeof AudioContext;
+
+// One context for the whole app, created on the first tap (browsers
+// only allow audio to start from a user gesture)
+let audioContext: AudioContext | null = null;
+
+/**
+ * The shared live audio context, resumed if the browser suspended it.
+ * Returns null outside the browser or without Web Audio.
+ */
+export function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined') return null;
+  if (!audioContext) {
+    const Context: AudioContextConstructor | undefined =
+      window.AudioContext ??
+      (window as typeof window & { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+    if (!Context) return null;
+    audioContext = new Context();
+  }
+  if (audioContext.state === 'suspended') {
+    void audioContext.resume();
+  }
+  return audioContext;
+}
+
+// ----------------------
+// Synthesis
+// ----------------------
+
+/**
+ * One plucked string: a noise burst one period long, fed back through
+ * an averaging filter so it rings at the pitch and dulls as it decays
+ */
+export function createPluckBuffer(
+  context: BaseAudioContext,
+  midi: number,
+  duration: number = DEFAULT_DURATION
+): AudioBuffer {
+  const sampleRate = context.sampleRate;
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // Averaging neighbours delays the loop by half a sample
+  const period = Math.max(2, Math.round(sampleRate / midiToFrequency(midi) + 0.5));
+  const noise = createNoise(midi + 1);
+  for (let i = 0; i < Math.min(period, length); i++) {
+    data[i] = noise();
+  }
+  for (let i = period; i < length; i++) {
+    data[i] = DECAY * 0.5 * (data[i - period] + data[i - period + 1]);
+  }
+
+  return buffer;
+}
+
+/**
+ * Schedule a chord (MIDI notes in strumming order, lowest string first) on a context,
+ * into its speakers or another node. Returns the time the last note has died away.
+ */
+export function scheduleChord(
+  context: BaseAudioContext,
+  notes: number[],
+  options: PlaybackOptions = {},
+  when: number = context.currentTime,
+  destination: AudioNode = context.destination
+): number {
+  const { style = 'down', duration = DEFAULT_DURATION, spread, volume = DEFAULT_VOLUME } = options;
+  if (notes.length === 0) return when;
+
+  // Keep the chord at the same loudness however many strings sound
+  const level = volume / Math.sqrt(notes.length);
+  const offsets = getNoteOffsets(notes.length, style, spread);
+
+  notes.forEach((midi, index) => {
+    const start = when + offsets[index];
+    const end = start + duration;
+
+    const source = context.createBufferSource();
+    source.buffer = createPluckBuffer(context, midi, duration);
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(level, start);
+    gain.gain.setValueAtTime(level, end - FADE_TIME);
+    gain.gain.exponentialRampToValueAtTime(SILENCE, end);
+
+    source.connect(gain);
+    gain.connect(destination);
+    source.start(start);
+    source.stop(end);
+  });
+
+  return when + Math.max(...offsets) + duration;
+}
+
+/**
+ * Render a chord to an audio buffer with an OfflineAudioContext
+ */
+export function renderChord(
+  notes: number[],
+  options: PlaybackOptions = {},
+  sampleRate: number = DEFAULT_SAMPLE_RATE
+): Promise<AudioBuffer> {
+  const { style = 'down', duration = DEFAULT_DURATION, spread } = options;
+  const offsets = getNoteOffsets(notes.length, style, spread);
+  const length = Math.ceil((Math.max(0, ...offsets) + duration) * sampleRate);
+
+  const context = new OfflineAudioContext(1, Math.max(1, length), sampleRate);
+  scheduleChord(context, notes, options, 0);
+  return context.startRendering();
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getAudioContext,
+  midiToFrequency,
+  getNoteOffsets,
+  createPluckBuffer,
+  scheduleChord,
+  renderChord,
+};
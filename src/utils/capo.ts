@@ -0,0 +1,116 @@
+// ============================================
+// Capo Advisor
+// Pairs capo positions with easier chord shapes
+// ============================================
+
+import { CapoOption, CapoShape, Tuning } from '@/types';
+import { normalizeChord } from '@/utils/chord';
+import {
+  transposeChord,
+  detectKey,
+  resolveUseFlats,
+} from '@/utils/transpose';
+import {
+  STANDARD_TUNING,
+  getShapeKey,
+  getShapeShift,
+  describeShapes,
+} from '@/utils/tuning';
+import { getChordDifficulty } from '@/utils/difficulty';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const MAX_CAPO = 9;
+
+// High capo positions cramp the hand and change the tone
+const HIGH_CAPO_THRESHOLD = 5;
+const HIGH_CAPO_COST = 0.25;
+
+// ----------------------
+// Capo Options
+// ----------------------
+
+/**
+ * Work out the shapes for one capo position in a tuning
+ */
+function getCapoShapes(
+  uniqueChords: string[],
+  capo: number,
+  shapeKey: string,
+  tuning: Tuning
+): Array<CapoShape & { score: number }> {
+  const useFlats = resolveUseFlats(0, { targetKey: shapeKey });
+  const shift = capo + getShapeShift(tuning);
+
+  return uniqueChords.map(sounding => {
+    const shape = shift === 0 ? sounding : transposeChord(sounding, -shift, useFlats);
+    // Fretted behind the capo, the chord sounds a capo's worth lower in the tuning
+    const { score, diagram } = getChordDifficulty(transposeChord(sounding, -capo), tuning);
+    return {
+      sounding,
+      shape,
+      barre: !diagram || !!diagram.barred,
+      score,
+    };
+  });
+}
+
+/**
+ * Rate every capo position (0-9) for a song's chords, easiest first
+ */
+export function suggestCapoPositions(
+  chords: string[],
+  songKey?: string,
+  tuning: Tuning = STANDARD_TUNING
+): CapoOption[] {
+  if (chords.length === 0) {
+    return [];
+  }
+
+  const key = songKey ?? detectKey(chords).detectedKey;
+  const normalized = chords.map(normalizeChord);
+  const uniqueChords = Array.from(new Set(normalized));
+
+  // Count occurrences so frequent chords weigh more
+  const counts = new Map<string, number>();
+  normalized.forEach(chord => counts.set(chord, (counts.get(chord) ?? 0) + 1));
+
+  const options: CapoOption[] = [];
+  let openBarres = 0;
+
+  for (let capo = 0; capo <= MAX_CAPO; capo++) {
+    const shapeKey = getShapeKey(key, capo, tuning);
+    const shapes = getCapoShapes(uniqueChords, capo, shapeKey, tuning);
+    const barreChords = shapes.filter(s => s.barre).length;
+    if (capo === 0) openBarres = barreChords;
+
+    const cost = shapes.reduce(
+      (total, s) => total + s.score * (counts.get(s.sounding) ?? 1),
+      0
+    );
+    const capoCost = Math.max(0, capo - HIGH_CAPO_THRESHOLD) * HIGH_CAPO_COST;
+    const difficulty = Math.round((cost / normalized.length + capoCost) * 100) / 100;
+
+    options.push({
+      key: shapeKey,
+      capo,
+      difficulty,
+      reason: describeShapes(shapeKey, capo, tuning),
+      shapes: shapes.map(({ score: _score, ...shape }) => shape),
+      barreChords,
+      barreChordsRemoved: openBarres - barreChords,
+    });
+  }
+
+  return options.sort((a, b) => a.difficulty - b.difficulty || a.capo - b.capo);
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  suggestCapoPositions,
+};
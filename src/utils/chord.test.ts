@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { formatChord, getChordIntervals, isChord, normalizeChord, parseChord } from '@/utils/chord';
+
+describe('parseChord', () => {
+  it('reads a chord into its parts', () => {
+    expect(parseChord('F#m7b5/E')).toEqual({
+      root: 'F#',
+      quality: 'minor',
+      seventh: 'minor',
+      extension: 7,
+      alterations: [{ degree: 5, accidental: 'b' }],
+      added: [],
+      omissions: [],
+      bass: 'E',
+    });
+  });
+
+  it('reads half-diminished as the m7b5 it stands for', () => {
+    expect(parseChord('Cø')).toEqual(parseChord('Cm7b5'));
+    expect(parseChord('Cø7')).toEqual(parseChord('Cm7b5'));
+  });
+
+  it('tells 6/9 from a slash chord', () => {
+    expect(parseChord('C6/9')).toMatchObject({ extension: 6, added: [{ degree: 9 }], bass: undefined });
+    expect(parseChord('C6/9/E')).toMatchObject({ extension: 6, bass: 'E' });
+  });
+
+  it('rejects text that is not a chord', () => {
+    expect(parseChord('H')).toBeNull();
+    expect(parseChord('Cx')).toBeNull();
+    expect(parseChord('Cmsus4')).toBeNull();
+    expect(isChord('N.C.')).toBe(true);
+  });
+});
+
+describe('formatChord', () => {
+  it('prints every canonical chord back as written', () => {
+    const chords = [
+      'C', 'Am', 'F#m7', 'Bbmaj7', 'CmMaj7', 'Cdim', 'Cdim7', 'Caug', 'Caug7', 'C5', 'Csus2', 'C7sus4',
+      'C6', 'C6/9', 'C9', 'C13', 'Cm11', 'C7b9#11', 'Cadd9', 'Cadd2', 'Cno3', 'Cm7b5', 'G/B', 'D/F#',
+    ];
+    for (const chord of chords) {
+      const parsed = parseChord(chord);
+      expect(parsed && formatChord(parsed)).toBe(chord);
+    }
+  });
+
+  it('spells other ways of writing a chord canonically', () => {
+    expect(normalizeChord('CM7')).toBe('Cmaj7');
+    expect(normalizeChord('CΔ')).toBe('Cmaj7');
+    expect(normalizeChord('C-7')).toBe('Cm7');
+    expect(normalizeChord('Cm(maj7)')).toBe('CmMaj7');
+    expect(normalizeChord('C°')).toBe('Cdim');
+    expect(normalizeChord('C+')).toBe('Caug');
+    expect(normalizeChord('C69')).toBe('C6/9');
+    expect(normalizeChord('Csus')).toBe('Csus4');
+    expect(normalizeChord('C7(b9,#11)')).toBe('C7b9#11');
+    expect(normalizeChord('F♯m')).toBe('F#m');
+    expect(normalizeChord('Cø')).toBe('Cm7b5');
+  });
+});
+
+describe('getChordIntervals', () => {
+  it('stacks the tones of a chord above its root', () => {
+    const intervals = (chord: string) => getChordIntervals(parseChord(chord)!);
+    expect(intervals('C')).toEqual([0, 4, 7]);
+    expect(intervals('Cm7b5')).toEqual([0, 3, 6, 10]);
+    expect(intervals('Cdim7')).toEqual([0, 3, 6, 9]);
+    expect(intervals('C13')).toEqual([0, 4, 7, 10, 14, 21]);
+    expect(intervals('C7#9')).toEqual([0, 4, 7, 10, 15]);
+    expect(intervals('Cno3')).toEqual([0, 7]);
+  });
+});
@@ -0,0 +1,414 @@
+// ============================================
+// Chord Symbol Grammar
+// Parses chord symbols into a typed structure and prints them back
+// Supports: triads, 6/7/9/11/13, alterations, add, sus, no, slash, N.C.
+// ============================================
+
+import { Accidental, ChordExtension, ChordSymbol, ChordTone } from '@/types';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const NO_CHORD = 'N.C.';
+
+const NOTE_PATTERN = /^([A-G])([#b♯♭]?)/;
+
+const NATURAL_PITCH_CLASSES: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11,
+};
+
+// Semitones above the root for each scale degree (unaltered)
+const DEGREE_SEMITONES: Record<number, number> = {
+  1: 0, 2: 2, 3: 4, 4: 5, 5: 7, 6: 9, 7: 11, 9: 14, 11: 17, 13: 21,
+};
+
+const TRIAD_INTERVALS: Record<ChordSymbol['quality'], number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  diminished: [0, 3, 6],
+  augmented: [0, 4, 8],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  power: [0, 7],
+};
+
+const SEVENTH_INTERVALS: Record<NonNullable<ChordSymbol['seventh']>, number> = {
+  minor: 10,
+  major: 11,
+  diminished: 9,
+};
+
+const ALTERABLE_DEGREES = [5, 9, 11, 13];
+const ADDABLE_DEGREES = [2, 4, 6, 9, 11, 13];
+
+// ----------------------
+// Note Helpers
+// ----------------------
+
+/**
+ * Normalize unicode accidentals to ASCII (F♯ -> F#, B♭ -> Bb)
+ */
+export function normalizeNote(note: string): string {
+  return note.replace('♯', '#').replace('♭', 'b');
+}
+
+/**
+ * Check if a string is a single note name
+ */
+export function isNote(text: string): boolean {
+  const match = text.match(NOTE_PATTERN);
+  return !!match && match[0].length === text.length;
+}
+
+/**
+ * Get the pitch class (0-11) of a note name
+ */
+export function getPitchClass(note: string): number {
+  const match = note.match(NOTE_PATTERN);
+  if (!match || match[0].length !== note.length) {
+    throw new Error(`Invalid note: ${note}`);
+  }
+
+  const accidental = normalizeNote(match[2]);
+  const offset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return (NATURAL_PITCH_CLASSES[match[1]] + offset + 12) % 12;
+}
+
+// ----------------------
+// Parsing
+// ----------------------
+
+/**
+ * Check if text is a "no chord" marker (N.C., NC)
+ */
+export function isNoChord(text: string): boolean {
+  return /^N\.?C\.?$/i.test(text.trim());
+}
+
+/**
+ * Parse a chord symbol into its typed structure.
+ * Returns null when the text is not a valid chord symbol.
+ */
+export function parseChord(text: string): ChordSymbol | null {
+  const chord = text.trim();
+  const rootMatch = chord.match(NOTE_PATTERN);
+  if (!rootMatch) return null;
+
+  // Split off a slash bass (6/9 is not a slash chord)
+  let body = chord.slice(rootMatch[0].length);
+  let bass: string | undefined;
+  const slashIndex = body.lastIndexOf('/');
+  if (slashIndex !== -1 && isNote(body.slice(slashIndex + 1))) {
+    bass = normalizeNote(body.slice(slashIndex + 1));
+    body = body.slice(0, slashIndex);
+  }
+
+  const symbol: ChordSymbol = {
+    root: normalizeNote(rootMatch[0]),
+    quality: 'major',
+    alterations: [],
+    added: [],
+    omissions: [],
+    bass,
+  };
+
+  return parseSuffix(body, symbol) ? symbol : null;
+}
+
+/**
+ * Check if a string is a chord symbol (including N.C.)
+ */
+export function isChord(text: string): boolean {
+  return isNoChord(text) || parseChord(text) !== null;
+}
+
+/**
+ * Parse the part of a chord symbol after the root.
+ * Mutates the symbol and returns false on unknown tokens.
+ */
+function parseSuffix(suffix: string, symbol: ChordSymbol): boolean {
+  const reader = createReader(suffix);
+  let majorSeventh = false;
+
+  // Quality prefix
+  if (reader.take('ø')) {
+    // Half-diminished is read as the m7b5 it stands for
+    symbol.quality = 'minor';
+    symbol.seventh = 'minor';
+    symbol.extension = 7;
+    symbol.alterations.push({ degree: 5, accidental: 'b' });
+  } else if (reader.take('mMaj', 'mmaj', 'minMaj', 'mM', '-Maj', '-M')) {
+    symbol.quality = 'minor';
+    majorSeventh = true;
+  } else if (reader.take('maj', 'Maj', 'M', 'Δ')) {
+    majorSeventh = true;
+  } else if (reader.take('min', 'mi', 'm', '-')) {
+    symbol.quality = 'minor';
+    if (reader.take('(maj', '(Maj', '(M')) {
+      majorSeventh = true;
+    }
+  } else if (reader.take('dim', '°') || (!reader.rest().startsWith('omit') && reader.take('o'))) {
+    symbol.quality = 'diminished';
+  } else if (reader.take('aug', '+')) {
+    symbol.quality = 'augmented';
+  } else if (/^5(?![0-9])/.test(reader.rest())) {
+    reader.advance(1);
+    symbol.quality = 'power';
+    return reader.done();
+  }
+
+  // Extension (6, 6/9, 69, 7, 9, 11, 13)
+  const extension = reader.takeNumber([13, 11, 9, 7, 6]);
+  if (extension === 6) {
+    symbol.extension = 6;
+    if (reader.take('/9', '9')) {
+      symbol.added.push({ degree: 9 });
+    }
+  } else if (extension !== null) {
+    symbol.extension = extension as ChordExtension;
+    if (symbol.seventh === undefined) {
+      symbol.seventh = majorSeventh
+        ? 'major'
+        : symbol.quality === 'diminished' ? 'diminished' : 'minor';
+    }
+  } else if (majorSeventh && (symbol.quality === 'minor' || suffix.startsWith('Δ'))) {
+    // CmM and CΔ without a number mean mMaj7 and maj7
+    symbol.seventh = 'major';
+    symbol.extension = 7;
+  } else if (reader.takeNumber([2]) !== null) {
+    // C2 is shorthand for Cadd2
+    symbol.added.push({ degree: 2 });
+  }
+
+  // Modifiers: sus, add, no/omit, alterations
+  while (!reader.done()) {
+    if (reader.take('(', ')', ',', ' ')) continue;
+
+    if (reader.take('sus')) {
+      if (symbol.quality !== 'major') return false;
+      const degree = reader.takeNumber([2, 4]);
+      symbol.quality = degree === 2 ? 'sus2' : 'sus4';
+      continue;
+    }
+
+    if (reader.take('add')) {
+      const accidental = reader.takeAccidental();
+      const degree = reader.takeNumber(ADDABLE_DEGREES);
+      if (degree === null) return false;
+      symbol.added.push(accidental ? { degree, accidental } : { degree });
+      continue;
+    }
+
+    if (reader.take('no', 'omit')) {
+      const degree = reader.takeNumber([3, 5]);
+      if (degree === null) return false;
+      symbol.omissions.push(degree);
+      continue;
+    }
+
+    const accidental = reader.takeAccidental();
+    if (accidental) {
+      const degree = reader.takeNumber(ALTERABLE_DEGREES);
+      if (degree === null) return false;
+      symbol.alterations.push({ degree, accidental });
+      continue;
+    }
+
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Minimal cursor over a chord suffix
+ */
+function createReader(input: string) {
+  let position = 0;
+
+  const rest = () => input.slice(position);
+
+  return {
+    rest,
+    done: () => position >= input.length,
+    advance: (count: number) => {
+      position += count;
+    },
+    take: (...tokens: string[]): boolean => {
+      const token = tokens.find(t => rest().startsWith(t));
+      if (token === undefined) return false;
+      position += token.length;
+      return true;
+    },
+    takeNumber: (allowed: number[]): number | null => {
+      const match = rest().match(/^\d+/);
+      if (!match) return null;
+      // Prefer the longest allowed number (so "13" is not read as "1")
+      const value = allowed
+        .map(String)
+        .sort((a, b) => b.length - a.length)
+        .find(n => match[0].startsWith(n));
+      if (value === undefined) return null;
+      position += value.length;
+      return parseInt(value, 10);
+    },
+    takeAccidental: (): Accidental | undefined => {
+      const char = input[position];
+      if (char === 'b' || char === '♭' || char === '-') {
+        position += 1;
+        return 'b';
+      }
+      if (char === '#' || char === '♯' || char === '+') {
+        position += 1;
+        return '#';
+      }
+      return undefined;
+    },
+  };
+}
+
+// ----------------------
+// Printing
+// ----------------------
+
+/**
+ * Format a single chord tone (b9, #11, 9)
+ */
+function formatTone(tone: ChordTone): string {
+  return `${tone.accidental ?? ''}${tone.degree}`;
+}
+
+/**
+ * Print a chord symbol in canonical form
+ */
+export function formatChord(symbol: ChordSymbol): string {
+  const { quality, seventh, extension } = symbol;
+  const alterations = [...symbol.alterations];
+  let added = [...symbol.added];
+  let body = '';
+
+  if (quality === 'power') {
+    body = '5';
+  } else {
+    if (quality === 'minor') body = 'm';
+    if (quality === 'diminished') body = 'dim';
+    if (quality === 'augmented') body = 'aug';
+
+    if (extension === 6) {
+      body += '6';
+      if (added.some(t => t.degree === 9 && !t.accidental)) {
+        body += '/9';
+        added = added.filter(t => t.degree !== 9 || t.accidental);
+      }
+    } else if (extension !== undefined) {
+      if (seventh === 'major') body += quality === 'minor' ? 'Maj' : 'maj';
+      body += extension;
+    }
+
+    if (quality === 'sus2' || quality === 'sus4') {
+      body += quality;
+    }
+  }
+
+  body += alterations
+    .sort((a, b) => a.degree - b.degree)
+    .map(formatTone)
+    .join('');
+  body += added.map(t => `add${formatTone(t)}`).join('');
+  body += symbol.omissions.map(d => `no${d}`).join('');
+
+  return `${symbol.root}${body}${symbol.bass ? `/${symbol.bass}` : ''}`;
+}
+
+/**
+ * Normalize a chord string to its canonical spelling (CM7 -> Cmaj7)
+ */
+export function normalizeChord(text: string): string {
+  if (isNoChord(text)) return NO_CHORD;
+  const symbol = parseChord(text);
+  return symbol ? formatChord(symbol) : text;
+}
+
+// ----------------------
+// Intervals
+// ----------------------
+
+/**
+ * Semitone offset of a chord tone above the root
+ */
+function getToneSemitones(tone: ChordTone): number {
+  const base = DEGREE_SEMITONES[tone.degree] ?? 0;
+  return base + (tone.accidental === '#' ? 1 : tone.accidental === 'b' ? -1 : 0);
+}
+
+/**
+ * Get the intervals (semitones above the root) of a chord.
+ * Extensions keep their compound value (9th = 14).
+ */
+export function getChordIntervals(symbol: ChordSymbol): number[] {
+  const intervals = new Set(TRIAD_INTERVALS[symbol.quality]);
+  const { extension, seventh } = symbol;
+
+  if (extension === 6) {
+    intervals.add(9);
+  } else if (extension !== undefined && seventh) {
+    intervals.add(SEVENTH_INTERVALS[seventh]);
+    if (extension >= 9) intervals.add(14);
+    if (extension === 11 || (extension === 13 && symbol.quality === 'minor')) {
+      intervals.add(17);
+    }
+    if (extension === 13) intervals.add(21);
+  }
+
+  for (const alteration of symbol.alterations) {
+    const natural = DEGREE_SEMITONES[alteration.degree];
+    if (alteration.degree === 5) {
+      intervals.delete(6);
+      intervals.delete(7);
+      intervals.delete(8);
+    } else {
+      intervals.delete(natural);
+    }
+    intervals.add(getToneSemitones(alteration));
+  }
+
+  for (const tone of symbol.added) {
+    intervals.add(getToneSemitones(tone));
+  }
+
+  for (const degree of symbol.omissions) {
+    const removed = degree === 3 ? [3, 4] : [6, 7, 8];
+    removed.forEach(i => intervals.delete(i));
+  }
+
+  return Array.from(intervals).sort((a, b) => a - b);
+}
+
+/**
+ * Intervals a voicing may leave out: the perfect fifth
+ * and inner extensions (9 of an 11, 9 and 11 of a 13)
+ */
+export function getOptionalIntervals(symbol: ChordSymbol): number[] {
+  const optional: number[] = [];
+  if (symbol.quality !== 'power') optional.push(7);
+  if (symbol.extension === 11) optional.push(14);
+  if (symbol.extension === 13) optional.push(14, 17);
+  return optional;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  parseChord,
+  formatChord,
+  normalizeChord,
+  getChordIntervals,
+  getOptionalIntervals,
+  isChord,
+  isNoChord,
+  isNote,
+  getPitchClass,
+};
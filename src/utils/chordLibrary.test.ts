@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getChordCategories, getChordFromSlug, getChordSlug } from '@/utils/chordLibrary';
+
+const category = (name: string) => getChordCategories().find(c => c.name === name)!;
+
+describe('getChordCategories', () => {
+  it('rates categories from easiest to hardest chord types', () => {
+    const major = category('Major Chords');
+    const seventh = category('7th Chords');
+    const augmented = category('Augmented');
+
+    expect(major.score).toBeLessThan(seventh.score);
+    expect(seventh.score).toBeLessThan(augmented.score);
+  });
+
+  it('gives each category its level', () => {
+    expect(Object.fromEntries(getChordCategories().map(c => [c.name, c.difficulty]))).toEqual({
+      'Major Chords': 'beginner',
+      'Minor Chords': 'beginner',
+      '7th Chords': 'intermediate',
+      'Major 7th': 'intermediate',
+      'Minor 7th': 'intermediate',
+      'Suspended': 'beginner',
+      'Diminished': 'advanced',
+      'Augmented': 'advanced',
+      'Add & Special': 'intermediate',
+    });
+  });
+
+  it('builds the categories once', () => {
+    expect(getChordCategories()).toBe(getChordCategories());
+  });
+});
+
+describe('chord slugs', () => {
+  it('reads back every slug it writes', () => {
+    for (const chord of ['C', 'Am', 'F#', 'C#m7', 'Bb', 'Am7b5', 'G/B', 'D/F#', 'C#m7/G#', 'Bb/D']) {
+      expect(getChordFromSlug(getChordSlug(chord))).toBe(chord);
+    }
+  });
+
+  it('reads lower-case slash chord slugs', () => {
+    expect(getChordFromSlug('g-over-b')).toBe('G/B');
+    expect(getChordFromSlug('d-over-f-sharp')).toBe('D/F#');
+    expect(getChordFromSlug('bb-over-d')).toBe('Bb/D');
+  });
+});
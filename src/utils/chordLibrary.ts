@@ -0,0 +1,174 @@
+// ============================================
+// Chord Library
+// Chord reference entries built from the chord grammar
+// ============================================
+
+import { ChordCategory, ChordLibraryEntry, Tuning } from '@/types';
+import { parseChord, formatChord, getChordIntervals } from '@/utils/chord';
+import { getChordFamily } from '@/utils/transpose';
+import { getChordDifficulty } from '@/utils/difficulty';
+import { STANDARD_TUNING } from '@/utils/tuning';
+import { generateVoicings, getDifficultyLevel } from '@/utils/voicing';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const ALL_ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const NATURAL_ROOTS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// Added to a category's playing score for what there is to learn
+const THEORY_COST = {
+  extraTone: 1, // Per tone beyond a triad
+  // Diminished or augmented fifth: symmetric chords that repeat up the neck
+  // and rarely sit in a key, so they are rated advanced however few fingers
+  alteredFifth: 4.5,
+};
+
+// Built on first use, since rating them runs the voicing search
+let chordCategories: ChordCategory[] | null = null;
+
+// ----------------------
+// Library Entries
+// ----------------------
+
+/**
+ * Build a library entry for a chord symbol, with voicings for a tuning.
+ * Returns null when the symbol cannot be parsed.
+ */
+export function getChordLibraryEntry(
+  chord: string,
+  tuning: Tuning = STANDARD_TUNING
+): ChordLibraryEntry | null {
+  const parsed = parseChord(chord);
+  if (!parsed) return null;
+
+  const name = formatChord(parsed);
+  const diagrams = generateVoicings(parsed, tuning);
+  return {
+    name,
+    family: getChordFamily(name),
+    intervals: getChordIntervals(parsed),
+    diagrams,
+    beginnerFriendly: diagrams[0]?.difficulty === 'beginner',
+  };
+}
+
+/**
+ * Build library entries for a list of chord symbols, skipping invalid ones
+ */
+function buildEntries(chords: string[]): ChordLibraryEntry[] {
+  return chords
+    .map(chord => getChordLibraryEntry(chord))
+    .filter((entry): entry is ChordLibraryEntry => entry !== null);
+}
+
+/**
+ * Chord type of a chord: its name without the root (m7, sus4...)
+ */
+function getChordSuffix(chord: string): string | null {
+  const parsed = parseChord(chord);
+  return parsed ? formatChord({ ...parsed, bass: undefined }).slice(parsed.root.length) : null;
+}
+
+/**
+ * Score of a chord type: its easiest voicing on every natural root, so
+ * categories listing different roots compare alike, plus its theory cost
+ */
+function scoreChordType(suffix: string): number {
+  const parsed = parseChord(`C${suffix}`);
+  if (!parsed) return Infinity;
+
+  const intervals = getChordIntervals(parsed);
+  const extraTones = Math.max(0, intervals.length - 3);
+  const alteredFifth = !intervals.includes(7) && (intervals.includes(6) || intervals.includes(8));
+  const playing = NATURAL_ROOTS
+    .map(root => getChordDifficulty(`${root}${suffix}`).score)
+    .reduce((sum, score) => sum + score, 0) / NATURAL_ROOTS.length;
+
+  return playing + extraTones * THEORY_COST.extraTone + (alteredFifth ? THEORY_COST.alteredFifth : 0);
+}
+
+/**
+ * Build a category, rated from the average score of the chord types it lists
+ * (expert categories count as advanced)
+ */
+function buildCategory(name: string, chords: string[]): ChordCategory {
+  const entries = buildEntries(chords);
+  const scores = Array.from(new Set(
+    chords.map(getChordSuffix).filter((suffix): suffix is string => suffix !== null)
+  )).map(scoreChordType);
+  const score = scores.length > 0
+    ? Math.round((scores.reduce((sum, s) => sum + s, 0) / scores.length) * 100) / 100
+    : Infinity;
+  const level = getDifficultyLevel(score);
+
+  return { name, chords: entries, score, difficulty: level === 'expert' ? 'advanced' : level };
+}
+
+/**
+ * Combine roots with a chord suffix (maj7, sus4...)
+ */
+function withSuffix(roots: string[], suffix: string): string[] {
+  return roots.map(root => `${root}${suffix}`);
+}
+
+// ----------------------
+// Slugs
+// ----------------------
+
+/**
+ * URL slug of a chord for its detail page (C#m7 -> C-sharpm7, G/B -> G-over-B)
+ */
+export function getChordSlug(chord: string): string {
+  return encodeURIComponent(chord.replace(/#/g, '-sharp').replace(/\//g, '-over-'));
+}
+
+/**
+ * Chord name from a detail page slug, or null when it is not a chord.
+ * Also reads older lower-case slugs (am, c-sharpm7, g-over-b).
+ */
+export function getChordFromSlug(slug: string): string | null {
+  const text = decodeURIComponent(slug)
+    .replace(/-sharp/gi, '#')
+    .replace(/-over-/gi, '/')
+    // Root and slash bass letters
+    .replace(/(^|\/)([a-g])/g, (_, start: string, letter: string) => start + letter.toUpperCase());
+  const parsed = parseChord(text);
+  return parsed ? formatChord(parsed) : null;
+}
+
+// ----------------------
+// Categories
+// ----------------------
+
+/**
+ * Chord library categories, each rated beginner to advanced
+ */
+export function getChordCategories(): ChordCategory[] {
+  if (!chordCategories) {
+    chordCategories = [
+      buildCategory('Major Chords', withSuffix(ALL_ROOTS, '')),
+      buildCategory('Minor Chords', withSuffix(ALL_ROOTS, 'm')),
+      buildCategory('7th Chords', withSuffix(NATURAL_ROOTS, '7')),
+      buildCategory('Major 7th', withSuffix(NATURAL_ROOTS, 'maj7')),
+      buildCategory('Minor 7th', withSuffix(NATURAL_ROOTS, 'm7')),
+      buildCategory('Suspended', ['Csus2', 'Csus4', 'Dsus2', 'Dsus4', 'Esus2', 'Esus4', 'Gsus4', 'Asus2', 'Asus4']),
+      buildCategory('Diminished', withSuffix(NATURAL_ROOTS, 'dim')),
+      buildCategory('Augmented', withSuffix(NATURAL_ROOTS, 'aug')),
+      buildCategory('Add & Special', ['Cadd9', 'Dadd9', 'Gadd9', 'Gadd2', 'C6/9', 'Cmaj9', 'E7#9', 'F#m7b5']),
+    ];
+  }
+  return chordCategories;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getChordCategories,
+  getChordLibraryEntry,
+  getChordSlug,
+  getChordFromSlug,
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  anchorInlineChords,
+  inlineChordLines,
+  parseChordLine,
+  placeChords,
+  rewriteChordLine,
+  rewriteLyricsChords,
+} from '@/utils/chordLine';
+import { transposeLyrics } from '@/utils/transpose';
+
+describe('parseChordLine', () => {
+  it('reads chords with their columns, past bar lines and repeat marks', () => {
+    expect(parseChordLine('| Am    (F) |  C  x2')).toEqual([
+      { chord: 'Am', column: 2 },
+      { chord: 'F', column: 9 },
+      { chord: 'C', column: 15 },
+    ]);
+  });
+
+  it('leaves lyric lines, headers and tab string lines alone', () => {
+    expect(parseChordLine('A day in the life')).toBeNull();
+    expect(parseChordLine('[Verse 1]')).toBeNull();
+    expect(parseChordLine('G|--3--|')).toBeNull();
+    expect(parseChordLine('   ')).toBeNull();
+  });
+});
+
+describe('rewriteChordLine', () => {
+  it('keeps each chord in its column', () => {
+    expect(rewriteChordLine('C       G    Am', chord => chord.toLowerCase())).toBe('c       g    am');
+    expect(rewriteChordLine('C       G    Am', chord => `${chord}7`)).toBe('C7      G7   Am7');
+  });
+
+  it('moves a chord that would touch the one before it right by a space', () => {
+    expect(rewriteChordLine('C G', chord => `${chord}maj7`)).toBe('Cmaj7 Gmaj7');
+  });
+
+  it('returns lyric lines unchanged', () => {
+    expect(rewriteChordLine('Hello Dolly', () => 'X')).toBe('Hello Dolly');
+  });
+});
+
+describe('transposeLyrics', () => {
+  it('keeps chord lines over the syllables they were written over', () => {
+    const sheet = '[Verse 1]\nC         Am\nSomewhere over the\n[F]Way up [G]high';
+    expect(transposeLyrics(sheet, 2)).toBe('[Verse 1]\nD         Bm\nSomewhere over the\n[G]Way up [A]high');
+  });
+
+  it('rewrites bracketed chords and leaves headers', () => {
+    expect(rewriteLyricsChords('[Chorus]\n[Am]Hey', chord => `${chord}7`)).toBe('[Chorus]\n[Am7]Hey');
+  });
+});
+
+describe('inline chords', () => {
+  it('merges a chord line into the lyrics under it and reads it back at the same columns', () => {
+    const inline = inlineChordLines('C     G\nHello world\nAm\n\n[F]Bye');
+    expect(inline).toBe('[C]Hello [G]world\n[Am]\n\n[F]Bye');
+    expect(anchorInlineChords('[C]Hello [G]world')).toEqual({
+      lyrics: 'Hello world',
+      chords: [{ chord: 'C', column: 0 }, { chord: 'G', column: 6 }],
+    });
+  });
+
+  it('pads lyrics so a chord past their end keeps its column', () => {
+    expect(placeChords({ lyrics: 'Oh', chords: [{ chord: 'G', column: 4 }] })).toBe('Oh  [G]');
+  });
+});
@@ -0,0 +1,238 @@
+// ============================================
+// Chord Lines
+// Detects chord-only lines of chords-over-lyrics sheets
+// and rewrites them while keeping chords above their syllables
+// ============================================
+
+import { AnchoredLine, ChordPosition, LyricSegment } from '@/types';
+import { isChord } from '@/utils/chord';
+import { isTabLine } from '@/utils/tablature';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// Bar lines, repeat marks and rhythm slashes allowed between chords
+const DECORATION_PATTERN = /^(\|+:?|:?\|+|\/+|-+|%|\.+|\*|\(?x\d+\)?)$/i;
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Split a token into an optional parenthesis wrapper and its content: (Am) -> ( Am )
+ */
+function splitToken(token: string): { prefix: string; content: string; suffix: string } {
+  const match = token.match(/^(\(?)(.*?)(\)?)$/) as RegExpMatchArray;
+  return { prefix: match[1], content: match[2], suffix: match[3] };
+}
+
+// ----------------------
+// Detection
+// ----------------------
+
+/**
+ * Read the chords of a chord-only line with their columns.
+ * Returns null for lyric lines, bracketed lines, blank lines and tab
+ * string lines (G|--3--- is not a G chord).
+ */
+export function parseChordLine(line: string): ChordPosition[] | null {
+  if (line.includes('[') || isTabLine(line)) return null;
+
+  const positions: ChordPosition[] = [];
+  for (const match of Array.from(line.matchAll(/\S+/g))) {
+    const { prefix, content } = splitToken(match[0]);
+    if (isChord(content)) {
+      positions.push({ chord: content, column: (match.index ?? 0) + prefix.length });
+    } else if (!DECORATION_PATTERN.test(match[0])) {
+      return null;
+    }
+  }
+
+  return positions.length > 0 ? positions : null;
+}
+
+/**
+ * Check if a line holds only chords (and bar lines)
+ */
+export function isChordLine(line: string): boolean {
+  return parseChordLine(line) !== null;
+}
+
+// ----------------------
+// Segmenting
+// ----------------------
+
+/**
+ * Split a line into display runs, rewriting each chord on the way
+ * (transpose, notation...). Chord runs keep the original symbol so a
+ * tapped chord can be looked up whatever notation is shown.
+ * On chord lines chords keep their original column so they stay above the
+ * same syllable; a chord that grew pushes the next one right by a single
+ * space at most. Bracketed chords (Love [Am]me) keep their brackets and
+ * section headers like [Verse 1] stay plain text.
+ */
+export function segmentLyricsLine(
+  line: string,
+  rewrite: (chord: string) => string = chord => chord
+): LyricSegment[] {
+  const segments: LyricSegment[] = [];
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.chord === undefined) {
+      last.text += text;
+    } else {
+      segments.push({ text });
+    }
+  };
+
+  if (isChordLine(line)) {
+    let length = 0;
+    for (const match of Array.from(line.matchAll(/\S+/g))) {
+      const column = match.index ?? 0;
+      const start = length === 0 ? column : Math.max(column, length + 1);
+      pushText(' '.repeat(start - length));
+
+      const { prefix, content, suffix } = splitToken(match[0]);
+      if (isChord(content)) {
+        const text = rewrite(content);
+        pushText(prefix);
+        segments.push({ text, chord: content });
+        pushText(suffix);
+        length = start + prefix.length + text.length + suffix.length;
+      } else {
+        pushText(match[0]);
+        length = start + match[0].length;
+      }
+    }
+    return segments;
+  }
+
+  let index = 0;
+  for (const match of Array.from(line.matchAll(/\[([^\]\n]+)\]/g))) {
+    if (!isChord(match[1])) continue;
+    const position = match.index ?? 0;
+    pushText(line.slice(index, position));
+    segments.push({ text: `[${rewrite(match[1])}]`, chord: match[1] });
+    index = position + match[0].length;
+  }
+  pushText(line.slice(index));
+  return segments;
+}
+
+// ----------------------
+// Rewriting
+// ----------------------
+
+/**
+ * Rewrite each chord of a chord-only line, keeping columns as
+ * segmentLyricsLine does. Lyric lines are returned unchanged.
+ */
+export function rewriteChordLine(line: string, rewrite: (chord: string) => string): string {
+  if (!isChordLine(line)) return line;
+  return segmentLyricsLine(line, rewrite).map(segment => segment.text).join('');
+}
+
+/**
+ * Rewrite every chord of a lyrics sheet: chord lines above the lyrics
+ * and bracketed chords (Love [Am]me [G]tender).
+ * Section headers like [Verse 1] are not chords and stay as they are.
+ */
+export function rewriteLyricsChords(lyrics: string, rewrite: (chord: string) => string): string {
+  return lyrics
+    .split('\n')
+    .map(line => segmentLyricsLine(line, rewrite).map(segment => segment.text).join(''))
+    .join('\n');
+}
+
+// ----------------------
+// Inline Chords
+// ----------------------
+
+/**
+ * Write chords into lyrics as brackets at their offsets. Lyrics shorter
+ * than the last offset are padded so late chords keep their place.
+ */
+export function placeChords({ lyrics, chords }: AnchoredLine): string {
+  if (chords.length === 0) return lyrics;
+
+  const sorted = [...chords].sort((a, b) => a.column - b.column);
+  let placed = lyrics.padEnd(sorted[sorted.length - 1].column);
+  for (const { chord, column } of sorted.reverse()) {
+    placed = `${placed.slice(0, column)}[${chord}]${placed.slice(column)}`;
+  }
+  return placed.trimEnd();
+}
+
+/**
+ * Take bracketed chords out of a line, anchoring each at its offset in the
+ * remaining lyrics: "Love [Am]me" -> "Love me" with Am at 5.
+ * Section headers like [Verse 1] stay in the lyrics.
+ */
+export function anchorInlineChords(line: string): AnchoredLine {
+  const chords: ChordPosition[] = [];
+  let lyrics = '';
+  let index = 0;
+
+  for (const match of Array.from(line.matchAll(/\[([^\]\n]+)\]/g))) {
+    if (!isChord(match[1])) continue;
+    const position = match.index ?? 0;
+    lyrics += line.slice(index, position);
+    chords.push({ chord: match[1], column: lyrics.length });
+    index = position + match[0].length;
+  }
+
+  return { lyrics: (lyrics + line.slice(index)).trimEnd(), chords };
+}
+
+/**
+ * Put the chords of a chord line into the lyric line below it, bracketed at
+ * their columns: "C     G" over "Hello world" -> "[C]Hello [G]world"
+ */
+export function mergeChordLine(chordLine: string, lyricLine: string): string {
+  const positions = parseChordLine(chordLine);
+  return positions ? placeChords({ lyrics: lyricLine, chords: positions }) : lyricLine;
+}
+
+/**
+ * Turn a chords-over-lyrics sheet into inline chords: each chord line is
+ * merged into the lyric line below it, or bracketed on its own line
+ * when no lyrics follow (instrumental bars, or a tab below)
+ */
+export function inlineChordLines(lyrics: string): string {
+  const lines = lyrics.split('\n');
+  const result: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!isChordLine(line)) {
+      result.push(line);
+      continue;
+    }
+
+    const next = lines[i + 1];
+    const hasLyrics = next !== undefined && next.trim() !== '' && !isChordLine(next) &&
+      !next.includes('[') && !isTabLine(next);
+    result.push(mergeChordLine(line, hasLyrics ? next : ''));
+    if (hasLyrics) i++;
+  }
+
+  return result.join('\n');
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  parseChordLine,
+  isChordLine,
+  segmentLyricsLine,
+  rewriteChordLine,
+  rewriteLyricsChords,
+  placeChords,
+  anchorInlineChords,
+  mergeChordLine,
+  inlineChordLines,
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseChordSheet } from '@/utils/chordSheet';
+
+const SHEET = `Wonderwall - Oasis
+Capo: 2
+Key: Em
+
+[Verse 1]
+Em7        G
+Today is gonna be the day
+Dsus4   A7sus4
+
+[Chorus]
+C    D    Em
+And all the roads
+
+[Verse 2]
+Em7  G
+Back beat
+[Chorus]
+%%% @@
+Am  G  Fxx9
+`;
+
+describe('parseChordSheet', () => {
+  it('reads the title line and song details', () => {
+    const { song } = parseChordSheet(SHEET);
+    expect(song.metadata).toMatchObject({ title: 'Wonderwall', artist: 'Oasis', capo: 2 });
+    expect(song.originalKey).toBe('Em');
+  });
+
+  it('anchors each chord to the column of the lyric line under it', () => {
+    const { lines } = parseChordSheet(SHEET);
+    expect(lines[0]).toEqual([
+      { lyrics: 'Today is gonna be the day', chords: [{ chord: 'Em7', column: 0 }, { chord: 'G', column: 11 }] },
+      { lyrics: '', chords: [{ chord: 'Dsus4', column: 0 }, { chord: 'A7sus4', column: 8 }] },
+    ]);
+    expect(parseChordSheet(SHEET).song.sections[0].content).toBe(
+      '[Em7]Today is go[G]nna be the day\n[Dsus4]        [A7sus4]'
+    );
+  });
+
+  it('plays an earlier section again for a heading left empty', () => {
+    const { sections } = parseChordSheet(SHEET).song;
+    expect(sections.map(({ type, label, reference }) => ({ type, label, reference }))).toEqual([
+      { type: 'verse', label: 'Verse 1', reference: undefined },
+      { type: 'chorus', label: 'Chorus', reference: undefined },
+      { type: 'verse', label: 'Verse 2', reference: undefined },
+      { type: 'chorus', label: 'Chorus', reference: 1 },
+    ]);
+  });
+
+  it('reports lines that are neither chords, lyrics nor headings', () => {
+    expect(parseChordSheet(SHEET).unclassified).toEqual([
+      { line: 18, text: '%%% @@', reason: 'No chords or words' },
+      { line: 19, text: 'Am  G  Fxx9', reason: 'Chords mixed with unknown symbols: Fxx9' },
+    ]);
+  });
+
+  it('joins tab string lines into a tab block', () => {
+    const { song } = parseChordSheet('[Intro]\ne|---0---|\nB|---1---|');
+    expect(song.sections[0].lines).toHaveLength(1);
+    expect(song.sections[0].lines[0].tab).toBeDefined();
+  });
+});
@@ -0,0 +1,265 @@
+// ============================================
+// Chord Sheet Import
+// Reads plain-text chords-over-lyrics sheets into songs, anchoring
+// each chord to a character offset of its lyric line
+// ============================================
+
+import {
+  AnchoredLine,
+  ChordPosition,
+  ChordSheetImport,
+  ParsedSong,
+  SongMetadata,
+  SongSection,
+  UnclassifiedLine,
+} from '@/types';
+import { isChord } from '@/utils/chord';
+import { anchorInlineChords, parseChordLine, placeChords } from '@/utils/chordLine';
+import {
+  createSection,
+  findSection,
+  parseRepeatMark,
+  parseSectionHeader,
+  parseSectionReference,
+  setSectionLines,
+} from '@/utils/songStructure';
+import { isTabLine } from '@/utils/tablature';
+import { analyzeSongKeys } from '@/utils/keyAnalysis';
+import { validateParsedSong } from '@/utils/validation';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const CAPO_PATTERN = /^\s*capo\s*:?\s*(?:on\s*)?(\d{1,2})\b/i;
+const KEY_PATTERN = /^\s*key\s*:?\s*([A-G][#b]?m?)\s*$/i;
+const TEMPO_PATTERN = /^\s*(?:tempo|bpm)\s*:?\s*(\d{2,3})\b/i;
+const TUNING_PATTERN = /^\s*tuning\s*:/i;
+const TITLE_PATTERN = /^\s*(.+?)\s+(?:-|–|—|by)\s+(.+?)\s*$/i;
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Why a line is neither chords, lyrics nor a header, or null when it reads as lyrics
+ */
+function getUnclassifiedReason(line: string): string | null {
+  if (!/[a-z]/i.test(line)) {
+    return 'No chords or words';
+  }
+
+  // Mostly chords with a few unknown symbols: a chord line with a typo
+  const tokens = line.trim().split(/\s+/).map(token => token.replace(/^\(|\)$/g, ''));
+  const unknown = tokens.filter(token => !isChord(token));
+  if (tokens.length >= 2 && unknown.length > 0 && unknown.length * 2 <= tokens.length) {
+    return `Chords mixed with unknown symbols: ${unknown.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Stable id for an imported sheet, so per-song settings stick to it
+ */
+function getTextId(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) || 1;
+}
+
+// ----------------------
+// Import
+// ----------------------
+
+/**
+ * Read a plain-text chord sheet: chord lines above lyric lines, inline
+ * [C] chords, headers like [Verse 1] or Intro: Em7 G, and Capo/Key/Tempo
+ * lines. Chords are anchored to offsets of the lyric line below them;
+ * a chord line with no lyrics under it is played on its own. Repeats
+ * (x2) and references back (Repeat chorus, a second empty [Chorus]) are
+ * read as parseSections reads them, and tab string lines (e|---0---|)
+ * become tab blocks. Lines that fit nowhere (stray symbols, chord lines
+ * with typos) are reported and left out.
+ * The song goes through key analysis and validation like a Genius song.
+ */
+export function parseChordSheet(text: string, metadata: Partial<SongMetadata> = {}): ChordSheetImport {
+  const songMetadata: SongMetadata = { id: getTextId(text), title: '', artist: '', url: '', ...metadata };
+  type Part = { section: Omit<SongSection, 'lines' | 'chords'>; lines: AnchoredLine[] };
+  const parts: Part[] = [];
+  const unclassified: UnclassifiedLine[] = [];
+  let originalKey: string | undefined;
+  let pending: ChordPosition[] | null = null; // Chord line waiting for its lyrics
+  let started = false; // Past the title
+
+  // Empty sections are dropped, so references count only the parts kept
+  const isKept = (part: Part) => part.lines.length > 0 || part.section.reference !== undefined;
+
+  const addLine = (line: AnchoredLine) => {
+    const last = parts[parts.length - 1];
+    if (!last || last.section.reference !== undefined) {
+      parts.push({ section: { type: 'other', content: '' }, lines: [] });
+    }
+    parts[parts.length - 1].lines.push(line);
+  };
+
+  const flushChords = () => {
+    if (pending) addLine({ lyrics: '', chords: pending });
+    pending = null;
+  };
+
+  const addReference = (
+    name: string,
+    matchType: boolean,
+    fields: Pick<SongSection, 'label' | 'performers' | 'repeat'> = {}
+  ) => {
+    const kept = parts.filter(isKept);
+    const target = findSection(kept.map(part => part.section), name, matchType);
+    if (target < 0) return;
+    const { type, isChorus } = kept[target].section;
+    parts.push({
+      section: { ...fields, type, content: '', reference: target, ...(isChorus ? { isChorus } : {}) },
+      lines: [],
+    });
+  };
+
+  // A heading left empty plays the earlier section of that name again
+  const closeSection = () => {
+    flushChords();
+    const last = parts[parts.length - 1];
+    if (!last || isKept(last)) return;
+    const { type, label, performers, repeat } = last.section;
+    if (label) {
+      parts.pop();
+      addReference(label, type === 'chorus', { label, performers, repeat });
+    }
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      flushChords();
+      return;
+    }
+
+    const header = parseSectionHeader(line);
+    if (header) {
+      closeSection();
+      parts.push({
+        section: {
+          type: header.type,
+          content: '',
+          label: header.label,
+          ...(header.type === 'chorus' ? { isChorus: true } : {}),
+          ...(header.performers ? { performers: header.performers } : {}),
+          ...(header.repeat ? { repeat: header.repeat } : {}),
+        },
+        lines: [],
+      });
+      // Chords on the heading line are played on their own
+      if (header.chords) addLine({ lyrics: '', chords: header.chords });
+      started = true;
+      return;
+    }
+
+    const repeat = parseRepeatMark(line);
+    if (repeat && parts.length > 0) {
+      flushChords();
+      parts[parts.length - 1].section.repeat = repeat;
+      return;
+    }
+
+    // "Repeat after me" names no section and is sung
+    const reference = parseSectionReference(line);
+    if (reference && findSection(parts.filter(isKept).map(part => part.section), reference.name) >= 0) {
+      closeSection();
+      addReference(reference.name, true, reference.repeat ? { repeat: reference.repeat } : {});
+      return;
+    }
+
+    // A chord line over a tab stays a line of its own
+    if (isTabLine(line)) {
+      flushChords();
+      addLine({ lyrics: line.trimEnd(), chords: [] });
+      started = true;
+      return;
+    }
+
+    const chords = parseChordLine(line);
+    if (chords) {
+      flushChords();
+      pending = chords;
+      started = true;
+      return;
+    }
+
+    // Song details
+    const capo = line.match(CAPO_PATTERN);
+    const key = line.match(KEY_PATTERN);
+    const tempo = line.match(TEMPO_PATTERN);
+    if (capo || key || tempo || TUNING_PATTERN.test(line)) {
+      if (capo) songMetadata.capo = parseInt(capo[1], 10);
+      if (key) originalKey = key[1];
+      if (tempo) songMetadata.bpm = parseInt(tempo[1], 10);
+      return;
+    }
+
+    // "Title - Artist" as the first line
+    const title = !started && !songMetadata.title ? line.match(TITLE_PATTERN) : null;
+    started = true;
+    if (title) {
+      songMetadata.title = title[1];
+      songMetadata.artist = songMetadata.artist || title[2];
+      return;
+    }
+
+    const reason = getUnclassifiedReason(line);
+    if (reason) {
+      flushChords();
+      unclassified.push({ line: index + 1, text: line, reason });
+      return;
+    }
+
+    // Lyrics, under a chord line or with chords of their own
+    const inline = anchorInlineChords(line);
+    if (pending && inline.chords.length === 0) {
+      addLine({ lyrics: inline.lyrics, chords: pending });
+      pending = null;
+    } else {
+      flushChords();
+      addLine(inline);
+    }
+  });
+  closeSection();
+
+  const kept = parts.filter(isKept);
+  // Read back from the content, so tab string lines join into blocks
+  const sections = kept.map(({ section, lines }) =>
+    section.reference !== undefined
+      ? setSectionLines(section, [])
+      : createSection({ ...section, content: lines.map(placeChords).join('\n') })
+  );
+
+  const parsed: ParsedSong = {
+    metadata: songMetadata,
+    sections,
+    originalKey,
+    detectedChords: Array.from(new Set(sections.flatMap(section => section.chords ?? []))),
+  };
+  const song = sections.length > 0 ? analyzeSongKeys(parsed) : parsed;
+
+  return {
+    song,
+    lines: kept.map(part => part.lines),
+    unclassified,
+    validation: validateParsedSong(song),
+  };
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  parseChordSheet,
+};
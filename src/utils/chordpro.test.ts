@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseChordPro, serializeChordPro } from '@/utils/chordpro';
+
+const SONG = `{title: Song}
+{artist: Someone}
+{key: G}
+{capo: 2}
+{tempo: 96}
+{time: 3/4}
+{define: Am base-fret 1 frets x 0 2 2 1 0}
+
+[G]Plain paragraph
+
+{start_of_verse: Verse 1}
+[G]Hello [C]there
+
+[D]Second stanza
+{end_of_verse}
+
+{soc}
+[C]Sing [G]along
+{eoc}
+{c: x2}
+
+{sot}
+e|---0---|
+{eot}
+
+{chorus}
+{c: Repeat verse 1}
+{key: A}
+{c: Outro}
+[A]End
+`;
+
+describe('parseChordPro', () => {
+  it('reads metadata, chord shapes and the song key', () => {
+    const song = parseChordPro(SONG);
+    expect(song.metadata).toMatchObject({ title: 'Song', artist: 'Someone', capo: 2, bpm: 96 });
+    expect(song.originalKey).toBe('G');
+    expect(song.chordDefinitions?.map(definition => definition.chord)).toEqual(['Am']);
+    expect(song.detectedChords).toEqual(['G', 'C', 'D', 'A']);
+  });
+
+  it('reads environments, references, repeats and key changes into sections', () => {
+    expect(parseChordPro(SONG).sections).toMatchObject([
+      { type: 'other', content: '[G]Plain paragraph' },
+      { type: 'verse', label: 'Verse 1', content: '[G]Hello [C]there\n\n[D]Second stanza' },
+      { type: 'chorus', content: '[C]Sing [G]along', repeat: 2 },
+      { type: 'other', content: 'e|---0---|', environment: 'tab' },
+      { type: 'chorus', reference: 2 },
+      { type: 'verse', reference: 1 },
+      { type: 'outro', label: 'Outro', content: '[A]End', key: 'A' },
+    ]);
+  });
+
+  it('applies {transpose} to the chords after it', () => {
+    const song = parseChordPro('[C]One\n\n{transpose: 2}\n[C]Two');
+    expect(song.sections.map(section => section.content)).toEqual(['[C]One', '[D]Two']);
+  });
+});
+
+describe('serializeChordPro', () => {
+  it('reads back what it writes, sections of no type included', () => {
+    const song = parseChordPro(SONG);
+    const text = serializeChordPro(song);
+    expect(parseChordPro(text).sections).toEqual(song.sections);
+    expect(serializeChordPro(parseChordPro(text))).toBe(text);
+    expect(text).toContain('\n\n[G]Plain paragraph\n\n{start_of_verse: Verse 1}\n');
+  });
+
+  it('writes the chords, tabs and keys as transposed, without the chord shapes', () => {
+    const text = serializeChordPro(parseChordPro(SONG), { semitones: 2 });
+    expect(text).toContain('{key: A}\n');
+    expect(text).toContain('[A]Hello [D]there');
+    expect(text).toContain('e|---2---|');
+    expect(text).toContain('{key: B}\n{comment: Outro}\n[B]End');
+    expect(text).not.toContain('{define');
+  });
+});
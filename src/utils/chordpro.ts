@@ -0,0 +1,505 @@
+// ============================================
+// ChordPro
+// Reads ChordPro songs into ParsedSong and writes them back out,
+// transposed as they are shown
+// ============================================
+
+import {
+  ChordDiagram,
+  ChordFingering,
+  ParsedSong,
+  SemitoneShift,
+  SongLine,
+  SongMetadata,
+  SongSection,
+  TranspositionState,
+} from '@/types';
+import { parseChordLine, rewriteChordLine, rewriteLyricsChords } from '@/utils/chordLine';
+import { TransposeOptions, shiftKey, transposeChord, transposeChords, transposeSection } from '@/utils/transpose';
+import { formatTimeSignature, parseTimeSignature } from '@/utils/metronome';
+import { getDifficultyLevel, scoreDiagram } from '@/utils/voicing';
+import {
+  createReference,
+  createSection,
+  findSection,
+  formatSongLine,
+  getSectionType,
+  parseRepeatMark,
+  parseSectionReference,
+} from '@/utils/songStructure';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const DIRECTIVE_PATTERN = /^\{\s*([A-Za-z_]+)(?:\s*:\s*|\s+)?(.*?)\s*\}$/;
+
+// Short forms of the directives
+const DIRECTIVE_ALIASES: Record<string, string> = {
+  t: 'title',
+  st: 'subtitle',
+  c: 'comment',
+  ci: 'comment_italic',
+  cb: 'comment_box',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+  sog: 'start_of_grid',
+  eog: 'end_of_grid',
+};
+
+const COMMENT_DIRECTIVES = ['comment', 'comment_italic', 'comment_box', 'highlight'];
+
+// Environments written as such; other sections get a comment heading
+const ENVIRONMENTS: Partial<Record<SongSection['type'], string>> = {
+  chorus: 'chorus',
+  verse: 'verse',
+  bridge: 'bridge',
+};
+
+const SECTION_NAMES: Record<SongSection['type'], string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  'pre-chorus': 'Pre-Chorus',
+  chorus: 'Chorus',
+  bridge: 'Bridge',
+  outro: 'Outro',
+  other: 'Other',
+};
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+// A section being read; lines and chords are read from its content when it closes
+type SectionFields = Omit<SongSection, 'lines' | 'chords'>;
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Read a directive line into its name (long form) and value
+ */
+function parseDirective(line: string): { name: string; value: string } | null {
+  const match = line.trim().match(DIRECTIVE_PATTERN);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  return { name: DIRECTIVE_ALIASES[name] ?? name, value: match[2] ?? '' };
+}
+
+/**
+ * Read a chord shape: "Am base-fret 1 frets x 0 2 2 1 0 fingers 0 0 2 3 1 0",
+ * or the older "Am 1 x 0 2 2 1 0". Frets count from the base fret.
+ */
+function parseDefinition(value: string): ChordDiagram | null {
+  const [chord, ...tokens] = value.trim().split(/\s+/);
+  if (!chord || tokens.length === 0) return null;
+
+  let baseFret = 1;
+  const frets: string[] = [];
+  const fingers: string[] = [];
+
+  if (/^\d+$/.test(tokens[0]) && !tokens.includes('frets')) {
+    baseFret = parseInt(tokens[0], 10);
+    frets.push(...tokens.slice(1));
+  } else {
+    let field = '';
+    for (const token of tokens) {
+      if (['base-fret', 'frets', 'fingers', 'keys', 'copy', 'display'].includes(token)) {
+        field = token;
+      } else if (field === 'base-fret') {
+        baseFret = parseInt(token, 10) || 1;
+      } else if (field === 'frets') {
+        frets.push(token);
+      } else if (field === 'fingers') {
+        fingers.push(token);
+      }
+    }
+  }
+  if (frets.length === 0) return null;
+
+  // Lowest string first; x, X and N are muted
+  const positions: ChordFingering[] = frets.map((token, index) => {
+    const relative = /^-?\d+$/.test(token) ? parseInt(token, 10) : -1;
+    const fret = relative > 0 ? relative + baseFret - 1 : relative;
+    const finger = parseInt(fingers[index] ?? '', 10);
+    const string = frets.length - index;
+    return finger > 0 ? { string, fret, finger } : { string, fret };
+  });
+
+  return {
+    chord,
+    positions,
+    baseFret,
+    difficulty: getDifficultyLevel(scoreDiagram({ positions })),
+  };
+}
+
+/**
+ * Write a chord shape as a {define} directive
+ */
+function formatDefinition(diagram: ChordDiagram): string {
+  const strings = [...diagram.positions].sort((a, b) => b.string - a.string);
+  const frets = strings.map(position =>
+    position.fret < 0 ? 'x' : position.fret === 0 ? '0' : String(position.fret - diagram.baseFret + 1)
+  );
+  const fingers = strings.some(position => position.finger !== undefined)
+    ? ` fingers ${strings.map(position => position.finger ?? 0).join(' ')}`
+    : '';
+  return `{define: ${diagram.chord} base-fret ${diagram.baseFret} frets ${frets.join(' ')}${fingers}}`;
+}
+
+/**
+ * Lines of a section as ChordPro: chords inline, (comments) as directives
+ */
+function formatSectionBody(lines: SongLine[]): string[] {
+  return lines.map(formatSongLine).map(line => {
+    const comment = line.trim().match(/^\(([^()[\]]+)\)$/);
+    return comment ? `{comment: ${comment[1]}}` : line;
+  });
+}
+
+/**
+ * Grid chords moved to a new key (and simplified); bar lines and beats
+ * keep their columns
+ */
+function transposeGrid(content: string, semitones: SemitoneShift, options: TransposeOptions): string {
+  const lines = content.split('\n');
+  const chords = Array.from(new Set(
+    lines.flatMap(line => parseChordLine(line)?.map(position => position.chord) ?? [])
+  ));
+  const transposed = transposeChords(chords, semitones, options);
+  const moved = new Map(chords.map((chord, index) => [chord, transposed[index]]));
+  return lines.map(line => rewriteChordLine(line, chord => moved.get(chord) ?? chord)).join('\n');
+}
+
+// ----------------------
+// Reading
+// ----------------------
+
+/**
+ * Parse a ChordPro song. Metadata directives fill SongMetadata, chorus,
+ * verse and bridge environments become sections (as do paragraphs outside
+ * them, named by a leading comment like {c: Intro}, else of type 'other'),
+ * and tab and grid environments are kept verbatim, tab blocks read for
+ * their notes.
+ * {chorus} and comments like {c: Repeat verse 2} refer back to an
+ * earlier section, {c: x2} repeats the section it closes, other comments
+ * stay with their paragraph (or the next one when between paragraphs),
+ * a {key} after the first section changes the key of the sections that
+ * follow, and {transpose} shifts the chords after it.
+ */
+export function parseChordPro(text: string): ParsedSong {
+  const metadata: SongMetadata = { id: 0, title: '', artist: '', url: '' };
+  const sections: SongSection[] = [];
+  const chordDefinitions: ChordDiagram[] = [];
+  let originalKey: string | undefined;
+  let sectionKey: string | undefined;
+  let transpose = 0;
+
+  let current: SectionFields | null = null;
+  let environment: string | null = null; // Name of the open environment
+  let pendingComments: string[] = []; // Between paragraphs, for the next one
+
+  const flush = () => {
+    if (current && current.content.trim()) {
+      // Tabs and grids are kept as written; elsewhere a last stanza break goes
+      const content = current.environment ? current.content : current.content.replace(/\n+$/, '');
+      sections.push(createSection({ ...current, content }));
+    }
+    current = null;
+  };
+
+  const startSection = (
+    type: SongSection['type'],
+    label?: string,
+    verbatim?: SongSection['environment']
+  ): SectionFields => {
+    flush();
+    const section: SectionFields = {
+      type,
+      content: verbatim ? '' : pendingComments.join('\n'),
+      ...(type === 'chorus' ? { isChorus: true } : {}),
+      ...(sectionKey ? { key: sectionKey } : {}),
+      ...(label ? { label } : {}),
+      ...(verbatim ? { environment: verbatim } : {}),
+    };
+    if (!verbatim) pendingComments = [];
+    current = section;
+    return section;
+  };
+
+  // Lines outside any environment start a paragraph of no particular type
+  const addLine = (line: string) => {
+    const section = current ?? startSection('other');
+    const shifted = transpose !== 0 && !section.environment
+      ? rewriteLyricsChords(line, chord => transposeChord(chord, transpose as SemitoneShift))
+      : line;
+    section.content += (section.content ? '\n' : '') + shifted;
+  };
+
+  // A run of blank lines in an environment is one stanza break
+  const addBreak = () => {
+    if (current?.content && !current.content.endsWith('\n')) addLine('');
+  };
+
+  const applyDirective = (name: string, value: string) => {
+    const start = name.match(/^start_of_(\w+)$/);
+    const end = name.match(/^end_of_(\w+)$/);
+
+    if (start) {
+      const kind = start[1];
+      environment = kind;
+      if (kind === 'tab' || kind === 'grid') {
+        startSection('other', value || undefined, kind);
+      } else if (kind === 'chorus' || kind === 'verse' || kind === 'bridge') {
+        startSection(kind, value || undefined);
+      } else {
+        // Custom environments ({start_of_intro}) are named by their label
+        startSection(getSectionType(value || kind), value || kind.replace(/_/g, ' '));
+      }
+      return;
+    }
+
+    if (end) {
+      flush();
+      environment = null;
+      return;
+    }
+
+    if (COMMENT_DIRECTIVES.includes(name)) {
+      const repeat = parseRepeatMark(value);
+      if (repeat) {
+        const last = sections[sections.length - 1];
+        if (current) {
+          current.repeat = repeat;
+        } else if (last) {
+          sections[sections.length - 1] = { ...last, repeat };
+        }
+        return;
+      }
+
+      const reference = environment ? null : parseSectionReference(value);
+      if (reference) {
+        const before = current?.content.trim() ? [...sections, createSection(current)] : sections;
+        const target = findSection(before, reference.name);
+        if (target >= 0) {
+          flush();
+          sections.push(createReference(sections, target, { repeat: reference.repeat }));
+          return;
+        }
+      }
+
+      // A comment opening a paragraph can name it: {c: Intro}; other
+      // comments between paragraphs go with the paragraph that follows
+      const type = getSectionType(value);
+      if (!environment && !current && type !== 'other') {
+        startSection(type, value);
+      } else if (current) {
+        addLine(`(${value})`);
+      } else {
+        pendingComments.push(`(${value})`);
+      }
+      return;
+    }
+
+    switch (name) {
+      case 'title':
+        metadata.title = value;
+        break;
+      case 'artist':
+        metadata.artist = metadata.artist ? `${metadata.artist}, ${value}` : value;
+        break;
+      case 'album':
+        metadata.album = value;
+        break;
+      case 'year':
+        metadata.releaseDate = value;
+        break;
+      case 'key':
+        // The first key is the song's; later ones are key changes
+        if (sections.length === 0 && !current) {
+          originalKey = value;
+        } else {
+          sectionKey = value === originalKey ? undefined : value;
+        }
+        break;
+      case 'capo': {
+        const capo = parseInt(value, 10);
+        if (!Number.isNaN(capo)) metadata.capo = capo;
+        break;
+      }
+      case 'tempo': {
+        const bpm = parseFloat(value);
+        if (!Number.isNaN(bpm)) metadata.bpm = Math.round(bpm);
+        break;
+      }
+      case 'time': {
+        const timeSignature = parseTimeSignature(value);
+        if (timeSignature) metadata.timeSignature = timeSignature;
+        break;
+      }
+      case 'meta': {
+        const [metaName, ...rest] = value.split(/\s+/);
+        if (metaName && metaName !== 'meta') applyDirective(metaName.toLowerCase(), rest.join(' '));
+        break;
+      }
+      case 'define':
+      case 'chord': {
+        const definition = parseDefinition(value);
+        if (definition) chordDefinitions.push(definition);
+        break;
+      }
+      case 'chorus': {
+        // Play the last chorus again
+        flush();
+        const target = findSection(sections, value || 'chorus');
+        if (target >= 0) sections.push(createReference(sections, target, value ? { label: value } : {}));
+        break;
+      }
+      case 'transpose':
+        transpose = parseInt(value, 10) || 0;
+        break;
+      default:
+        // Formatting and unknown directives are ignored
+        break;
+    }
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const verbatim = environment === 'tab' || environment === 'grid';
+
+    // # starts a comment line of the file itself
+    if (!verbatim && line.trimStart().startsWith('#')) continue;
+
+    const directive = parseDirective(line);
+    if (directive && (!verbatim || directive.name.startsWith('end_of_'))) {
+      applyDirective(directive.name, directive.value);
+      continue;
+    }
+
+    if (verbatim) {
+      addLine(line);
+    } else if (!line.trim()) {
+      // Blank lines end paragraphs outside environments and are stanza
+      // breaks inside them
+      if (environment) {
+        addBreak();
+      } else {
+        flush();
+      }
+    } else {
+      addLine(line);
+    }
+  }
+  flush();
+
+  // Comments after the last paragraph close it
+  const last = sections[sections.length - 1];
+  if (pendingComments.length > 0 && last && last.reference === undefined && !last.environment) {
+    sections[sections.length - 1] = createSection({
+      ...last,
+      content: [last.content, ...pendingComments].join('\n'),
+    });
+  }
+
+  const detectedChords = Array.from(new Set(
+    sections.filter(section => !section.environment).flatMap(section => section.chords ?? [])
+  ));
+
+  return {
+    metadata,
+    sections,
+    originalKey,
+    detectedChords,
+    ...(chordDefinitions.length > 0 ? { chordDefinitions } : {}),
+  };
+}
+
+// ----------------------
+// Writing
+// ----------------------
+
+/**
+ * Write a song as ChordPro, with chords as transposed (and simplified) on
+ * screen and the key to match. Chords over lyrics are written inline,
+ * references to a chorus as {chorus} and repeats as {c: x2} comments.
+ * Chord shapes are only written at the original pitch, since a
+ * transposed chord needs a different shape.
+ */
+export function serializeChordPro(song: ParsedSong, transposition: Partial<TranspositionState> = {}): string {
+  const { semitones = 0, targetKey, accidentals, simplification } = transposition;
+  const originalKey = transposition.originalKey ?? song.originalKey;
+  const options = { originalKey, targetKey, accidentals, simplify: simplification };
+  const { metadata } = song;
+  const lines: string[] = [];
+
+  if (metadata.title) lines.push(`{title: ${metadata.title}}`);
+  if (metadata.artist) lines.push(`{artist: ${metadata.artist}}`);
+  if (metadata.album) lines.push(`{album: ${metadata.album}}`);
+  const year = metadata.releaseDate?.match(/\d{4}/)?.[0];
+  if (year) lines.push(`{year: ${year}}`);
+  if (originalKey) lines.push(`{key: ${shiftKey(originalKey, semitones)}}`);
+  if (metadata.capo) lines.push(`{capo: ${metadata.capo}}`);
+  if (metadata.bpm) lines.push(`{tempo: ${metadata.bpm}}`);
+  if (metadata.timeSignature) lines.push(`{time: ${formatTimeSignature(metadata.timeSignature)}}`);
+  if (semitones === 0) {
+    lines.push(...(song.chordDefinitions ?? []).map(formatDefinition));
+  }
+
+  let key = originalKey;
+  for (const section of song.sections) {
+    lines.push('');
+
+    const sectionKey = section.key ?? originalKey;
+    if (sectionKey && sectionKey !== key) {
+      key = sectionKey;
+      lines.push(`{key: ${shiftKey(sectionKey, semitones)}}`);
+    }
+
+    if (section.reference !== undefined) {
+      const target = song.sections[section.reference];
+      if (target.type === 'chorus') {
+        lines.push(section.label ? `{chorus: ${section.label}}` : '{chorus}');
+      } else {
+        lines.push(`{comment: Repeat ${target.label ?? SECTION_NAMES[target.type]}}`);
+      }
+    } else if (section.environment) {
+      lines.push(section.label ? `{start_of_${section.environment}: ${section.label}}` : `{start_of_${section.environment}}`);
+      // Tabs and grids move to the new key with the chords
+      const body = section.environment === 'grid'
+        ? transposeGrid(section.content, semitones, options)
+        : transposeSection(section, semitones, options).content;
+      lines.push(body, `{end_of_${section.environment}}`);
+    } else {
+      const body = formatSectionBody(transposeSection(section, semitones, options).lines);
+      const name = ENVIRONMENTS[section.type];
+      if (name) {
+        lines.push(section.label ? `{start_of_${name}: ${section.label}}` : `{start_of_${name}}`);
+        lines.push(...body, `{end_of_${name}}`);
+      } else {
+        const heading = section.label ?? (section.type === 'other' ? undefined : SECTION_NAMES[section.type]);
+        lines.push(...(heading ? [`{comment: ${heading}}`] : []), ...body);
+      }
+    }
+
+    if (section.repeat) lines.push(`{comment: x${section.repeat}}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  parseChordPro,
+  serializeChordPro,
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getDiagramFrame } from '@/utils/diagram';
+
+// A 60 x 80 chart: 60 across the strings, 80 along the neck
+const WIDTH = 60;
+const HEIGHT = 80;
+
+describe('getDiagramFrame', () => {
+  it('draws an upright right-handed chart as laid out', () => {
+    const frame = getDiagramFrame(WIDTH, HEIGHT, { leftHanded: false, orientation: 'vertical' });
+    expect([frame.width, frame.height]).toEqual([60, 80]);
+    expect(frame.point(0, 10)).toEqual({ x: 0, y: 10 });
+  });
+
+  it('mirrors a left-handed chart so the low string is on the right', () => {
+    const frame = getDiagramFrame(WIDTH, HEIGHT, { leftHanded: true, orientation: 'vertical' });
+    expect(frame.point(0, 10)).toEqual({ x: 60, y: 10 });
+    expect(frame.point(60, 10)).toEqual({ x: 0, y: 10 });
+  });
+
+  it('lays a horizontal chart out like tab: nut on the left, highest string on top', () => {
+    const frame = getDiagramFrame(WIDTH, HEIGHT, { leftHanded: false, orientation: 'horizontal' });
+    expect([frame.width, frame.height]).toEqual([80, 60]);
+    expect(frame.point(0, 0)).toEqual({ x: 0, y: 60 });
+    expect(frame.point(60, 0)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('puts the nut on the right of a left-handed horizontal chart', () => {
+    const frame = getDiagramFrame(WIDTH, HEIGHT, { leftHanded: true, orientation: 'horizontal' });
+    expect(frame.point(0, 0)).toEqual({ x: 80, y: 60 });
+  });
+
+  it('keeps rectangles positive however the chart is turned', () => {
+    const frame = getDiagramFrame(WIDTH, HEIGHT, { leftHanded: true, orientation: 'horizontal' });
+    expect(frame.rect(10, 20, 30, 40)).toEqual({ x: 40, y: 30, width: 20, height: 20 });
+  });
+});
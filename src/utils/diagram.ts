@@ -0,0 +1,94 @@
+// ============================================
+// Diagram Layout
+// Places strings and frets on a chord or scale diagram for the user's
+// orientation and handedness
+// ============================================
+
+import { DiagramPreferences } from '@/types';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const DEFAULT_DIAGRAM_PREFERENCES: DiagramPreferences = {
+  leftHanded: false,
+  orientation: 'vertical',
+  stringNumbers: false,
+};
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface DiagramRect extends DiagramPoint {
+  width: number;
+  height: number;
+}
+
+/**
+ * A diagram is laid out once as an upright right-handed chart:
+ * `across` runs from the lowest string to the highest and `along` runs
+ * from the nut towards the body. The frame maps those onto the SVG.
+ */
+export interface DiagramFrame {
+  width: number;
+  height: number;
+  point: (across: number, along: number) => DiagramPoint;
+  rect: (across1: number, along1: number, across2: number, along2: number) => DiagramRect;
+}
+
+// ----------------------
+// Layout
+// ----------------------
+
+/**
+ * Frame for an upright chart of the given size.
+ * Horizontal diagrams read like tab: nut on the left, highest string on top.
+ * Left-handed diagrams are mirrored so the nut or low string swaps sides.
+ */
+export function getDiagramFrame(
+  width: number,
+  height: number,
+  { leftHanded, orientation }: Pick<DiagramPreferences, 'leftHanded' | 'orientation'>
+): DiagramFrame {
+  const horizontal = orientation === 'horizontal';
+
+  const point = (across: number, along: number): DiagramPoint => {
+    if (horizontal) {
+      return { x: leftHanded ? height - along : along, y: width - across };
+    }
+    return { x: leftHanded ? width - across : across, y: along };
+  };
+
+  const rect = (across1: number, along1: number, across2: number, along2: number): DiagramRect => {
+    const a = point(across1, along1);
+    const b = point(across2, along2);
+    return {
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(a.x - b.x),
+      height: Math.abs(a.y - b.y),
+    };
+  };
+
+  return {
+    width: horizontal ? height : width,
+    height: horizontal ? width : height,
+    point,
+    rect,
+  };
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  DEFAULT_DIAGRAM_PREFERENCES,
+  getDiagramFrame,
+};
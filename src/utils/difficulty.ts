@@ -0,0 +1,168 @@
+// ============================================
+// Chord Difficulty
+// Scores chords, progressions and Easy Mode keys from their easiest voicings
+// ============================================
+
+import { ChordDifficulty, ChordDiagram, Tuning } from '@/types';
+import { isNoChord, normalizeChord } from '@/utils/chord';
+import { transposeChords, suggestEasyModeKeys, shiftKey } from '@/utils/transpose';
+import { STANDARD_TUNING, getShapeShift } from '@/utils/tuning';
+import { getBestVoicing, scoreDiagram, getDifficultyLevel } from '@/utils/voicing';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// Score given to chords without a playable voicing
+const UNPLAYABLE_SCORE = 15;
+
+// Best voicings are searched once per chord and tuning; the least
+// recently used entries make way once the cache is full
+const difficultyCache = new Map<string, ChordDifficulty>();
+const MAX_CACHED_DIFFICULTIES = 500;
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface ProgressionDifficulty {
+  score: number; // Average over every chord occurrence
+  level: ChordDiagram['difficulty'];
+  hardChords: string[]; // Unique chords above beginner level
+}
+
+export interface EasyModeRating extends ProgressionDifficulty {
+  key: string; // Key the song sounds in
+  shapeKey: string; // Key of the shapes fretted in the tuning
+  distance: number; // Semitones from the current key
+  songKeys: string[]; // Where the other sections end up
+}
+
+// ----------------------
+// Chords
+// ----------------------
+
+/**
+ * Difficulty of a chord from its easiest voicing in a tuning
+ */
+export function getChordDifficulty(
+  chord: string,
+  tuning: Tuning = STANDARD_TUNING
+): ChordDifficulty {
+  const name = normalizeChord(chord);
+  const cacheKey = `${tuning.id}|${name}`;
+  const cached = difficultyCache.get(cacheKey);
+  if (cached) {
+    difficultyCache.delete(cacheKey);
+    difficultyCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  // N.C. is nothing to play
+  if (isNoChord(name)) {
+    return { chord: name, score: 0, level: 'beginner' };
+  }
+
+  const diagram = getBestVoicing(name, tuning);
+  const score = diagram ? scoreDiagram(diagram) : UNPLAYABLE_SCORE;
+  const difficulty: ChordDifficulty = {
+    chord: name,
+    score,
+    level: diagram ? diagram.difficulty : 'expert',
+    diagram,
+  };
+
+  if (difficultyCache.size >= MAX_CACHED_DIFFICULTIES) {
+    const oldest = difficultyCache.keys().next();
+    if (!oldest.done) difficultyCache.delete(oldest.value);
+  }
+  difficultyCache.set(cacheKey, difficulty);
+  return difficulty;
+}
+
+/**
+ * Check if a chord has a beginner-level voicing
+ */
+export function isBeginnerFriendly(chord: string, tuning: Tuning = STANDARD_TUNING): boolean {
+  return getChordDifficulty(chord, tuning).level === 'beginner';
+}
+
+// ----------------------
+// Progressions
+// ----------------------
+
+/**
+ * Average difficulty of a chord sequence; repeated chords weigh more
+ */
+export function getProgressionDifficulty(
+  chords: string[],
+  tuning: Tuning = STANDARD_TUNING
+): ProgressionDifficulty {
+  if (chords.length === 0) {
+    return { score: 0, level: 'beginner', hardChords: [] };
+  }
+
+  const difficulties = chords.map(chord => getChordDifficulty(chord, tuning));
+  const total = difficulties.reduce((sum, d) => sum + d.score, 0);
+  const score = Math.round((total / difficulties.length) * 100) / 100;
+  const hardChords = Array.from(new Set(
+    difficulties.filter(d => d.level !== 'beginner').map(d => d.chord)
+  ));
+
+  return { score, level: getDifficultyLevel(score), hardChords };
+}
+
+// ----------------------
+// Easy Mode
+// ----------------------
+
+/**
+ * Rate the Easy Mode keys for a song by how hard its chords are to play there.
+ * Without chords, the I, IV and V chords of every key the song visits stand in.
+ * Fewest hard chords first, then the lowest average score, then the closest key.
+ */
+export function rateEasyModeKeys(
+  currentKey: string,
+  otherKeys: string[] = [],
+  chords: string[] = [],
+  tuning: Tuning = STANDARD_TUNING
+): EasyModeRating[] {
+  const shift = getShapeShift(tuning);
+  const candidates = suggestEasyModeKeys(
+    shiftKey(currentKey, -shift),
+    otherKeys.map(key => shiftKey(key, -shift))
+  );
+
+  return candidates
+    .map(({ key: shapeKey, distance, songKeys }) => {
+      const key = shiftKey(shapeKey, shift);
+      const visitedKeys = songKeys.map(other => shiftKey(other, shift));
+      const songChords = chords.length > 0
+        ? transposeChords(chords, distance, { targetKey: key })
+        : [key, ...visitedKeys].flatMap(k => [k, shiftKey(k, 5), shiftKey(k, 7)]);
+
+      return {
+        ...getProgressionDifficulty(songChords, tuning),
+        key,
+        shapeKey,
+        distance,
+        songKeys: visitedKeys,
+      };
+    })
+    .sort((a, b) =>
+      a.hardChords.length - b.hardChords.length ||
+      a.score - b.score ||
+      Math.abs(a.distance) - Math.abs(b.distance)
+    );
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getChordDifficulty,
+  isBeginnerFriendly,
+  getProgressionDifficulty,
+  rateEasyModeKeys,
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeChord } from '@/utils/harmony';
+
+describe('analyzeChord', () => {
+  it('treats sus chords as diatonic on major and minor degrees', () => {
+    expect(analyzeChord('Dsus4', 'C')).toMatchObject({ roman: 'IIsus4', diatonic: true, secondaryTarget: undefined });
+    expect(analyzeChord('Gsus4', 'C')).toMatchObject({ roman: 'Vsus4', diatonic: true });
+    expect(analyzeChord('Esus2', 'Am')).toMatchObject({ diatonic: true, secondaryTarget: undefined });
+  });
+
+  it('treats power chords as diatonic on major and minor degrees', () => {
+    expect(analyzeChord('A5', 'C')).toMatchObject({ diatonic: true, secondaryTarget: undefined });
+    expect(analyzeChord('E5', 'C')).toMatchObject({ diatonic: true, secondaryTarget: undefined });
+  });
+
+  it('still reads a major chord on II as a secondary dominant', () => {
+    expect(analyzeChord('D', 'C')).toMatchObject({ roman: 'V/V', diatonic: false, secondaryTarget: 'V' });
+  });
+
+  it('figures inversions in Roman numerals and keeps the bass degree in Nashville', () => {
+    expect(analyzeChord('C/E', 'C')).toMatchObject({ roman: 'I6', nashville: '1/3' });
+    expect(analyzeChord('C/G', 'C')).toMatchObject({ roman: 'I64', nashville: '1/5' });
+    expect(analyzeChord('G7/B', 'C')).toMatchObject({ roman: 'V65' });
+    expect(analyzeChord('G7/D', 'C')).toMatchObject({ roman: 'V43' });
+    expect(analyzeChord('G7/F', 'C')).toMatchObject({ roman: 'V42' });
+    expect(analyzeChord('D7/F#', 'C')).toMatchObject({ roman: 'V65/V' });
+  });
+
+  it('names a bass outside the chord as a Roman degree', () => {
+    expect(analyzeChord('C/D', 'C')).toMatchObject({ roman: 'I (bass II)', nashville: '1/2' });
+    expect(analyzeChord('C/Bb', 'C')).toMatchObject({ roman: 'I (bass bVII)', nashville: '1/b7' });
+  });
+});
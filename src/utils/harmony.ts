@@ -0,0 +1,298 @@
+// ============================================
+// Harmonic Analysis
+// Roman numeral and Nashville Number System mapping of chords
+// Numerals are relative to the major scale of the tonic (minor: i ii° bIII iv v bVI bVII)
+// ============================================
+
+import { ChordFunction, ChordStep, ChordSymbol, NotationMode } from '@/types';
+import { parseChord, getPitchClass, getChordIntervals } from '@/utils/chord';
+import { detectKey } from '@/utils/transpose';
+import { rewriteLyricsChords } from '@/utils/chordLine';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Scale degree (0-6) and accidental for each semitone above the tonic
+const DEGREE_BY_SEMITONE: Array<{ degree: number; accidental: '' | 'b' | '#' }> = [
+  { degree: 0, accidental: '' },
+  { degree: 1, accidental: 'b' },
+  { degree: 1, accidental: '' },
+  { degree: 2, accidental: 'b' },
+  { degree: 2, accidental: '' },
+  { degree: 3, accidental: '' },
+  { degree: 3, accidental: '#' },
+  { degree: 4, accidental: '' },
+  { degree: 5, accidental: 'b' },
+  { degree: 5, accidental: '' },
+  { degree: 6, accidental: 'b' },
+  { degree: 6, accidental: '' },
+];
+
+type TriadType = 'major' | 'minor' | 'diminished';
+
+// Diatonic triads by semitone above the tonic
+const DIATONIC: Record<'major' | 'minor', Record<number, TriadType[]>> = {
+  major: { 0: ['major'], 2: ['minor'], 4: ['minor'], 5: ['major'], 7: ['major'], 9: ['minor'], 11: ['diminished'] },
+  minor: { 0: ['minor'], 2: ['diminished'], 3: ['major'], 5: ['minor'], 7: ['minor', 'major'], 8: ['major'], 10: ['major'] },
+};
+
+// Roman inversion figures by inversion (third, fifth, seventh in the bass)
+const TRIAD_FIGURES = ['', '6', '64', '42'];
+const SEVENTH_FIGURES = ['7', '65', '43', '42'];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+};
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Triad type used for diatonic checks (m7b5 counts as diminished; sus and
+ * power chords have no third and are 'open')
+ */
+function getTriadType(chord: ChordSymbol): TriadType | 'augmented' | 'open' {
+  const flatFifth = chord.alterations.some(a => a.degree === 5 && a.accidental === 'b');
+  if (chord.quality === 'minor') return flatFifth ? 'diminished' : 'minor';
+  if (chord.quality === 'diminished') return 'diminished';
+  if (chord.quality === 'augmented') return 'augmented';
+  if (chord.quality === 'major') return 'major';
+  return 'open';
+}
+
+/**
+ * Check if a chord is diatonic to a key (dominant sevenths only on V).
+ * Open chords fit any degree with a major or minor triad.
+ */
+function isDiatonic(chord: ChordSymbol, semitones: number, mode: 'major' | 'minor'): boolean {
+  const allowed = DIATONIC[mode][semitones];
+  const triad = getTriadType(chord);
+  if (!allowed || triad === 'augmented') {
+    return false;
+  }
+  if (triad === 'open') {
+    return allowed.includes('major') || allowed.includes('minor');
+  }
+  if (!allowed.includes(triad)) {
+    return false;
+  }
+
+  // A dominant seventh on anything but V points somewhere else (V7/IV)
+  const isDominantSeventh = triad === 'major' && chord.seventh === 'minor';
+  return !isDominantSeventh || semitones === 7;
+}
+
+/**
+ * Inversion of a slash chord: 0 with the root in the bass, then 1-3 for
+ * its third, fifth or seventh. Null when the bass is not one of them, or
+ * the chord is not a plain triad or seventh that figures can describe.
+ */
+function getInversion(chord: ChordSymbol): number | null {
+  if (!chord.bass) return 0;
+  if (chord.quality === 'sus2' || chord.quality === 'sus4') return null;
+  if ((chord.extension ?? 7) !== 7 || chord.added.length > 0) return null;
+  const bass = (getPitchClass(chord.bass) - getPitchClass(chord.root) + 12) % 12;
+  if (!getChordIntervals(chord).some(interval => interval % 12 === bass)) return null;
+
+  if (bass === 0) return 0;
+  if (bass === 3 || bass === 4) return 1;
+  if (bass >= 6 && bass <= 8) return 2;
+  return chord.seventh && bass >= 9 ? 3 : null;
+}
+
+/**
+ * Extension suffix with the inversion figured in (I6, V65, ii7 -> ii42)
+ */
+function getFiguredSuffix(chord: ChordSymbol, inversion: number): string {
+  const suffix = getExtensionSuffix(chord);
+  if (inversion === 0) return suffix;
+  return chord.extension === 7
+    ? suffix.replace('7', SEVENTH_FIGURES[inversion])
+    : `${suffix}${TRIAD_FIGURES[inversion]}`;
+}
+
+/**
+ * Roman numeral case and symbol for a chord's quality (vi, vii°, III+)
+ */
+function applyQuality(numeral: string, chord: ChordSymbol, suffix: string): string {
+  const triad = getTriadType(chord);
+  const base = triad === 'minor' || triad === 'diminished' ? numeral.toLowerCase() : numeral;
+
+  let symbol = '';
+  if (triad === 'diminished') {
+    symbol = chord.seventh === 'minor' ? 'ø' : '°';
+  } else if (triad === 'augmented') {
+    symbol = '+';
+  }
+
+  return `${base}${symbol}${suffix}`;
+}
+
+/**
+ * Seventh/extension and sus suffix shared by both notations
+ */
+function getExtensionSuffix(chord: ChordSymbol): string {
+  let suffix = '';
+  if (chord.extension !== undefined) {
+    suffix += chord.seventh === 'major' ? `maj${chord.extension}` : `${chord.extension}`;
+  }
+  if (chord.quality === 'sus2' || chord.quality === 'sus4') {
+    suffix += chord.quality;
+  }
+  return suffix;
+}
+
+/**
+ * Nashville degree label of a semitone offset (1, b7, #4)
+ */
+function getNashvilleDegree(semitones: number): string {
+  const { degree, accidental } = DEGREE_BY_SEMITONE[semitones];
+  return `${accidental}${degree + 1}`;
+}
+
+/**
+ * Convert digits to superscript (Nashville extensions: 5⁷)
+ */
+function toSuperscript(text: string): string {
+  return text.replace(/[0-9]/g, digit => SUPERSCRIPTS[digit]);
+}
+
+/**
+ * Split a key name into tonic pitch class and mode
+ */
+function parseKey(key: string): { tonic: number; mode: 'major' | 'minor' } {
+  const mode = /m$/.test(key) ? 'minor' : 'major';
+  return { tonic: getPitchClass(key.replace(/m$/, '')), mode };
+}
+
+// ----------------------
+// Chord Analysis
+// ----------------------
+
+/**
+ * Where a chord's root sits above the tonic of a key, with its triad type
+ */
+export function getChordStep(chord: string, key: string): ChordStep | null {
+  const parsed = parseChord(chord);
+  if (!parsed) return null;
+  const { tonic } = parseKey(key);
+  return {
+    semitones: (getPitchClass(parsed.root) - tonic + 12) % 12,
+    triad: getTriadType(parsed),
+  };
+}
+
+/**
+ * Map a chord to its Roman numeral and Nashville number in a key
+ */
+export function analyzeChord(chord: string, key: string): ChordFunction | null {
+  const parsed = parseChord(chord);
+  if (!parsed) return null;
+
+  const { tonic, mode } = parseKey(key);
+  const semitones = (getPitchClass(parsed.root) - tonic + 12) % 12;
+  const { degree, accidental } = DEGREE_BY_SEMITONE[semitones];
+  const diatonic = isDiatonic(parsed, semitones, mode);
+  const otherMode = mode === 'major' ? 'minor' : 'major';
+  const borrowed = !diatonic && isDiatonic(parsed, semitones, otherMode);
+
+  // Inversions are figured (I6, V43); other bass notes are named after it
+  const inversion = getInversion(parsed);
+  const suffix = getFiguredSuffix(parsed, inversion ?? 0);
+  let roman = `${accidental}${applyQuality(ROMAN_NUMERALS[degree], parsed, suffix)}`;
+  let secondaryTarget: string | undefined;
+
+  // Secondary dominants: a non-diatonic major/dominant chord a fifth above a diatonic chord
+  const triad = getTriadType(parsed);
+  const target = (semitones + 5) % 12;
+  const targetTriads = DIATONIC[mode][target];
+  if (!diatonic && !borrowed && triad === 'major' && target !== 0 && targetTriads) {
+    const targetDegree = DEGREE_BY_SEMITONE[target];
+    const targetNumeral = ROMAN_NUMERALS[targetDegree.degree];
+    const targetCase = targetTriads.includes('major') ? targetNumeral : targetNumeral.toLowerCase();
+    secondaryTarget = `${targetDegree.accidental}${targetCase}${
+      targetTriads[0] === 'diminished' ? '°' : ''
+    }`;
+    roman = `V${suffix}/${secondaryTarget}`;
+  }
+
+  // Nashville: number, quality marks, extensions in superscript
+  let nashville = getNashvilleDegree(semitones);
+  if (triad === 'minor') nashville += '-';
+  if (triad === 'diminished') nashville += parsed.seventh === 'minor' ? 'ø' : '°';
+  if (triad === 'augmented') nashville += '+';
+  if (parsed.seventh === 'major') nashville += 'Δ';
+  if (parsed.extension !== undefined) nashville += toSuperscript(String(parsed.extension));
+  if (parsed.quality === 'sus2' || parsed.quality === 'sus4') nashville += parsed.quality;
+
+  // Nashville writes the bass as a scale degree (1/3)
+  if (parsed.bass) {
+    const bassSemitones = (getPitchClass(parsed.bass) - tonic + 12) % 12;
+    nashville += `/${getNashvilleDegree(bassSemitones)}`;
+    if (inversion === null) {
+      const bass = DEGREE_BY_SEMITONE[bassSemitones];
+      roman += ` (bass ${bass.accidental}${ROMAN_NUMERALS[bass.degree]})`;
+    }
+  }
+
+  return {
+    chord,
+    key,
+    roman,
+    nashville,
+    degree: degree + 1,
+    diatonic,
+    borrowed,
+    secondaryTarget,
+  };
+}
+
+/**
+ * Analyze a chord sequence against a key (detected when not given)
+ */
+export function analyzeProgression(chords: string[], key?: string): ChordFunction[] {
+  const songKey = key ?? detectKey(chords).detectedKey;
+  return chords
+    .map(chord => analyzeChord(chord, songKey))
+    .filter((analysis): analysis is ChordFunction => analysis !== null);
+}
+
+// ----------------------
+// Notation
+// ----------------------
+
+/**
+ * Display a chord in the chosen notation
+ */
+export function formatChordNotation(chord: string, key: string, mode: NotationMode): string {
+  if (mode === 'chords') return chord;
+  const analysis = analyzeChord(chord, key);
+  if (!analysis) return chord;
+  return mode === 'roman' ? analysis.roman : analysis.nashville;
+}
+
+/**
+ * Rewrite the chords of a lyrics sheet (bracketed or chord lines) in the chosen notation
+ */
+export function convertLyricsNotation(lyrics: string, key: string, mode: NotationMode): string {
+  if (mode === 'chords') return lyrics;
+  const convert = (chord: string) => formatChordNotation(chord, key, mode);
+
+  return rewriteLyricsChords(lyrics, convert);
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getChordStep,
+  analyzeChord,
+  analyzeProgression,
+  formatChordNotation,
+  convertLyricsNotation,
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { identifyChord, identifyFingering } from '@/utils/identify';
+import { getTuning } from '@/utils/tuning';
+
+// Positions from frets written lowest string first (x32010)
+const toPositions = (frets: string) =>
+  frets.split('').map((fret, index) => ({ string: frets.length - index, fret: fret === 'x' ? -1 : parseInt(fret, 10) }));
+
+describe('identifyChord', () => {
+  it('names notes in root position without a bass note', () => {
+    expect(identifyChord(['E', 'G', 'C'])[0]).toMatchObject({ chord: 'C', root: 'C', inversion: 0, missing: [] });
+    expect(identifyChord([7, 11, 2, 5])[0].chord).toBe('G7');
+  });
+
+  it('names an inversion as a slash chord', () => {
+    expect(identifyChord(['E', 'G', 'C'], { bass: 'E' })[0]).toMatchObject({ chord: 'C/E', bass: 'E', inversion: 1 });
+  });
+
+  it('allows an optional fifth to be missing', () => {
+    expect(identifyChord(['C', 'E', 'Bb'])[0]).toMatchObject({ chord: 'C7', missing: [7] });
+  });
+
+  it('lists every name of an ambiguous set', () => {
+    expect(identifyChord(['A', 'C', 'E', 'G']).map(match => match.chord)).toEqual(['Am7', 'C6']);
+    expect(identifyChord(['C', 'Eb', 'Gb', 'A']).map(match => match.chord)).toEqual(['Cdim7', 'Adim7', 'Ebdim7', 'F#dim7']);
+  });
+
+  it('spells roots as asked', () => {
+    expect(identifyChord([1, 5, 8], { accidentals: 'flats' })[0].chord).toBe('Db');
+    expect(identifyChord([1, 5, 8], { accidentals: 'sharps' })[0].chord).toBe('C#');
+  });
+
+  it('needs two different notes', () => {
+    expect(identifyChord(['C', 'C'])).toEqual([]);
+  });
+});
+
+describe('identifyFingering', () => {
+  it('names a fretted shape from its lowest note', () => {
+    expect(identifyFingering(toPositions('x32010'))[0].chord).toBe('C');
+    expect(identifyFingering(toPositions('032010'))[0].chord).toBe('C/E');
+    expect(identifyFingering(toPositions('000000'), getTuning('open-g'))[0].chord).toBe('G/D');
+  });
+
+  it('names nothing when every string is muted', () => {
+    expect(identifyFingering(toPositions('xxxxxx'))).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+// ============================================
+// Chord Identifier
+// Names a set of notes or a fretted shape, with inversions as slash chords
+// Candidates come from the same interval model as the chord library
+// ============================================
+
+import { AccidentalPreference, ChordFingering, ChordMatch, ChordSymbol, Tuning } from '@/types';
+import {
+  parseChord,
+  formatChord,
+  getChordIntervals,
+  getOptionalIntervals,
+  getPitchClass,
+} from '@/utils/chord';
+import { STANDARD_TUNING, getFingeringMidiNumbers } from '@/utils/tuning';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// Chord suffixes tried for every root, most common first
+const CHORD_SUFFIXES = [
+  '', 'm', '7', 'm7', 'maj7', '5', 'sus4', 'sus2', '6', 'm6',
+  'add9', 'madd9', 'dim', 'aug', '7sus4', 'm7b5', 'dim7', '9', 'maj9', 'm9',
+  'mMaj7', '6/9', '7b9', '7#9', '7b5', 'aug7', 'add11', '11', 'm11', '7#11',
+  'maj7#11', '13', 'maj13', 'm13',
+];
+
+// Root names used when no spelling is asked for
+const DEFAULT_NOTES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const SHARP_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NOTES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Ranking costs (lower score wins)
+const SUFFIX_COST = 0.1; // Per place down the suffix list
+const MISSING_COST = 0.5; // Per optional tone left out
+const INVERSION_COST = 1; // Bass other than the root
+
+const DEFAULT_LIMIT = 5;
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface IdentifyOptions {
+  bass?: number | string; // Lowest note; ranks root position names first
+  accidentals?: AccidentalPreference;
+  limit?: number;
+}
+
+interface ChordTemplate {
+  suffix: string;
+  symbol: ChordSymbol;
+  intervals: number[];
+  optional: Set<number>;
+  rank: number;
+}
+
+// ----------------------
+// Templates
+// ----------------------
+
+let templates: ChordTemplate[] | null = null;
+
+/**
+ * Chord shapes to match against, built from the suffix list once
+ */
+function getTemplates(): ChordTemplate[] {
+  if (!templates) {
+    templates = CHORD_SUFFIXES.flatMap((suffix, rank) => {
+      const symbol = parseChord(`C${suffix}`);
+      if (!symbol) return [];
+      return [{
+        suffix,
+        symbol,
+        intervals: getChordIntervals(symbol),
+        optional: new Set(getOptionalIntervals(symbol)),
+        rank,
+      }];
+    });
+  }
+  return templates;
+}
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Pitch class of a note name or number
+ */
+function toPitchClass(note: number | string): number {
+  const pitchClass = typeof note === 'number' ? note : getPitchClass(note);
+  return ((pitchClass % 12) + 12) % 12;
+}
+
+/**
+ * Note names for a spelling preference
+ */
+function getNoteNames(accidentals: AccidentalPreference = 'auto'): string[] {
+  if (accidentals === 'sharps') return SHARP_NOTES;
+  if (accidentals === 'flats') return FLAT_NOTES;
+  return DEFAULT_NOTES;
+}
+
+/**
+ * Match the notes against one template on one root.
+ * Every note must belong to the chord and only optional tones may be missing.
+ */
+function matchTemplate(
+  template: ChordTemplate,
+  root: number,
+  pitchClasses: Set<number>,
+  bass: number,
+  names: string[]
+): ChordMatch | null {
+  const relative = (interval: number) => (root + interval) % 12;
+  const chordTones = new Set(template.intervals.map(relative));
+
+  if (Array.from(pitchClasses).some(pc => !chordTones.has(pc))) return null;
+
+  const missing = template.intervals.filter(i => !pitchClasses.has(relative(i)));
+  if (missing.some(i => !template.optional.has(i))) return null;
+
+  const bassInterval = (bass - root + 12) % 12;
+  const inversion = template.intervals.findIndex(i => i % 12 === bassInterval);
+  const rootName = names[root];
+  const bassName = bass !== root ? names[bass] : undefined;
+
+  return {
+    chord: formatChord({ ...template.symbol, root: rootName, bass: bassName }),
+    root: rootName,
+    bass: bassName,
+    inversion,
+    intervals: template.intervals,
+    missing,
+    score: Math.round((
+      template.rank * SUFFIX_COST +
+      missing.length * MISSING_COST +
+      (bassName ? INVERSION_COST : 0)
+    ) * 100) / 100,
+  };
+}
+
+// ----------------------
+// Identification
+// ----------------------
+
+/**
+ * Name a set of notes (pitch classes 0-11 or note names), most likely first.
+ * Without a bass note every name is in root position.
+ */
+export function identifyChord(
+  notes: Array<number | string>,
+  options: IdentifyOptions = {}
+): ChordMatch[] {
+  const pitchClasses = new Set(notes.map(toPitchClass));
+  if (pitchClasses.size < 2) return [];
+
+  const names = getNoteNames(options.accidentals);
+  const bass = options.bass !== undefined ? toPitchClass(options.bass) : undefined;
+  if (bass !== undefined) pitchClasses.add(bass);
+
+  const matches = new Map<string, ChordMatch>();
+  for (const root of Array.from(pitchClasses)) {
+    for (const template of getTemplates()) {
+      const match = matchTemplate(template, root, pitchClasses, bass ?? root, names);
+      const existing = match && matches.get(match.chord);
+      if (match && (!existing || match.score < existing.score)) {
+        matches.set(match.chord, match);
+      }
+    }
+  }
+
+  return Array.from(matches.values())
+    .sort((a, b) => a.score - b.score || a.chord.length - b.chord.length)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * Name a fretted shape (string 1 = highest, fret -1 = muted) in a tuning.
+ * The lowest sounding note is the bass, unless inversions are turned off
+ * for re-entrant tunings where it rarely is.
+ */
+export function identifyFingering(
+  positions: ChordFingering[],
+  tuning: Tuning = STANDARD_TUNING,
+  options: Omit<IdentifyOptions, 'bass'> & { inversions?: boolean } = {}
+): ChordMatch[] {
+  const pitches = getFingeringMidiNumbers(positions, tuning);
+  if (pitches.length === 0) return [];
+  const { inversions = true, ...identifyOptions } = options;
+  return identifyChord(pitches, {
+    ...identifyOptions,
+    bass: inversions ? Math.min(...pitches) : undefined,
+  });
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  identifyChord,
+  identifyFingering,
+};
@@ -9,16 +9,131 @@ export {
   transposeChord,
   transposeChords,
   transposeLyrics,
+  transposeSection,
+  extractChords,
   detectKey,
+  rankKeys,
   transposeKey,
   suggestEasyModeKeys,
-  isBeginnerFriendly,
   getAllKeys,
-  parseChord,
-  isChord,
   getChordFamily,
+  keyUsesFlats,
+  shiftKey,
 } from './transpose';
 
+// Chord grammar
+export {
+  parseChord,
+  formatChord,
+  normalizeChord,
+  getChordIntervals,
+  getOptionalIntervals,
+  isChord,
+  isNoChord,
+  NO_CHORD,
+} from './chord';
+
+// Chord lines (chords-over-lyrics sheets)
+export {
+  parseChordLine,
+  isChordLine,
+  segmentLyricsLine,
+  rewriteChordLine,
+  rewriteLyricsChords,
+  placeChords,
+  anchorInlineChords,
+  mergeChordLine,
+  inlineChordLines,
+} from './chordLine';
+
+// ChordPro import and export
+export { parseChordPro, serializeChordPro } from './chordpro';
+
+// Plain-text chord sheet import
+export { parseChordSheet } from './chordSheet';
+
+// Chord simplification
+export {
+  SIMPLIFICATION_LEVELS,
+  simplifySymbol,
+  simplifyChord,
+  simplifyChords,
+  simplifyLyrics,
+} from './simplify';
+
+// Chord library
+export {
+  getChordCategories,
+  getChordLibraryEntry,
+  getChordSlug,
+  getChordFromSlug,
+} from './chordLibrary';
+
+// Chord voicings
+export {
+  generateVoicings,
+  getBestVoicing,
+  scoreDiagram,
+  getDifficultyLevel,
+  DEFAULT_VOICING_LIMITS,
+} from './voicing';
+
+// Instruments
+export {
+  INSTRUMENTS,
+  DEFAULT_INSTRUMENT,
+  getInstrument,
+  getInstrumentTuning,
+  getInstrumentDiagrams,
+  getInstrumentKeyboardVoicings,
+  getInstrumentChordNotes,
+} from './instruments';
+
+// Keyboard voicings
+export {
+  generateKeyboardVoicings,
+  getMidiNoteName,
+} from './keyboard';
+
+// Chord playback
+export {
+  midiToFrequency,
+  scheduleChord,
+  renderChord,
+} from './audio';
+
+// Metronome
+export {
+  TIME_SIGNATURES,
+  DEFAULT_TIME_SIGNATURE,
+  clampBpm,
+  parseTimeSignature,
+  formatTimeSignature,
+  getDefaultAccents,
+  getClickSchedule,
+  getTapTempo,
+} from './metronome';
+
+// Diagram layout
+export {
+  DEFAULT_DIAGRAM_PREFERENCES,
+  getDiagramFrame,
+} from './diagram';
+
+// Chord identification
+export {
+  identifyChord,
+  identifyFingering,
+} from './identify';
+
+// Chord difficulty
+export {
+  getChordDifficulty,
+  isBeginnerFriendly,
+  getProgressionDifficulty,
+  rateEasyModeKeys,
+} from './difficulty';
+
 // Validation utilities
 export {
   validateMetadata,
@@ -27,3 +142,92 @@ export {
   validateSong,
 } from './validation';
 
+// Song structure (sections, lines and segments)
+export {
+  getSectionType,
+  parseSectionHeader,
+  parseRepeatMark,
+  parseSectionReference,
+  findSection,
+  segmentAnchoredLine,
+  parseSongLines,
+  formatSongLine,
+  getLineChords,
+  setSectionLines,
+  createSection,
+  mapSectionChords,
+  mapSectionTabs,
+  createReference,
+  getPlayingOrder,
+  parseSections,
+} from './songStructure';
+
+// Tablature
+export {
+  isTabLine,
+  parseTab,
+  layoutTabString,
+  formatTab,
+  transposeTab,
+  getUnplayableNotes,
+} from './tablature';
+
+// Section key analysis
+export {
+  analyzeSectionKeys,
+  analyzeSongKeys,
+} from './keyAnalysis';
+
+
+// Harmonic analysis
+export {
+  getChordStep,
+  analyzeChord,
+  analyzeProgression,
+  formatChordNotation,
+  convertLyricsNotation,
+} from './harmony';
+
+// Common progressions
+export {
+  PROGRESSIONS,
+  getProgression,
+  formatProgression,
+  getProgressionChords,
+  findProgressions,
+  findSectionProgressions,
+} from './progressions';
+
+// Chord substitutions
+export {
+  suggestSubstitutions,
+  applySubstitutions,
+  countSubstitutionTargets,
+} from './substitutions';
+
+// Scales and modes
+export {
+  SCALES,
+  getScale,
+  getScaleDegrees,
+  getScaleNotes,
+  getScalePositions,
+  suggestSoloScales,
+} from './scales';
+
+// Capo advisor
+export { suggestCapoPositions } from './capo';
+
+// Tunings
+export {
+  TUNING_PRESETS,
+  STANDARD_TUNING,
+  getTuning,
+  createCustomTuning,
+  describeTuning,
+  isStandardTuning,
+  describeShapes,
+  getSoundingKey,
+  getShapeKey,
+  filterDiagramsByTuning,
+} from './tuning';
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ChordDiagram } from '@/types';
+import {
+  getInstrument,
+  getInstrumentChordNotes,
+  getInstrumentDiagrams,
+  getInstrumentKeyboardVoicings,
+  getInstrumentTuning,
+} from '@/utils/instruments';
+import { getTuning } from '@/utils/tuning';
+
+// Frets of a diagram, lowest string first
+const toFrets = (diagram: ChordDiagram) =>
+  [...diagram.positions]
+    .sort((a, b) => b.string - a.string)
+    .map(position => (position.fret < 0 ? 'x' : String(position.fret)))
+    .join('');
+
+describe('instruments', () => {
+  it('voices chords for each fretted instrument in its own tuning', () => {
+    expect(getInstrumentDiagrams('C', getInstrument('ukulele'), undefined, 1).map(toFrets)).toEqual(['0003']);
+    expect(getInstrumentDiagrams('C', getInstrument('mandolin'), undefined, 1).map(toFrets)).toEqual(['0230']);
+    expect(getInstrumentDiagrams('C', getInstrument('bass'), undefined, 1).map(toFrets)).toEqual(['x320']);
+  });
+
+  it('gives piano keyboard voicings and no diagrams', () => {
+    const piano = getInstrument('piano');
+    expect(getInstrumentDiagrams('C', piano)).toEqual([]);
+    expect(getInstrumentKeyboardVoicings('C', piano)[0].notes).toEqual([60, 64, 67]);
+    expect(getInstrumentKeyboardVoicings('C', getInstrument('guitar'))).toEqual([]);
+  });
+
+  it('follows the chosen tuning on guitar only', () => {
+    const dropD = getTuning('drop-d');
+    expect(getInstrumentTuning(getInstrument('guitar'), dropD)).toBe(dropD);
+    expect(getInstrumentTuning(getInstrument('ukulele'), dropD)?.id).toBe('ukulele');
+    expect(getInstrumentTuning(getInstrument('piano'), dropD)).toBeUndefined();
+  });
+
+  it('plays the notes of the chart shown', () => {
+    expect(getInstrumentChordNotes('C', getInstrument('ukulele'))).toEqual([67, 60, 64, 72]);
+    expect(getInstrumentChordNotes('C', getInstrument('piano'))).toEqual([60, 64, 67]);
+  });
+
+  it('falls back to guitar for an unknown instrument', () => {
+    expect(getInstrument('banjo').id).toBe('guitar');
+  });
+});
@@ -0,0 +1,127 @@
+// ============================================
+// Instruments
+// Profiles for guitar, ukulele, bass, mandolin and piano,
+// and chord diagrams generated for each of them
+// ============================================
+
+import { ChordDiagram, Instrument, InstrumentId, KeyboardVoicing, Tuning } from '@/types';
+import { STANDARD_TUNING, getFingeringMidiNumbers } from '@/utils/tuning';
+import { DEFAULT_VOICING_LIMITS, generateVoicings } from '@/utils/voicing';
+import { generateKeyboardVoicings } from '@/utils/keyboard';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const INSTRUMENTS: Instrument[] = [
+  {
+    id: 'guitar',
+    name: 'Guitar',
+    layout: 'fretboard',
+    tuning: STANDARD_TUNING,
+    voicing: DEFAULT_VOICING_LIMITS,
+  },
+  {
+    id: 'ukulele',
+    name: 'Ukulele',
+    layout: 'fretboard',
+    tuning: { id: 'ukulele', name: 'Ukulele (G C E A)', strings: ['G4', 'C4', 'E4', 'A4'] },
+    voicing: { maxFret: 12, maxSpan: 3, minStrings: 4, rootInBass: false },
+  },
+  {
+    id: 'bass',
+    name: 'Bass',
+    layout: 'fretboard',
+    tuning: { id: 'bass', name: 'Bass (E A D G)', strings: ['E1', 'A1', 'D2', 'G2'] },
+    voicing: { maxFret: 12, maxSpan: 3, minStrings: 2, rootInBass: true },
+  },
+  {
+    id: 'mandolin',
+    name: 'Mandolin',
+    layout: 'fretboard',
+    tuning: { id: 'mandolin', name: 'Mandolin (G D A E)', strings: ['G3', 'D4', 'A4', 'E5'] },
+    // Short scale: wider stretches, and chop chords rarely have the root lowest
+    voicing: { maxFret: 12, maxSpan: 4, minStrings: 3, rootInBass: false },
+  },
+  {
+    id: 'piano',
+    name: 'Piano',
+    layout: 'keyboard',
+  },
+];
+
+export const DEFAULT_INSTRUMENT = INSTRUMENTS[0];
+
+// ----------------------
+// Instrument Lookup
+// ----------------------
+
+/**
+ * Find an instrument by id (guitar when unknown)
+ */
+export function getInstrument(id: InstrumentId | string): Instrument {
+  return INSTRUMENTS.find(instrument => instrument.id === id) ?? DEFAULT_INSTRUMENT;
+}
+
+/**
+ * Tuning to voice chords in: guitar follows the chosen guitar tuning,
+ * other fretted instruments use their own, piano has none
+ */
+export function getInstrumentTuning(
+  instrument: Instrument,
+  guitarTuning: Tuning = STANDARD_TUNING
+): Tuning | undefined {
+  return instrument.id === 'guitar' ? guitarTuning : instrument.tuning;
+}
+
+// ----------------------
+// Diagrams
+// ----------------------
+
+/**
+ * Chord diagrams for a fretted instrument, easiest first (none for piano)
+ */
+export function getInstrumentDiagrams(
+  chord: string,
+  instrument: Instrument,
+  tuning?: Tuning,
+  limit?: number
+): ChordDiagram[] {
+  const instrumentTuning = tuning ?? instrument.tuning;
+  if (instrument.layout !== 'fretboard' || !instrumentTuning) return [];
+  return generateVoicings(chord, instrumentTuning, limit, instrument.voicing);
+}
+
+/**
+ * Keyboard voicings for piano (none for fretted instruments)
+ */
+export function getInstrumentKeyboardVoicings(chord: string, instrument: Instrument): KeyboardVoicing[] {
+  return instrument.layout === 'keyboard' ? generateKeyboardVoicings(chord) : [];
+}
+
+/**
+ * MIDI notes of the chart shown for a chord (its easiest voicing), lowest string first.
+ * Empty when the instrument has no shape for it.
+ */
+export function getInstrumentChordNotes(chord: string, instrument: Instrument, tuning?: Tuning): number[] {
+  const keys = getInstrumentKeyboardVoicings(chord, instrument)[0];
+  if (keys) return keys.notes;
+
+  const diagram = getInstrumentDiagrams(chord, instrument, tuning, 1)[0];
+  const instrumentTuning = tuning ?? instrument.tuning;
+  return diagram && instrumentTuning ? getFingeringMidiNumbers(diagram.positions, instrumentTuning) : [];
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  INSTRUMENTS,
+  DEFAULT_INSTRUMENT,
+  getInstrument,
+  getInstrumentTuning,
+  getInstrumentDiagrams,
+  getInstrumentKeyboardVoicings,
+  getInstrumentChordNotes,
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSectionKeys, analyzeSongKeys } from '@/utils/keyAnalysis';
+import { parseChordPro } from '@/utils/chordpro';
+import { parseSections } from '@/utils/songStructure';
+
+describe('analyzeSectionKeys', () => {
+  it('reports a move to the relative major', () => {
+    const sections = parseSections(
+      '[Verse]\n[Am]a [Dm]b [E7]c [Am]d [F]e [E]f [Am]g\n[Bridge]\n[C]a [F]b [G]c [C]d [F]e [G7]f [C]g'
+    );
+    const { modulations } = analyzeSectionKeys(sections, 'Am');
+
+    expect(modulations).toEqual([
+      { sectionIndex: 1, fromKey: 'Am', toKey: 'C', semitones: 3, type: 'relative' },
+    ]);
+  });
+
+  it('reports a move from a minor song to its relative major bridge', () => {
+    const sections = parseSections(
+      '[Verse]\n[Em]a [C]b [D]c [Em]d [Am]e [B7]f [Em]g\n[Bridge]\n[G]a [C]b [D]c [G]d [C]e [D]f [G]g'
+    );
+    const { sections: analyzed, modulations } = analyzeSectionKeys(sections, 'Em');
+
+    expect(analyzed.map(section => section.key)).toEqual(['Em', 'G']);
+    expect(modulations[0].type).toBe('relative');
+  });
+
+  it('keeps the key of sections that only lean on the relative chords', () => {
+    const sections = parseSections('[Verse]\n[Am]a [F]b [C]c [G]d\n[Chorus]\n[F]a [G]b [C]c [Am]d');
+    expect(analyzeSectionKeys(sections, 'Am').modulations).toEqual([]);
+  });
+
+  it('keeps keys the sections declare and modulates from them', () => {
+    const song = analyzeSongKeys(parseChordPro(
+      '{key: C}\n[C]a [F]b [G]c [C]d\n\n{key: D}\n[G]a [C]b [G]c [D]d\n\n[D]a [G]b [Em]c [D]d'
+    ));
+
+    expect(song.sections.map(section => section.key)).toEqual(['C', 'D', 'D']);
+    expect(song.modulations).toEqual([
+      { sectionIndex: 1, fromKey: 'C', toKey: 'D', semitones: 2, type: 'step' },
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+// ============================================
+// Section Key Analysis
+// Per-section key detection and modulation points
+// ============================================
+
+import { ChordSymbol, Modulation, ParsedSong, SongSection } from '@/types';
+import { getPitchClass, parseChord } from '@/utils/chord';
+import {
+  detectKey,
+  rankKeys,
+  getSemitoneDistance,
+  getRelativeMajor,
+  getRelativeMinor,
+} from '@/utils/transpose';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// How much better (score per chord) a new key must fit before we call it a modulation
+const MODULATION_MARGIN = 0.25;
+
+// Sections with fewer chords than this inherit the previous key
+const MIN_SECTION_CHORDS = 3;
+
+// A section diatonic to both keys moves only when the new tonic has this
+// much more evidence (tonic chords, cadences, first and last chord)
+const TONIC_EVIDENCE_MARGIN = 3;
+
+// At or above this share of diatonic chords a section fits a key
+const DIATONIC_FIT = 0.85;
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface SectionKeyAnalysis {
+  sections: SongSection[];
+  modulations: Modulation[];
+  songKey: string;
+  keys: string[]; // Every key the song visits, main key first
+}
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Classify the relationship between two keys
+ */
+function getModulationType(fromKey: string, toKey: string): Modulation['type'] {
+  const fromMinor = fromKey.endsWith('m');
+  const toMinor = toKey.endsWith('m');
+  const semitones = getSemitoneDistance(fromKey, toKey);
+
+  if (fromMinor !== toMinor) {
+    const relative = fromMinor ? getRelativeMajor(fromKey) : getRelativeMinor(fromKey);
+    if (relative === toKey) return 'relative';
+    if (semitones === 0) return 'parallel';
+    return 'other';
+  }
+
+  return Math.abs(semitones) <= 2 ? 'step' : 'other';
+}
+
+/**
+ * How strongly a section's chords centre on the tonic of a key: tonic
+ * chords, cadences into them (V-I, IV-I, bVII-i), and a first or last
+ * chord on the tonic
+ */
+function getTonicEvidence(chords: ChordSymbol[], key: string): number {
+  const minor = key.endsWith('m');
+  const tonic = getPitchClass(minor ? key.slice(0, -1) : key);
+  const degree = (chord: ChordSymbol) => (getPitchClass(chord.root) - tonic + 12) % 12;
+  // Sus and power chords have no third, so they can stand for either tonic
+  const isTonic = (chord: ChordSymbol | undefined) =>
+    !!chord && degree(chord) === 0 &&
+    ['sus2', 'sus4', 'power', minor ? 'minor' : 'major'].includes(chord.quality);
+
+  let evidence = 0;
+  chords.forEach((chord, i) => {
+    if (!isTonic(chord)) return;
+    evidence++;
+    const previous = i > 0 ? degree(chords[i - 1]) : null;
+    if (previous === 7 || previous === 5 || (minor && previous === 10)) evidence++;
+  });
+  if (isTonic(chords[0])) evidence++;
+  if (isTonic(chords[chords.length - 1])) evidence++;
+  return evidence;
+}
+
+/**
+ * Pick the key of one section, staying in the current key unless
+ * another key fits clearly better. Keys sharing their chords (relative
+ * major and minor) fit equally well, so between those the tonic the
+ * section centres on decides.
+ */
+function detectSectionKey(chords: string[], currentKey: string): string {
+  if (chords.length < MIN_SECTION_CHORDS) {
+    return currentKey;
+  }
+
+  const ranking = rankKeys(chords);
+  const best = ranking[0];
+  const current = ranking.find(k => k.key === currentKey);
+
+  if (!best || !current || best.key === currentKey) {
+    return currentKey;
+  }
+
+  if (current.diatonicFit >= DIATONIC_FIT) {
+    // Still diatonic to the current key: a modulation only if the section
+    // fits the new key as well and is clearly centred on its tonic
+    if (best.diatonicFit < DIATONIC_FIT) return currentKey;
+    const parsed = chords
+      .map(chord => parseChord(chord))
+      .filter((chord): chord is ChordSymbol => chord !== null);
+    const margin = getTonicEvidence(parsed, best.key) - getTonicEvidence(parsed, currentKey);
+    return margin >= TONIC_EVIDENCE_MARGIN ? best.key : currentKey;
+  }
+
+  return best.score - current.score < MODULATION_MARGIN ? currentKey : best.key;
+}
+
+// ----------------------
+// Section Analysis
+// ----------------------
+
+/**
+ * Detect the key of every section and the modulation points between them.
+ * A key the section already declares ({key: D} in ChordPro) is kept.
+ */
+export function analyzeSectionKeys(
+  sections: SongSection[],
+  songKey?: string
+): SectionKeyAnalysis {
+  const allChords = sections.flatMap(section => section.chords ?? []);
+  const mainKey = songKey ?? detectKey(allChords).detectedKey;
+
+  const modulations: Modulation[] = [];
+  const keys = [mainKey];
+  let currentKey = mainKey;
+
+  const sectionKeys: string[] = [];
+  const analyzed = sections.map((section, index) => {
+    // A repeated section comes back in its own key
+    const key = section.key ?? (section.reference !== undefined
+      ? sectionKeys[section.reference] ?? currentKey
+      : detectSectionKey(section.chords ?? [], currentKey));
+    sectionKeys.push(key);
+
+    if (key !== currentKey) {
+      modulations.push({
+        sectionIndex: index,
+        fromKey: currentKey,
+        toKey: key,
+        semitones: getSemitoneDistance(currentKey, key),
+        type: getModulationType(currentKey, key),
+      });
+      if (!keys.includes(key)) keys.push(key);
+      currentKey = key;
+    }
+
+    return { ...section, key };
+  });
+
+  return {
+    sections: analyzed,
+    modulations,
+    songKey: mainKey,
+    keys,
+  };
+}
+
+/**
+ * Fill in section keys, the original key and modulations of a parsed song
+ */
+export function analyzeSongKeys(song: ParsedSong): ParsedSong {
+  const analysis = analyzeSectionKeys(song.sections, song.originalKey);
+
+  return {
+    ...song,
+    sections: analysis.sections,
+    originalKey: analysis.songKey,
+    modulations: analysis.modulations,
+  };
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  analyzeSectionKeys,
+  analyzeSongKeys,
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { generateKeyboardVoicings, getMidiNoteName } from '@/utils/keyboard';
+
+describe('generateKeyboardVoicings', () => {
+  it('places a triad around middle C with its inversions', () => {
+    expect(generateKeyboardVoicings('C')).toEqual([
+      { chord: 'C', notes: [60, 64, 67], inversion: 0 },
+      { chord: 'C', notes: [64, 67, 72], inversion: 1 },
+      { chord: 'C', notes: [67, 72, 76], inversion: 2 },
+    ]);
+  });
+
+  it('puts roots from F upwards below middle C', () => {
+    expect(generateKeyboardVoicings('G7').map(voicing => voicing.notes.map(getMidiNoteName))).toEqual([
+      ['G3', 'B3', 'D4', 'F4'],
+      ['B3', 'D4', 'F4', 'G4'],
+      ['D4', 'F4', 'G4', 'B4'],
+      ['F4', 'G4', 'B4', 'D5'],
+    ]);
+  });
+
+  it('keeps extensions on top', () => {
+    expect(generateKeyboardVoicings('Cadd9').map(voicing => voicing.notes[voicing.notes.length - 1] % 12))
+      .toEqual([2, 2, 4]);
+  });
+
+  it('adds a slash bass below the right hand', () => {
+    expect(generateKeyboardVoicings('C/E')[0].notes).toEqual([52, 60, 64, 67]);
+  });
+
+  it('returns nothing for symbols that are not chords', () => {
+    expect(generateKeyboardVoicings('N.C.')).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+// ============================================
+// Keyboard Voicings
+// Places a chord's intervals on the piano around middle C,
+// with inversions and slash basses in the left hand
+// ============================================
+
+import { ChordSymbol, KeyboardVoicing } from '@/types';
+import { parseChord, formatChord, getChordIntervals, getPitchClass } from '@/utils/chord';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const MIDDLE_C = 60;
+const LOWEST_ROOT_PITCH = 5; // Roots from F upwards sit below middle C
+const OCTAVE = 12;
+const MAX_INVERSIONS = 3;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * MIDI number of a root between F3 and E4
+ */
+function getRootMidi(pitchClass: number): number {
+  return MIDDLE_C + pitchClass - (pitchClass >= LOWEST_ROOT_PITCH ? OCTAVE : 0);
+}
+
+/**
+ * Name of a MIDI note with its octave (C4 = middle C)
+ */
+export function getMidiNoteName(midi: number): string {
+  return `${NOTE_NAMES[midi % OCTAVE]}${Math.floor(midi / OCTAVE) - 1}`;
+}
+
+// ----------------------
+// Voicings
+// ----------------------
+
+/**
+ * Root position and inversions of a chord on the keyboard.
+ * Extensions stay on top; each inversion lifts the lowest chord tone an octave.
+ * A slash bass is added below the right-hand voicing.
+ */
+export function generateKeyboardVoicings(chord: string | ChordSymbol): KeyboardVoicing[] {
+  const symbol = typeof chord === 'string' ? parseChord(chord) : chord;
+  if (!symbol) return [];
+
+  const name = formatChord(symbol);
+  const root = getRootMidi(getPitchClass(symbol.root));
+  const intervals = getChordIntervals(symbol);
+  const inversionCount = Math.min(MAX_INVERSIONS, intervals.filter(i => i < OCTAVE).length - 1);
+
+  return Array.from({ length: inversionCount + 1 }, (_, inversion) => {
+    const notes = intervals
+      .map((interval, index) => root + interval + (index < inversion && interval < OCTAVE ? OCTAVE : 0))
+      .sort((a, b) => a - b);
+
+    if (symbol.bass) {
+      let bass = getRootMidi(getPitchClass(symbol.bass));
+      while (bass >= notes[0]) bass -= OCTAVE;
+      notes.unshift(bass);
+    }
+
+    return { chord: name, notes, inversion };
+  });
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getMidiNoteName,
+  generateKeyboardVoicings,
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MetronomeSettings } from '@/types';
+import {
+  addTap,
+  clampBpm,
+  cycleAccent,
+  getClickSchedule,
+  getDefaultAccents,
+  getSecondsPerBeat,
+  getTapTempo,
+  parseTimeSignature,
+} from '@/utils/metronome';
+
+const SIX_EIGHT: MetronomeSettings = {
+  bpm: 120,
+  timeSignature: { beats: 6, noteValue: 8 },
+  accents: ['strong', 'weak', 'weak', 'medium', 'weak', 'off'],
+  subdivision: 1,
+};
+
+describe('tempo and meter', () => {
+  it('keeps tempos in range and times beats from them', () => {
+    expect(clampBpm(10)).toBe(30);
+    expect(clampBpm(999)).toBe(300);
+    expect(clampBpm(96.4)).toBe(96);
+    expect(getSecondsPerBeat(120)).toBe(0.5);
+  });
+
+  it('parses time signatures', () => {
+    expect(parseTimeSignature('6/8')).toEqual({ beats: 6, noteValue: 8 });
+    expect(parseTimeSignature('4/3')).toBeNull();
+    expect(parseTimeSignature('waltz')).toBeNull();
+  });
+
+  it('accents the downbeat and, in compound meters, each group of three', () => {
+    expect(getDefaultAccents({ beats: 4, noteValue: 4 })).toEqual(['strong', 'weak', 'weak', 'weak']);
+    expect(getDefaultAccents({ beats: 6, noteValue: 8 })).toEqual(['strong', 'weak', 'weak', 'medium', 'weak', 'weak']);
+    expect(cycleAccent('off')).toBe('strong');
+  });
+});
+
+describe('getClickSchedule', () => {
+  it('clicks every beat of a count-in with its accent', () => {
+    const clicks = getClickSchedule(SIX_EIGHT, 2);
+    expect(clicks).toHaveLength(12);
+    expect(clicks.map(click => click.level).slice(0, 6)).toEqual(SIX_EIGHT.accents);
+    expect(clicks[7]).toMatchObject({ time: 3.5, bar: 1, beat: 1 });
+  });
+
+  it('clicks subdivisions softly, and not on a beat that is off', () => {
+    const clicks = getClickSchedule({ ...SIX_EIGHT, subdivision: 2 }, 1);
+    expect(clicks).toHaveLength(12);
+    expect(clicks[1]).toMatchObject({ time: 0.25, beat: 0, subdivision: 1, level: 'weak' });
+    expect(clicks.slice(10).map(click => click.level)).toEqual(['off', 'off']);
+  });
+});
+
+describe('tap tempo', () => {
+  it('averages the gaps between taps', () => {
+    const taps = [0, 500, 1000, 1500].reduce<number[]>((recent, time) => addTap(recent, time), []);
+    expect(getTapTempo(taps)).toBe(120);
+    expect(getTapTempo([0])).toBeNull();
+  });
+
+  it('starts over after a long pause', () => {
+    expect(addTap([0, 500], 5000)).toEqual([5000]);
+  });
+});
@@ -0,0 +1,208 @@
+// ============================================
+// Metronome
+// Click timing, accent patterns, tap tempo and Web Audio clicks
+// ============================================
+
+import { AccentLevel, MetronomeSettings, TimeSignature } from '@/types';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const MIN_BPM = 30;
+export const MAX_BPM = 300;
+export const DEFAULT_BPM = 100;
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, noteValue: 4 };
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 2, noteValue: 4 },
+  { beats: 3, noteValue: 4 },
+  { beats: 4, noteValue: 4 },
+  { beats: 5, noteValue: 4 },
+  { beats: 6, noteValue: 8 },
+  { beats: 7, noteValue: 8 },
+  { beats: 9, noteValue: 8 },
+  { beats: 12, noteValue: 8 },
+];
+
+export const ACCENT_LEVELS: AccentLevel[] = ['strong', 'medium', 'weak', 'off'];
+
+// Click pitch (Hz) and loudness per accent; subdivisions click softer still
+const CLICKS: Record<Exclude<AccentLevel, 'off'>, { frequency: number; gain: number }> = {
+  strong: { frequency: 1600, gain: 0.9 },
+  medium: { frequency: 1200, gain: 0.6 },
+  weak: { frequency: 1000, gain: 0.4 },
+};
+const SUBDIVISION_CLICK = { frequency: 800, gain: 0.2 };
+const CLICK_LENGTH = 0.05; // Seconds
+const SILENCE = 0.0001;
+
+// Taps further apart than this start a new tempo
+const MAX_TAP_GAP = 2000; // Milliseconds
+const MAX_TAPS = 8;
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+export interface MetronomeClick {
+  time: number; // Seconds from the start
+  bar: number;
+  beat: number; // 0-based within the bar
+  subdivision: number; // 0 on the beat
+  level: AccentLevel;
+}
+
+// ----------------------
+// Tempo and Meter
+// ----------------------
+
+/**
+ * Keep a tempo in the metronome's range, rounded to a whole BPM
+ */
+export function clampBpm(bpm: number): number {
+  return Math.round(Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)));
+}
+
+/**
+ * Seconds per beat; BPM counts the time signature's beat (quarters in 4/4, eighths in 6/8)
+ */
+export function getSecondsPerBeat(bpm: number): number {
+  return 60 / clampBpm(bpm);
+}
+
+/**
+ * Parse "6/8" into a time signature, or null when it is not one
+ */
+export function parseTimeSignature(text: string): TimeSignature | null {
+  const match = text.trim().match(/^(\d{1,2})\s*\/\s*(1|2|4|8|16)$/);
+  if (!match || Number(match[1]) < 1) return null;
+  return { beats: Number(match[1]), noteValue: Number(match[2]) };
+}
+
+/**
+ * Display a time signature: 6/8
+ */
+export function formatTimeSignature({ beats, noteValue }: TimeSignature): string {
+  return `${beats}/${noteValue}`;
+}
+
+/**
+ * Default accents for a meter: strong downbeat, then medium at the start of
+ * each group of three in compound meters (6/8, 9/8, 12/8)
+ */
+export function getDefaultAccents({ beats, noteValue }: TimeSignature): AccentLevel[] {
+  const compound = noteValue === 8 && beats > 3 && beats % 3 === 0;
+  return Array.from({ length: beats }, (_, beat) => {
+    if (beat === 0) return 'strong';
+    if (compound && beat % 3 === 0) return 'medium';
+    return 'weak';
+  });
+}
+
+/**
+ * Next accent when a beat is tapped: strong -> medium -> weak -> off -> strong
+ */
+export function cycleAccent(level: AccentLevel): AccentLevel {
+  return ACCENT_LEVELS[(ACCENT_LEVELS.indexOf(level) + 1) % ACCENT_LEVELS.length];
+}
+
+// ----------------------
+// Scheduling
+// ----------------------
+
+/**
+ * The click at a step (counting every subdivision from the first downbeat)
+ */
+export function getClick(step: number, settings: MetronomeSettings): MetronomeClick {
+  const { bpm, timeSignature, accents, subdivision } = settings;
+  const perBeat = Math.max(1, Math.round(subdivision));
+  const perBar = timeSignature.beats * perBeat;
+
+  const bar = Math.floor(step / perBar);
+  const beat = Math.floor((step % perBar) / perBeat);
+  const sub = step % perBeat;
+  const beatLevel = accents[beat] ?? 'weak';
+
+  return {
+    time: (step / perBeat) * getSecondsPerBeat(bpm),
+    bar,
+    beat,
+    subdivision: sub,
+    // Subdivisions click only when their beat does
+    level: sub === 0 || beatLevel === 'off' ? beatLevel : 'weak',
+  };
+}
+
+/**
+ * Every click of a number of bars, e.g. a count-in
+ */
+export function getClickSchedule(settings: MetronomeSettings, bars: number): MetronomeClick[] {
+  const perBar = settings.timeSignature.beats * Math.max(1, Math.round(settings.subdivision));
+  return Array.from({ length: Math.max(0, bars) * perBar }, (_, step) => getClick(step, settings));
+}
+
+/**
+ * Schedule one click on a context
+ */
+export function scheduleClick(context: BaseAudioContext, click: MetronomeClick, when: number): void {
+  if (click.level === 'off') return;
+  const { frequency, gain: level } = click.subdivision === 0 ? CLICKS[click.level] : SUBDIVISION_CLICK;
+
+  const oscillator = context.createOscillator();
+  oscillator.frequency.setValueAtTime(frequency, when);
+
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(level, when);
+  gain.gain.exponentialRampToValueAtTime(SILENCE, when + CLICK_LENGTH);
+
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start(when);
+  oscillator.stop(when + CLICK_LENGTH);
+}
+
+// ----------------------
+// Tap Tempo
+// ----------------------
+
+/**
+ * Add a tap (milliseconds) to the recent taps, starting over after a long pause
+ */
+export function addTap(taps: number[], time: number): number[] {
+  const last = taps[taps.length - 1];
+  if (last !== undefined && time - last > MAX_TAP_GAP) return [time];
+  return [...taps, time].slice(-MAX_TAPS);
+}
+
+/**
+ * Tempo from tap times in milliseconds, or null until there are two taps
+ */
+export function getTapTempo(taps: number[]): number | null {
+  if (taps.length < 2) return null;
+  const average = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+  return average > 0 ? clampBpm(60000 / average) : null;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  MIN_BPM,
+  MAX_BPM,
+  DEFAULT_BPM,
+  DEFAULT_TIME_SIGNATURE,
+  TIME_SIGNATURES,
+  clampBpm,
+  getSecondsPerBeat,
+  parseTimeSignature,
+  formatTimeSignature,
+  getDefaultAccents,
+  cycleAccent,
+  getClick,
+  getClickSchedule,
+  scheduleClick,
+  addTap,
+  getTapTempo,
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ProgressionDefinition, ProgressionMatch } from '@/types';
+import { findProgressions, formatProgression, getProgression, getProgressionChords } from '@/utils/progressions';
+
+const progression = (id: string) => getProgression(id) as ProgressionDefinition;
+const summarize = (matches: ProgressionMatch[]) =>
+  matches.map(match => ({ id: match.progression.id, key: match.key, chords: match.chords.join(' '), start: match.start }));
+
+describe('getProgressionChords', () => {
+  it('spells a progression in a key', () => {
+    expect(formatProgression(progression('pop'))).toBe('I–V–vi–IV');
+    expect(getProgressionChords(progression('pop'), 'G')).toEqual(['G', 'D', 'Em', 'C']);
+    expect(getProgressionChords(progression('minor-ii-v-i'), 'Am')).toEqual(['Bm7b5', 'E7', 'Am']);
+  });
+
+  it('plays a progression in the relative key of the other mode', () => {
+    expect(getProgressionChords(progression('pop'), 'Em')).toEqual(['G', 'D', 'Em', 'C']);
+    expect(getProgressionChords(progression('andalusian'), 'C')).toEqual(['Am', 'G', 'F', 'E']);
+  });
+});
+
+describe('findProgressions', () => {
+  it('finds a progression with repeated chords counted once', () => {
+    expect(summarize(findProgressions(['G', 'G', 'D', 'Em', 'C'], 'G'))).toEqual([
+      { id: 'pop', key: 'G', chords: 'G G D Em C', start: 0 },
+    ]);
+  });
+
+  it('names a loop heard both ways in the song key', () => {
+    expect(summarize(findProgressions(['Am', 'F', 'C', 'G'], 'Am'))).toEqual([
+      { id: 'epic', key: 'Am', chords: 'Am F C G', start: 0 },
+    ]);
+    expect(summarize(findProgressions(['Am', 'F', 'C', 'G'], 'C'))).toEqual([
+      { id: 'pop-minor-start', key: 'C', chords: 'Am F C G', start: 0 },
+    ]);
+  });
+
+  it('lets the 12-bar blues hide the shorter progressions inside it', () => {
+    const blues = ['A7', 'A7', 'A7', 'A7', 'D7', 'D7', 'A7', 'A7', 'E7', 'D7', 'A7', 'A7'];
+    expect(summarize(findProgressions(blues))).toEqual([
+      { id: 'twelve-bar-blues', key: 'A', chords: blues.join(' '), start: 0 },
+    ]);
+  });
+
+  it('matches sevenths to plain numerals and skips N.C.', () => {
+    expect(summarize(findProgressions(['Dm7', 'G7', 'Cmaj7', 'N.C.'], 'C'))).toEqual([
+      { id: 'ii-v-i', key: 'C', chords: 'Dm7 G7 Cmaj7', start: 0 },
+    ]);
+    expect(findProgressions([])).toEqual([]);
+  });
+});
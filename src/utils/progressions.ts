@@ -0,0 +1,313 @@
+// ============================================
+// Chord Progressions
+// A library of well-known progressions, spelled in any key,
+// and recognised in a song's chords through their Roman numerals
+// ============================================
+
+import { ChordStep, ProgressionDefinition, ProgressionMatch, SemitoneShift, SongSection } from '@/types';
+import { isNoChord } from '@/utils/chord';
+import { getChordStep } from '@/utils/harmony';
+import { detectKey, keyUsesFlats, transposeChord } from '@/utils/transpose';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const PROGRESSIONS: ProgressionDefinition[] = [
+  {
+    id: 'pop',
+    name: 'Pop progression',
+    mode: 'major',
+    numerals: ['I', 'V', 'vi', 'IV'],
+    description: 'The four chords behind countless pop and rock hits',
+  },
+  {
+    id: 'pop-minor-start',
+    name: 'Sensitive progression',
+    mode: 'major',
+    numerals: ['vi', 'IV', 'I', 'V'],
+    description: 'The pop progression started on the relative minor',
+  },
+  {
+    id: 'doo-wop',
+    name: 'Doo-wop',
+    mode: 'major',
+    numerals: ['I', 'vi', 'IV', 'V'],
+    description: 'The 1950s progression, also called the ice cream changes',
+  },
+  {
+    id: 'ii-v-i',
+    name: 'ii–V–I',
+    mode: 'major',
+    numerals: ['ii', 'V', 'I'],
+    description: 'The cadence at the heart of jazz harmony',
+  },
+  {
+    id: 'minor-ii-v-i',
+    name: 'Minor ii–V–i',
+    mode: 'minor',
+    numerals: ['iiø7', 'V7', 'i'],
+    description: 'The jazz cadence resolving to a minor tonic',
+  },
+  {
+    id: 'twelve-bar-blues',
+    name: '12-bar blues',
+    mode: 'major',
+    numerals: ['I7', 'I7', 'I7', 'I7', 'IV7', 'IV7', 'I7', 'I7', 'V7', 'IV7', 'I7', 'I7'],
+    description: 'Twelve bars of I, IV and V, the backbone of blues and early rock and roll',
+  },
+  {
+    id: 'three-chord',
+    name: 'Three-chord song',
+    mode: 'major',
+    numerals: ['I', 'IV', 'V'],
+    description: 'Folk, country and punk staple',
+  },
+  {
+    id: 'andalusian',
+    name: 'Andalusian cadence',
+    mode: 'minor',
+    numerals: ['i', 'bVII', 'bVI', 'V'],
+    description: 'A descending minor line from flamenco, heard throughout rock',
+  },
+  {
+    id: 'epic',
+    name: 'Aeolian loop',
+    mode: 'minor',
+    numerals: ['i', 'bVI', 'bIII', 'bVII'],
+    description: 'The anthemic minor loop of film scores and stadium rock',
+  },
+  {
+    id: 'mixolydian',
+    name: 'Mixolydian vamp',
+    mode: 'major',
+    numerals: ['I', 'bVII', 'IV', 'I'],
+    description: 'Classic rock with a borrowed flat seven',
+  },
+  {
+    id: 'royal-road',
+    name: 'Royal road',
+    mode: 'major',
+    numerals: ['IV', 'V', 'iii', 'vi'],
+    description: 'The J-pop favourite, climbing to the relative minor',
+  },
+  {
+    id: 'pachelbel',
+    name: 'Pachelbel’s Canon',
+    mode: 'major',
+    numerals: ['I', 'V', 'vi', 'iii', 'IV', 'I', 'IV', 'V'],
+    description: 'The baroque ground bass borrowed by pop ballads',
+  },
+];
+
+// Semitones above the tonic of each numeral in the major scale
+const NUMERAL_SEMITONES: Record<string, number> = {
+  I: 0, II: 2, III: 4, IV: 5, V: 7, VI: 9, VII: 11,
+};
+
+const NUMERAL_PATTERN = /^([b#]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)([°ø+]?)(7|maj7)?$/;
+
+const TRIAD_SUFFIXES: Record<ChordStep['triad'], string> = {
+  major: '',
+  minor: 'm',
+  diminished: 'dim',
+  augmented: 'aug',
+  open: 'sus4',
+};
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+interface NumeralStep extends ChordStep {
+  seventh?: '7' | 'maj7';
+  accidental: '' | 'b' | '#';
+}
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Read a Roman numeral (bVII, vi, iiø7, V7) as a step in a key
+ */
+function parseNumeral(numeral: string): NumeralStep | null {
+  const match = numeral.match(NUMERAL_PATTERN);
+  if (!match) return null;
+  const [, accidental, roman, symbol, seventh] = match;
+
+  const upper = roman.toUpperCase();
+  const shift = accidental === 'b' ? -1 : accidental === '#' ? 1 : 0;
+  let triad: ChordStep['triad'] = roman === upper ? 'major' : 'minor';
+  if (symbol === '°' || symbol === 'ø') triad = 'diminished';
+  if (symbol === '+') triad = 'augmented';
+
+  return {
+    semitones: (NUMERAL_SEMITONES[upper] + shift + 12) % 12,
+    triad,
+    // Half-diminished sevenths are spelled m7b5
+    seventh: symbol === 'ø' ? '7' : (seventh as NumeralStep['seventh']),
+    accidental: accidental as NumeralStep['accidental'],
+  };
+}
+
+/**
+ * Numerals with repeats folded (bars of the same chord count once)
+ */
+function collapseRepeats<T>(items: T[], same: (a: T, b: T) => boolean): T[] {
+  return items.filter((item, index) => index === 0 || !same(items[index - 1], item));
+}
+
+// Chords without a third stand for the major or minor chord on their root
+function isSameStep(a: ChordStep, b: ChordStep): boolean {
+  const open = (a.triad === 'open' && b.triad !== 'diminished' && b.triad !== 'augmented') ||
+    (b.triad === 'open' && a.triad !== 'diminished' && a.triad !== 'augmented');
+  return a.semitones === b.semitones && (a.triad === b.triad || open);
+}
+
+/**
+ * Key a progression is heard in: minor progressions take the relative minor
+ * of a major key and major ones the relative major of a minor key
+ */
+function getProgressionKey(progression: ProgressionDefinition, key: string): string {
+  const minor = key.endsWith('m');
+  if (progression.mode === 'minor' && !minor) {
+    return `${transposeChord(key, 9, keyUsesFlats(key))}m`;
+  }
+  if (progression.mode === 'major' && minor) {
+    const tonic = key.slice(0, -1);
+    return transposeChord(tonic, 3, keyUsesFlats(key));
+  }
+  return key;
+}
+
+// ----------------------
+// Library
+// ----------------------
+
+/**
+ * Find a progression by id
+ */
+export function getProgression(id: string): ProgressionDefinition | undefined {
+  return PROGRESSIONS.find(progression => progression.id === id);
+}
+
+/**
+ * Display a progression's numerals: I–V–vi–IV (bars of the blues are kept)
+ */
+export function formatProgression(progression: ProgressionDefinition): string {
+  return progression.numerals.join('–');
+}
+
+/**
+ * Spell a progression in a key. Minor progressions in a major key are
+ * played in its relative minor (and the other way round).
+ */
+export function getProgressionChords(progression: ProgressionDefinition, key: string): string[] {
+  const progressionKey = getProgressionKey(progression, key);
+  const tonic = progressionKey.replace(/m$/, '');
+
+  return progression.numerals.map(numeral => {
+    const step = parseNumeral(numeral);
+    if (!step) return numeral;
+
+    // Borrowed flat degrees are spelled with flats even in sharp keys
+    const useFlats = step.accidental === 'b' || (step.accidental === '' && keyUsesFlats(progressionKey));
+    const root = transposeChord(tonic, step.semitones as SemitoneShift, useFlats);
+    if (step.triad === 'diminished' && step.seventh === '7') return `${root}m7b5`;
+    return `${root}${TRIAD_SUFFIXES[step.triad]}${step.seventh ?? ''}`;
+  });
+}
+
+// ----------------------
+// Recognition
+// ----------------------
+
+/**
+ * Find known progressions in a chord sequence (repeated chords count once).
+ * Numerals are taken against the key, detected when not given; minor
+ * progressions are also looked for in the relative minor.
+ */
+export function findProgressions(chords: string[], key?: string): ProgressionMatch[] {
+  const played = chords
+    .map((chord, index) => ({ chord, index }))
+    .filter(({ chord }) => !isNoChord(chord));
+  if (played.length === 0) return [];
+
+  const songKey = key ?? detectKey(played.map(p => p.chord)).detectedKey;
+  const sequence = collapseRepeats(played, (a, b) => a.chord === b.chord);
+  const matches: ProgressionMatch[] = [];
+
+  for (const progression of PROGRESSIONS) {
+    const progressionKey = getProgressionKey(progression, songKey);
+    const pattern = collapseRepeats(
+      progression.numerals
+        .map(parseNumeral)
+        .filter((step): step is NumeralStep => step !== null),
+      isSameStep
+    );
+    const steps = sequence.map(({ chord }) => getChordStep(chord, progressionKey));
+
+    for (let start = 0; start + pattern.length <= sequence.length; start++) {
+      const fits = pattern.every((step, offset) => {
+        const chordStep = steps[start + offset];
+        return chordStep !== null && isSameStep(chordStep, step);
+      });
+      if (!fits) continue;
+
+      // The last chord keeps any bars it is repeated for
+      const next = sequence[start + pattern.length];
+      let end = (next ? next.index : chords.length) - 1;
+      while (isNoChord(chords[end])) end--;
+      matches.push({
+        progression,
+        key: progressionKey,
+        chords: chords.slice(sequence[start].index, end + 1),
+        start: sequence[start].index,
+      });
+      start += pattern.length - 1;
+    }
+  }
+
+  // Longer progressions hide the shorter ones they contain (I–IV–V in the blues),
+  // and a loop heard both ways (vi–IV–I–V, i–bVI–bIII–bVII) is named in the song's key
+  return matches
+    .filter(match => !matches.some(other => {
+      if (other === match) return false;
+      const contains = other.start <= match.start &&
+        other.start + other.chords.length >= match.start + match.chords.length;
+      if (!contains) return false;
+      if (other.chords.length > match.chords.length) return true;
+      return other.chords.length === match.chords.length &&
+        other.start === match.start &&
+        other.key === songKey && match.key !== songKey;
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Distinct progressions of each section, in that section's own key
+ */
+export function findSectionProgressions(sections: SongSection[], songKey: string): ProgressionMatch[][] {
+  return sections.map(section => {
+    const seen = new Set<string>();
+    return findProgressions(section.chords ?? [], section.key ?? songKey).filter(match => {
+      if (seen.has(match.progression.id)) return false;
+      seen.add(match.progression.id);
+      return true;
+    });
+  });
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  PROGRESSIONS,
+  getProgression,
+  formatProgression,
+  getProgressionChords,
+  findProgressions,
+  findSectionProgressions,
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ScaleDefinition } from '@/types';
+import { getScale, getScaleDegrees, getScaleNotes, getScalePositions, suggestSoloScales } from '@/utils/scales';
+
+const scale = (id: string) => getScale(id) as ScaleDefinition;
+
+describe('scale spelling', () => {
+  it('labels degrees against the major scale', () => {
+    expect(getScaleDegrees(scale('lydian'))).toEqual(['1', '2', '3', '#4', '5', '6', '7']);
+    expect(getScaleDegrees(scale('blues'))).toEqual(['1', 'b3', '4', 'b5', '5', 'b7']);
+  });
+
+  it('spells seven-note scales with one letter per degree', () => {
+    expect(getScaleNotes('F#', scale('major'))).toEqual(['F#', 'G#', 'A#', 'B', 'C#', 'D#', 'E#']);
+    expect(getScaleNotes('Bb', scale('dorian'))).toEqual(['Bb', 'C', 'Db', 'Eb', 'F', 'G', 'Ab']);
+  });
+});
+
+describe('getScalePositions', () => {
+  it('starts the first box on the root of the lowest string', () => {
+    const [first] = getScalePositions('A', scale('minor-pentatonic'));
+    expect(first).toMatchObject({ startFret: 5, endFret: 8 });
+    expect(first.notes).toHaveLength(12);
+    expect(first.notes.filter(note => note.string === 6)).toEqual([
+      { string: 6, fret: 5, degree: '1', note: 'A' },
+      { string: 6, fret: 8, degree: 'b3', note: 'C' },
+    ]);
+  });
+
+  it('starts each box on the next scale note, wrapping at the twelfth fret', () => {
+    const positions = getScalePositions('A', scale('minor-pentatonic'));
+    expect(positions.map(position => position.startFret)).toEqual([5, 8, 10, 0, 3]);
+  });
+});
+
+describe('suggestSoloScales', () => {
+  it('suggests Dorian for a major IV in a minor key', () => {
+    expect(suggestSoloScales(['Am', 'G', 'D', 'Am'], 'Am').map(suggestion => suggestion.name)).toEqual([
+      'A minor pentatonic',
+      'A natural minor',
+      'A Dorian',
+      'A blues',
+    ]);
+  });
+
+  it('suggests Mixolydian for a flat seventh chord in a detected major key', () => {
+    const suggestions = suggestSoloScales(['G', 'F', 'C', 'G']);
+    expect(suggestions[0].name).toBe('G major pentatonic');
+    expect(suggestions[2]).toMatchObject({ name: 'G Mixolydian', reason: 'F has the flat seventh of Mixolydian' });
+  });
+
+  it('adds the blues scales over dominant chords', () => {
+    const names = suggestSoloScales(['A7', 'D7', 'E7']).map(suggestion => suggestion.name);
+    expect(names).toContain('A minor pentatonic');
+    expect(names).toContain('A blues');
+  });
+});
@@ -0,0 +1,239 @@
+// ============================================
+// Scales & Modes
+// Scale formulas, spelled notes, fretboard positions
+// and solo suggestions for a song's key and progression
+// ============================================
+
+import { ChordSymbol, ScaleDefinition, ScalePosition, ScaleSuggestion, Tuning } from '@/types';
+import { parseChord, getPitchClass, normalizeNote } from '@/utils/chord';
+import { detectKey } from '@/utils/transpose';
+import { STANDARD_TUNING, getStringMidiNumbers } from '@/utils/tuning';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const SCALES: ScaleDefinition[] = [
+  { id: 'major', name: 'Major', category: 'major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'natural-minor', name: 'Natural minor', category: 'minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'harmonic-minor', name: 'Harmonic minor', category: 'minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  { id: 'melodic-minor', name: 'Melodic minor', category: 'minor', intervals: [0, 2, 3, 5, 7, 9, 11] },
+  { id: 'major-pentatonic', name: 'Major pentatonic', category: 'pentatonic', intervals: [0, 2, 4, 7, 9] },
+  { id: 'minor-pentatonic', name: 'Minor pentatonic', category: 'pentatonic', intervals: [0, 3, 5, 7, 10] },
+  { id: 'blues', name: 'Blues', category: 'blues', intervals: [0, 3, 5, 6, 7, 10] },
+  { id: 'ionian', name: 'Ionian', category: 'mode', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'dorian', name: 'Dorian', category: 'mode', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  { id: 'phrygian', name: 'Phrygian', category: 'mode', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'lydian', name: 'Lydian', category: 'mode', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  { id: 'mixolydian', name: 'Mixolydian', category: 'mode', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  { id: 'aeolian', name: 'Aeolian', category: 'mode', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'locrian', name: 'Locrian', category: 'mode', intervals: [0, 1, 3, 5, 6, 8, 10] },
+];
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const NATURAL_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+
+// Degree of each semitone for scales that skip degrees (pentatonic, blues)
+const CHROMATIC_DEGREES = ['1', 'b2', '2', 'b3', '3', '4', 'b5', '5', 'b6', '6', 'b7', '7'];
+
+const ACCIDENTALS: Record<number, string> = { [-2]: 'bb', [-1]: 'b', 0: '', 1: '#', 2: '##' };
+
+// Frets covered by one position: pentatonic boxes are narrower
+const POSITION_SPAN = { narrow: 4, wide: 5 };
+const DEFAULT_POSITION_COUNT = 5;
+
+// ----------------------
+// Scale Lookup
+// ----------------------
+
+/**
+ * Find a scale by id
+ */
+export function getScale(id: string): ScaleDefinition | undefined {
+  return SCALES.find(scale => scale.id === id);
+}
+
+/**
+ * Degree labels of a scale (1 2 b3 4 5 b6 b7).
+ * Seven-note scales use one degree per letter, so Lydian gets #4.
+ */
+export function getScaleDegrees(scale: ScaleDefinition): string[] {
+  if (scale.intervals.length !== 7) {
+    return scale.intervals.map(interval => CHROMATIC_DEGREES[interval]);
+  }
+  return scale.intervals.map((interval, index) =>
+    `${ACCIDENTALS[interval - MAJOR_SCALE[index]]}${index + 1}`
+  );
+}
+
+/**
+ * Spell the notes of a scale from a root, one letter per degree (F# major has E#)
+ */
+export function getScaleNotes(root: string, scale: ScaleDefinition): string[] {
+  const tonic = normalizeNote(root);
+  const rootLetter = LETTERS.indexOf(tonic[0]);
+  const rootPitch = getPitchClass(tonic);
+
+  return getScaleDegrees(scale).map((degree, index) => {
+    const letterIndex = (rootLetter + parseInt(degree.replace(/[#b]/g, ''), 10) - 1) % 7;
+    const pitch = (rootPitch + scale.intervals[index]) % 12;
+    const offset = ((pitch - NATURAL_PITCH_CLASSES[letterIndex] + 18) % 12) - 6;
+    return `${LETTERS[letterIndex]}${ACCIDENTALS[offset] ?? ''}`;
+  });
+}
+
+// ----------------------
+// Fretboard Positions
+// ----------------------
+
+/**
+ * Boxes of a scale along the neck, starting with the root on the lowest string.
+ * Each position begins on the next scale note of the lowest string.
+ */
+export function getScalePositions(
+  root: string,
+  scale: ScaleDefinition,
+  tuning: Tuning = STANDARD_TUNING,
+  count: number = DEFAULT_POSITION_COUNT
+): ScalePosition[] {
+  const openStrings = getStringMidiNumbers(tuning);
+  const rootPitch = getPitchClass(normalizeNote(root));
+  const degrees = getScaleDegrees(scale);
+  const notes = getScaleNotes(root, scale);
+  const span = scale.intervals.length === 7 ? POSITION_SPAN.wide : POSITION_SPAN.narrow;
+
+  // Scale degree index of a fretted note, or -1 outside the scale
+  const degreeAt = (open: number, fret: number) =>
+    scale.intervals.indexOf(((open + fret - rootPitch) % 12 + 12) % 12);
+
+  const rootFret = ((rootPitch - openStrings[0]) % 12 + 12) % 12;
+  const starts = Array.from({ length: 12 }, (_, i) => rootFret + i)
+    .filter(fret => degreeAt(openStrings[0], fret) !== -1)
+    .slice(0, count)
+    .map(fret => (fret >= 12 ? fret - 12 : fret));
+
+  return starts.map(startFret => {
+    const endFret = startFret + span - 1;
+    const positionNotes = openStrings.flatMap((open, index) =>
+      Array.from({ length: span }, (_, i) => startFret + i)
+        .filter(fret => degreeAt(open, fret) !== -1)
+        .map(fret => {
+          const degree = degreeAt(open, fret);
+          return {
+            string: openStrings.length - index,
+            fret,
+            degree: degrees[degree],
+            note: notes[degree],
+          };
+        })
+    );
+    return { startFret, endFret, notes: positionNotes };
+  });
+}
+
+// ----------------------
+// Solo Suggestions
+// ----------------------
+
+const isMajor = (chord: ChordSymbol) => chord.quality === 'major';
+const isDominant = (chord: ChordSymbol) => chord.quality === 'major' && chord.seventh === 'minor';
+
+/**
+ * Build a suggestion for a scale on a root
+ */
+function suggest(root: string, id: string, reason: string): ScaleSuggestion {
+  const scale = getScale(id) as ScaleDefinition;
+  // Mode names stay capitalised: A Dorian, A minor pentatonic
+  const name = scale.category === 'mode' ? scale.name : scale.name.toLowerCase();
+  return { root, scale: id, name: `${root} ${name}`, reason };
+}
+
+/**
+ * Suggest scales to solo with over a song, from its key (detected when
+ * not given) and the chords that lean towards a mode.
+ * Safest choices first.
+ */
+export function suggestSoloScales(chords: string[], key?: string): ScaleSuggestion[] {
+  const songKey = key ?? detectKey(chords).detectedKey;
+  const isMinor = /m$/.test(songKey);
+  const tonic = songKey.replace(/m$/, '');
+  const tonicPitch = getPitchClass(tonic);
+
+  // Chords found on a scale step, as written in the song
+  const findChords = (semitones: number, test: (chord: ChordSymbol) => boolean) =>
+    Array.from(new Set(chords.filter(chord => {
+      const parsed = parseChord(chord);
+      return !!parsed &&
+        (getPitchClass(parsed.root) - tonicPitch + 12) % 12 === semitones &&
+        test(parsed);
+    })));
+  const list = (found: string[]) => found.join(', ');
+
+  const dominantChords = Array.from(new Set(chords.filter(chord => {
+    const parsed = parseChord(chord);
+    return !!parsed && isDominant(parsed);
+  })));
+  const bluesy = chords.length > 0 && dominantChords.length >= new Set(chords).size / 2;
+
+  if (isMinor) {
+    const suggestions = [
+      suggest(tonic, 'minor-pentatonic', `Safe over every chord in ${songKey}`),
+      suggest(tonic, 'natural-minor', `All seven notes of ${songKey}`),
+    ];
+    const majorFour = findChords(5, isMajor);
+    const majorFive = findChords(7, isMajor);
+    const flatTwo = findChords(1, isMajor);
+    if (majorFour.length > 0) {
+      suggestions.push(suggest(tonic, 'dorian', `${list(majorFour)} has the major sixth of Dorian`));
+    }
+    if (majorFive.length > 0) {
+      suggestions.push(suggest(tonic, 'harmonic-minor', `${list(majorFive)} needs the raised seventh`));
+    }
+    if (flatTwo.length > 0) {
+      suggestions.push(suggest(tonic, 'phrygian', `${list(flatTwo)} has the flat second of Phrygian`));
+    }
+    suggestions.push(suggest(tonic, 'blues', 'Minor pentatonic with the b5 blue note'));
+    return suggestions;
+  }
+
+  const suggestions = [
+    suggest(tonic, 'major-pentatonic', `Safe over every chord in ${songKey}`),
+    suggest(tonic, 'major', `All seven notes of ${songKey}`),
+  ];
+  const flatSeven = findChords(10, isMajor);
+  const tonicSeventh = findChords(0, isDominant);
+  const majorTwo = findChords(2, chord => isMajor(chord) && !isDominant(chord));
+  const borrowed = [
+    ...findChords(3, isMajor),
+    ...findChords(5, chord => chord.quality === 'minor'),
+    ...findChords(8, isMajor),
+  ];
+  if (flatSeven.length > 0 || tonicSeventh.length > 0) {
+    suggestions.push(suggest(tonic, 'mixolydian', `${list([...tonicSeventh, ...flatSeven])} has the flat seventh of Mixolydian`));
+  }
+  if (majorTwo.length > 0) {
+    suggestions.push(suggest(tonic, 'lydian', `${list(majorTwo)} has the sharp fourth of Lydian`));
+  }
+  if (bluesy || borrowed.length > 0) {
+    const reason = bluesy
+      ? `Bluesy sound over the dominant chords (${list(dominantChords)})`
+      : `Borrowed minor chords (${list(borrowed)})`;
+    suggestions.push(suggest(tonic, 'minor-pentatonic', reason));
+    suggestions.push(suggest(tonic, 'blues', 'Minor pentatonic with the b5 blue note'));
+  }
+  return suggestions;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  SCALES,
+  getScale,
+  getScaleDegrees,
+  getScaleNotes,
+  getScalePositions,
+  suggestSoloScales,
+};
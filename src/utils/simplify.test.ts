@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { simplifyChord, simplifyLyrics } from '@/utils/simplify';
+
+const simplify = (chord: string) =>
+  (['seventh', 'triad', 'power'] as const).map(level => simplifyChord(chord, level));
+
+describe('simplifyChord', () => {
+  it('cuts extensions back to the seventh, then the triad, then a power chord', () => {
+    expect(simplify('Cmaj9')).toEqual(['Cmaj7', 'C', 'C5']);
+    expect(simplify('G13')).toEqual(['G7', 'G', 'G5']);
+    expect(simplify('F#m11')).toEqual(['F#m7', 'F#m', 'F#5']);
+    expect(simplify('C7#9')).toEqual(['C7', 'C', 'C5']);
+  });
+
+  it('keeps sixths and sus chords where they still fit', () => {
+    expect(simplify('C6/9')).toEqual(['C6', 'C', 'C5']);
+    expect(simplify('Dsus4')).toEqual(['Dsus4', 'Dsus4', 'D5']);
+  });
+
+  it('keeps diminished and augmented chords as triads, and half-diminished as m7b5', () => {
+    expect(simplify('Am7b5')).toEqual(['Am7b5', 'Adim', 'Adim']);
+    expect(simplify('Bø')).toEqual(['Bm7b5', 'Bdim', 'Bdim']);
+    expect(simplify('Bdim7')).toEqual(['Bdim7', 'Bdim', 'Bdim']);
+    expect(simplify('C7#5')).toEqual(['Caug7', 'Caug', 'Caug']);
+  });
+
+  it('drops the slash bass and passes N.C. and unknown text through', () => {
+    expect(simplify('C7b9/G')).toEqual(['C7', 'C', 'C5']);
+    expect(simplifyChord('N.C.', 'triad')).toBe('N.C.');
+    expect(simplifyChord('Cmaj9', 'full')).toBe('Cmaj9');
+  });
+});
+
+describe('simplifyLyrics', () => {
+  it('simplifies chord lines in place and bracketed chords', () => {
+    expect(simplifyLyrics('[Verse]\nCmaj7   G13\nHello [Am9]there', 'triad')).toBe('[Verse]\nC       G\nHello [Am]there');
+  });
+});
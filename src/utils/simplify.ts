@@ -0,0 +1,114 @@
+// ============================================
+// Chord Simplification
+// Reduces chords to seventh chords, triads or power chords for easier playing
+// Slash basses are dropped at every level below full
+// ============================================
+
+import { ChordSymbol, SimplificationLevel } from '@/types';
+import { parseChord, formatChord } from '@/utils/chord';
+import { rewriteLyricsChords } from '@/utils/chordLine';
+
+// ----------------------
+// Constants
+// ----------------------
+
+export const SIMPLIFICATION_LEVELS: SimplificationLevel[] = ['full', 'seventh', 'triad', 'power'];
+
+// ----------------------
+// Simplification
+// ----------------------
+
+/**
+ * Triad quality of a chord, folding an altered fifth into it
+ * (C7#5 -> augmented, Cm(b5) -> diminished)
+ */
+function getTriadQuality(symbol: ChordSymbol): ChordSymbol['quality'] {
+  const fifth = symbol.alterations.find(a => a.degree === 5);
+  if (fifth?.accidental === '#' && symbol.quality === 'major') return 'augmented';
+  if (fifth?.accidental === 'b' && symbol.quality === 'minor') return 'diminished';
+  return symbol.quality;
+}
+
+/**
+ * Reduce a parsed chord to a simplification level.
+ * Diminished and augmented chords stay triads at the power level,
+ * since a perfect fifth would change their sound.
+ */
+export function simplifySymbol(symbol: ChordSymbol, level: SimplificationLevel): ChordSymbol {
+  if (level === 'full') return symbol;
+
+  const quality = getTriadQuality(symbol);
+  const base: ChordSymbol = {
+    root: symbol.root,
+    quality,
+    alterations: [],
+    added: [],
+    omissions: [],
+  };
+
+  if (level === 'power') {
+    return quality === 'diminished' || quality === 'augmented'
+      ? base
+      : { ...base, quality: 'power' };
+  }
+
+  if (level === 'triad' || quality === 'power') {
+    return base;
+  }
+
+  // Seventh level: keep 6 and 7 chords, cut 9/11/13 back to the seventh
+  if (symbol.extension === 6) {
+    return { ...base, extension: 6 };
+  }
+  if (quality === 'diminished' && symbol.seventh === 'minor') {
+    // Half-diminished stays m7b5, not the diminished seventh
+    return {
+      ...base,
+      quality: 'minor',
+      seventh: 'minor',
+      extension: 7,
+      alterations: [{ degree: 5, accidental: 'b' }],
+    };
+  }
+  if (symbol.seventh) {
+    return { ...base, seventh: symbol.seventh, extension: 7 };
+  }
+  return base;
+}
+
+/**
+ * Simplify a chord symbol (N.C. and unknown text pass through)
+ */
+export function simplifyChord(chord: string, level: SimplificationLevel): string {
+  if (level === 'full') return chord;
+  const parsed = parseChord(chord);
+  return parsed ? formatChord(simplifySymbol(parsed, level)) : chord;
+}
+
+/**
+ * Simplify a list of chords
+ */
+export function simplifyChords(chords: string[], level: SimplificationLevel): string[] {
+  if (level === 'full') return chords;
+  return chords.map(chord => simplifyChord(chord, level));
+}
+
+/**
+ * Simplify the chords of a lyrics sheet (bracketed or chord lines)
+ */
+export function simplifyLyrics(lyrics: string, level: SimplificationLevel): string {
+  if (level === 'full') return lyrics;
+  return rewriteLyricsChords(lyrics, chord => simplifyChord(chord, level));
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  SIMPLIFICATION_LEVELS,
+  simplifySymbol,
+  simplifyChord,
+  simplifyChords,
+  simplifyLyrics,
+};
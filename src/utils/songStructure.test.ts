@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatSongLine,
+  getPlayingOrder,
+  parseRepeatMark,
+  parseSectionHeader,
+  parseSectionReference,
+  parseSections,
+  parseSongLines,
+  segmentAnchoredLine,
+} from '@/utils/songStructure';
+
+describe('segmentAnchoredLine', () => {
+  it('splits lyrics where the chords change', () => {
+    const line = segmentAnchoredLine({ lyrics: 'Hello there', chords: [{ chord: 'F', column: 8 }, { chord: 'Am', column: 0 }] });
+    expect(line.segments).toEqual([{ chord: 'Am', lyrics: 'Hello th' }, { chord: 'F', lyrics: 'ere' }]);
+  });
+
+  it('keeps lyrics before the first chord and chords past the end of the lyrics', () => {
+    const line = segmentAnchoredLine({ lyrics: 'Oh', chords: [{ chord: 'G', column: 3 }] });
+    expect(line.segments).toEqual([{ lyrics: 'Oh ' }, { chord: 'G', lyrics: '' }]);
+  });
+});
+
+describe('parseSongLines', () => {
+  it('anchors a chord line to the lyrics under it and writes the chords inline', () => {
+    const lines = parseSongLines('Am      F\nHello there');
+    expect(lines).toHaveLength(1);
+    expect(formatSongLine(lines[0])).toBe('[Am]Hello th[F]ere');
+  });
+
+  it('keeps a chord line with no lyrics under it on its own', () => {
+    const lines = parseSongLines('G  D\n\n[C]Words');
+    expect(lines.map(formatSongLine)).toEqual(['[G]   [D]', '', '[C]Words']);
+  });
+});
+
+describe('parseSections', () => {
+  it('splits lyrics at headings and reads their chords', () => {
+    const sections = parseSections('[Verse 1]\n[Am]One [F]two\n[Chorus: Ann & Bo]\n[C]Sing');
+    expect(sections.map(({ type, label, chords }) => ({ type, label, chords }))).toEqual([
+      { type: 'verse', label: 'Verse 1', chords: ['Am', 'F'] },
+      { type: 'chorus', label: 'Chorus', chords: ['C'] },
+    ]);
+    expect(sections[1]).toMatchObject({ isChorus: true, performers: ['Ann', 'Bo'] });
+  });
+
+  it('keeps a stanza break inside a section as one empty line', () => {
+    const [verse] = parseSections('\n[Verse]\n\n[C]First stanza\n\n\n[G]Second stanza\n\n');
+    expect(verse.content).toBe('[C]First stanza\n\n[G]Second stanza');
+    expect(verse.lines.map(line => line.segments.length)).toEqual([1, 0, 1]);
+  });
+});
+
+describe('repeats and references', () => {
+  it('reads repeat marks on headings and on lines of their own', () => {
+    expect(parseSectionHeader('[Chorus] x2')).toEqual({ type: 'chorus', label: 'Chorus', repeat: 2 });
+    expect(parseSectionHeader('Chorus (x3)')).toEqual({ type: 'chorus', label: 'Chorus', repeat: 3 });
+    expect(parseRepeatMark('(2x)')).toBe(2);
+    expect(parseRepeatMark('Repeat x3')).toBe(3);
+    expect(parseRepeatMark('x1')).toBeNull();
+  });
+
+  it('reads a reference line with its repeat count', () => {
+    expect(parseSectionReference('(Repeat chorus x2)')).toEqual({ name: 'chorus', repeat: 2 });
+    expect(parseSectionReference('Repeat the verse 2')).toEqual({ name: 'verse 2' });
+  });
+
+  it('turns a bare chorus heading and a "Repeat" line into references', () => {
+    const sections = parseSections(
+      '[Verse 1]\n[Am]One\n[Chorus]\n[C]Sing\n[Verse 2]\n[Am]Two\n[Chorus]\nRepeat verse 1 x2'
+    );
+    expect(sections.map(section => section.reference)).toEqual([undefined, undefined, undefined, 1, 0]);
+    expect(sections[3]).toMatchObject({ type: 'chorus', label: 'Chorus', lines: [] });
+    expect(sections[4]).toMatchObject({ type: 'verse', repeat: 2 });
+  });
+
+  it('keeps a line that names no earlier section as lyrics', () => {
+    const [section] = parseSections('[Verse]\nRepeat after me');
+    expect(section.reference).toBeUndefined();
+    expect(section.content).toBe('Repeat after me');
+  });
+
+  it('gives a repeat mark after a reference to the reference', () => {
+    const sections = parseSections('[Chorus]\n[C]Sing\nRepeat chorus\nx3');
+    expect(sections[1]).toMatchObject({ reference: 0, repeat: 3 });
+  });
+
+  it('writes out the playing order with repeats and references', () => {
+    const sections = parseSections('[Verse]\n[Am]One\n[Chorus] x2\n[C]Sing\n[Chorus]');
+    expect(getPlayingOrder(sections)).toEqual([
+      { index: 0, from: 0, pass: 1 },
+      { index: 1, from: 1, pass: 1 },
+      { index: 1, from: 1, pass: 2 },
+      { index: 1, from: 2, pass: 1 },
+    ]);
+  });
+});
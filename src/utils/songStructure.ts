@@ -0,0 +1,420 @@
+// ============================================
+// Song Structure
+// Reads lyrics into sections, lines and segments (a chord with the
+// lyrics sung over it), with Genius-style headings and performers,
+// repeats and references back to earlier sections
+// ============================================
+
+import { AnchoredLine, PlayedSection, SectionHeader, SongLine, SongSection, TabBlock } from '@/types';
+import { isChord } from '@/utils/chord';
+import { anchorInlineChords, parseChordLine, placeChords } from '@/utils/chordLine';
+import { formatTab, isTabLine, parseTab } from '@/utils/tablature';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const SECTION_NAMES =
+  'intro|verse|pre-?chorus|post-?chorus|chorus|bridge|outro|solo|interlude|instrumental|hook|refrain|breakdown|coda|ending';
+
+// Verse 1:, Chorus (x2), Intro: Em7 G
+const HEADER_PATTERN = new RegExp(
+  `^\\s*((?:${SECTION_NAMES})(?:\\s*\\d+)?)\\s*(\\([^)]*\\))?\\s*:?\\s*(.*?)\\s*$`,
+  'i'
+);
+// [Verse 1], [Chorus: Artist & Artist], [Chorus] x2
+const BRACKET_HEADER_PATTERN = /^\s*\[([^\]]+)\]\s*(\(?\s*(?:x\s*\d+|\d+\s*x)\s*\)?)?\s*$/i;
+const PERFORMER_SEPARATOR = /\s*(?:,|&)\s*/;
+// x2, 2x or (x2) ending a heading or standing alone
+const REPEAT_SUFFIX = /(?:^|\s+|\s*\()(?:x\s*(\d+)|(\d+)\s*x)\)?\s*$/i;
+// Repeat verse 2, repeat the chorus
+const REFERENCE_PATTERN = /^repeat\s+(?:the\s+)?(.+)$/i;
+
+// Fields a section is built from; lines and chords are read from the content
+type SectionFields = Omit<SongSection, 'lines' | 'chords'>;
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Take a repeat count off the end of a heading: "Chorus (x2)" -> Chorus, 2
+ */
+function splitRepeat(text: string): { text: string; repeat?: number } {
+  const match = text.match(REPEAT_SUFFIX);
+  if (!match) return { text };
+  const repeat = parseInt(match[1] ?? match[2], 10);
+  return { text: text.slice(0, match.index).trim(), ...(repeat > 1 ? { repeat } : {}) };
+}
+
+/**
+ * Text of a line without the parentheses around it
+ */
+function unwrap(line: string): string {
+  return line.trim().replace(/^\((.*)\)$/, '$1').trim();
+}
+
+// ----------------------
+// Headers
+// ----------------------
+
+/**
+ * Section type named by a heading (Verse 2, Refrain, Coda)
+ */
+export function getSectionType(label: string): SongSection['type'] {
+  const text = label.toLowerCase();
+  if (/pre-?chorus/.test(text)) return 'pre-chorus';
+  if (/chorus|refrain|hook/.test(text)) return 'chorus';
+  if (/verse/.test(text)) return 'verse';
+  if (/bridge/.test(text)) return 'bridge';
+  if (/intro/.test(text)) return 'intro';
+  if (/outro|ending|coda/.test(text)) return 'outro';
+  return 'other';
+}
+
+/**
+ * Read a section heading: bracketed as on Genius ([Chorus: Artist & Artist]),
+ * or plain with a repeat mark or the chords played under it (Intro: Em7 G).
+ * Returns null for lyrics and for a bracketed chord like [Am].
+ */
+export function parseSectionHeader(line: string): SectionHeader | null {
+  const bracketed = line.match(BRACKET_HEADER_PATTERN);
+  if (bracketed) {
+    if (isChord(bracketed[1])) return null;
+    const [name, ...rest] = bracketed[1].split(':');
+    const { text: label, repeat: labelRepeat } = splitRepeat(name.trim());
+    const repeat = bracketed[2] ? parseRepeatMark(bracketed[2]) : labelRepeat;
+    const performers = rest.join(':').trim().split(PERFORMER_SEPARATOR).filter(Boolean);
+    return {
+      type: getSectionType(label),
+      label,
+      ...(performers.length > 0 ? { performers } : {}),
+      ...(repeat ? { repeat } : {}),
+    };
+  }
+
+  const match = line.match(HEADER_PATTERN);
+  if (!match) return null;
+  const [, name, note, rest] = match;
+  const type = getSectionType(name);
+  const noteRepeat = note ? parseRepeatMark(note) : null;
+  const label = note && !noteRepeat ? `${name} ${note}` : name;
+  if (!rest) return noteRepeat ? { type, label, repeat: noteRepeat } : { type, label };
+  const repeat = parseRepeatMark(rest);
+  if (repeat) return { type, label, repeat };
+
+  // Chords after the heading keep their columns in the line
+  const chords = parseChordLine(rest);
+  if (!chords) return null;
+  const start = line.trimEnd().length - rest.length;
+  return { type, label, chords: chords.map(position => ({ ...position, column: position.column + start })) };
+}
+
+/**
+ * Repeat count of a line that is only a repeat mark: x2, (2x), Repeat x3
+ */
+export function parseRepeatMark(line: string): number | null {
+  const { text, repeat } = splitRepeat(unwrap(line));
+  return repeat && /^(repeat)?$/i.test(text) ? repeat : null;
+}
+
+/**
+ * Section named by a line like "Repeat verse 2" or "(Repeat chorus x2)".
+ * Whether it names a section is up to findSection: "Repeat after me" names none.
+ */
+export function parseSectionReference(line: string): { name: string; repeat?: number } | null {
+  const match = unwrap(line).match(REFERENCE_PATTERN);
+  if (!match) return null;
+  const { text, repeat } = splitRepeat(match[1]);
+  return text ? { name: text, ...(repeat ? { repeat } : {}) } : null;
+}
+
+/**
+ * Latest section a name refers to: the one labelled so (Verse 2), else,
+ * if matchType is set, the latest of the type it names (chorus).
+ * References are never returned, so a reference always leads to lines.
+ */
+export function findSection(
+  sections: Array<Pick<SongSection, 'type' | 'label' | 'reference'>>,
+  name: string,
+  matchType = true
+): number {
+  const label = name.trim().toLowerCase();
+  const candidates = sections
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => section.reference === undefined)
+    .reverse();
+
+  const labelled = candidates.find(({ section }) => section.label?.toLowerCase() === label);
+  if (labelled) return labelled.index;
+
+  const type = getSectionType(label);
+  const typed = matchType && type !== 'other' ? candidates.find(({ section }) => section.type === type) : undefined;
+  return typed ? typed.index : -1;
+}
+
+// ----------------------
+// Lines
+// ----------------------
+
+/**
+ * Split an anchored line where its chords change. Chords past the end of
+ * the lyrics sit over spaces, so every chord keeps its place.
+ */
+export function segmentAnchoredLine({ lyrics, chords }: AnchoredLine): SongLine {
+  if (chords.length === 0) return { segments: lyrics ? [{ lyrics }] : [] };
+
+  const sorted = [...chords].sort((a, b) => a.column - b.column);
+  const padded = lyrics.padEnd(sorted[sorted.length - 1].column);
+  const segments = sorted.map(({ chord, column }, index) => ({
+    chord,
+    lyrics: padded.slice(column, index + 1 < sorted.length ? sorted[index + 1].column : undefined),
+  }));
+
+  return {
+    segments: sorted[0].column > 0 ? [{ lyrics: padded.slice(0, sorted[0].column) }, ...segments] : segments,
+  };
+}
+
+/**
+ * Read the lines of a section: inline chords ([Am]Love me) and chord lines
+ * over the lyric line below them, which become one line. A chord line with
+ * no lyrics under it stands alone. Runs of tab string lines become one
+ * tab block; other verbatim lines (a grid) are kept as text.
+ */
+export function parseSongLines(content: string, verbatim = false): SongLine[] {
+  const lines = content.split('\n');
+  const result: SongLine[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isTabLine(line)) {
+      let end = i + 1;
+      while (end < lines.length && isTabLine(lines[end])) end++;
+      result.push({ segments: [], tab: parseTab(lines.slice(i, end)) });
+      i = end - 1;
+      continue;
+    }
+
+    if (verbatim) {
+      result.push({ segments: line ? [{ lyrics: line }] : [] });
+      continue;
+    }
+
+    const chords = parseChordLine(line);
+    if (!chords) {
+      result.push(segmentAnchoredLine(anchorInlineChords(line)));
+      continue;
+    }
+
+    const next = lines[i + 1];
+    const hasLyrics = next !== undefined && next.trim() !== '' && !isTabLine(next) &&
+      !parseChordLine(next) && anchorInlineChords(next).chords.length === 0;
+    result.push(segmentAnchoredLine({ lyrics: hasLyrics ? next.trimEnd() : '', chords }));
+    if (hasLyrics) i++;
+  }
+
+  return result;
+}
+
+/**
+ * Write a line back with its chords inline: [C]Hello [G]world.
+ * A tab block is written out string by string.
+ */
+export function formatSongLine(line: SongLine): string {
+  if (line.tab) return formatTab(line.tab);
+  return line.segments
+    .map(segment => (segment.chord !== undefined ? `[${segment.chord}]` : '') + segment.lyrics)
+    .join('')
+    .trimEnd();
+}
+
+/**
+ * Chords of some lines, in order
+ */
+export function getLineChords(lines: SongLine[]): string[] {
+  return lines.flatMap(line =>
+    line.segments.flatMap(segment => (segment.chord !== undefined ? [segment.chord] : []))
+  );
+}
+
+// ----------------------
+// Sections
+// ----------------------
+
+/**
+ * Give a section new lines, with its content and chords to match
+ */
+export function setSectionLines(section: SectionFields, lines: SongLine[]): SongSection {
+  return { ...section, content: lines.map(formatSongLine).join('\n'), lines, chords: getLineChords(lines) };
+}
+
+/**
+ * Build a section from its content. Chord lines are merged into their
+ * lyrics, so the content comes back with chords inline; tab and grid
+ * environments are kept as written and have no chords.
+ */
+export function createSection(section: SectionFields): SongSection {
+  const lines = parseSongLines(section.content, !!section.environment);
+  return section.environment ? { ...section, lines } : setSectionLines(section, lines);
+}
+
+/**
+ * Rewrite every chord of a section (transpose, simplify...), keeping it
+ * over the same lyrics
+ */
+export function mapSectionChords(section: SongSection, rewrite: (chord: string) => string): SongSection {
+  if (section.environment) return section;
+  const lines = section.lines.map(line => ({
+    ...line,
+    segments: line.segments.map(segment =>
+      segment.chord !== undefined ? { ...segment, chord: rewrite(segment.chord) } : segment
+    ),
+  }));
+  return setSectionLines(section, lines);
+}
+
+/**
+ * Rewrite every tab block of a section (transpose...), tab environments included
+ */
+export function mapSectionTabs(section: SongSection, rewrite: (block: TabBlock) => TabBlock): SongSection {
+  if (!section.lines.some(line => line.tab)) return section;
+  const lines = section.lines.map(line => (line.tab ? { ...line, tab: rewrite(line.tab) } : line));
+  return section.environment
+    ? { ...section, content: lines.map(formatSongLine).join('\n'), lines }
+    : setSectionLines(section, lines);
+}
+
+/**
+ * A section that plays an earlier one again. It has no lines of its own
+ * and takes the type of the section it repeats.
+ */
+export function createReference(
+  sections: SongSection[],
+  target: number,
+  fields: Pick<SongSection, 'label' | 'performers' | 'repeat'> = {}
+): SongSection {
+  const { type, isChorus } = sections[target];
+  return {
+    type,
+    content: '',
+    lines: [],
+    chords: [],
+    reference: target,
+    ...(isChorus ? { isChorus } : {}),
+    ...(fields.label ? { label: fields.label } : {}),
+    ...(fields.performers ? { performers: fields.performers } : {}),
+    ...(fields.repeat ? { repeat: fields.repeat } : {}),
+  };
+}
+
+/**
+ * Order the sections are played in: each as many times as it repeats,
+ * references standing for the section they repeat
+ */
+export function getPlayingOrder(sections: SongSection[]): PlayedSection[] {
+  return sections.flatMap((section, from) => {
+    const index = section.reference ?? from;
+    return Array.from({ length: Math.max(1, section.repeat ?? 1) }, (_, pass) => ({ index, from, pass: pass + 1 }));
+  });
+}
+
+/**
+ * Parse lyrics into sections at their headings ([Verse 1], [Chorus: Artist],
+ * Intro: Em7 G). Lines before the first heading form an 'other' section.
+ * A run of blank lines inside a section is kept as one empty line, the
+ * break between stanzas; blank lines around a section are dropped. Repeat counts come from headings (Chorus x2) or
+ * lines of their own (x2). A heading with nothing under it that names an
+ * earlier section (a second [Chorus]), or a line like "Repeat verse 2",
+ * becomes a reference to that section; other empty sections are dropped.
+ */
+export function parseSections(lyrics: string): SongSection[] {
+  const sections: SongSection[] = [];
+  let current: SectionFields = { type: 'other', content: '' };
+
+  // A blank line waits in the content as a trailing newline until a line follows it
+  const close = (section: SectionFields) =>
+    createSection({ ...section, content: section.content.replace(/\n+$/, '') });
+
+  const flush = () => {
+    if (current.content.trim()) {
+      sections.push(close(current));
+    } else if (current.label) {
+      // Only choruses are repeated by a bare heading of their type
+      const target = findSection(sections, current.label, current.type === 'chorus');
+      if (target >= 0) sections.push(createReference(sections, target, current));
+    }
+  };
+
+  for (const line of lyrics.replace(/\r\n?/g, '\n').split('\n')) {
+    const header = parseSectionHeader(line);
+    if (header) {
+      flush();
+      current = {
+        type: header.type,
+        content: header.chords ? placeChords({ lyrics: '', chords: header.chords }) : '',
+        label: header.label,
+        ...(header.type === 'chorus' ? { isChorus: true } : {}),
+        ...(header.performers ? { performers: header.performers } : {}),
+        ...(header.repeat ? { repeat: header.repeat } : {}),
+      };
+      continue;
+    }
+
+    // x2 under a section; right after a reference it repeats the reference
+    const repeat = parseRepeatMark(line);
+    if (repeat) {
+      const last = sections[sections.length - 1];
+      if (!current.content.trim() && !current.label && last) {
+        sections[sections.length - 1] = { ...last, repeat };
+      } else {
+        current.repeat = repeat;
+      }
+      continue;
+    }
+
+    const reference = parseSectionReference(line);
+    if (reference) {
+      const before = current.content.trim() ? [...sections, close(current)] : sections;
+      const target = findSection(before, reference.name);
+      if (target >= 0) {
+        flush();
+        sections.push(createReference(sections, target, { repeat: reference.repeat }));
+        current = { type: 'other', content: '' };
+        continue;
+      }
+    }
+
+    if (line.trim()) {
+      current.content += (current.content ? '\n' : '') + line;
+    } else if (current.content && !current.content.endsWith('\n')) {
+      current.content += '\n';
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  getSectionType,
+  parseSectionHeader,
+  parseRepeatMark,
+  parseSectionReference,
+  findSection,
+  segmentAnchoredLine,
+  parseSongLines,
+  formatSongLine,
+  getLineChords,
+  setSectionLines,
+  createSection,
+  mapSectionChords,
+  mapSectionTabs,
+  createReference,
+  getPlayingOrder,
+  parseSections,
+};
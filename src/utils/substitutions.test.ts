@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ChordSubstitution } from '@/types';
+import { parseSections } from '@/utils/songStructure';
+import { applySubstitutions, countSubstitutionTargets, suggestSubstitutions } from '@/utils/substitutions';
+
+const summarize = (suggestions: ChordSubstitution[]) =>
+  suggestions.map(suggestion => `${suggestion.type}: ${suggestion.chords.join(' ')}`);
+
+describe('suggestSubstitutions', () => {
+  it('offers a tritone substitute for a dominant seventh', () => {
+    const [tritone] = suggestSubstitutions('G7', { key: 'C', next: 'C' });
+    expect(tritone).toEqual({
+      type: 'tritone',
+      chords: ['Db7'],
+      explanation: 'Shares the tritone B–F with G7 and slides down a half step into C',
+      needsNext: false,
+    });
+  });
+
+  it('treats a plain triad as a dominant only where it resolves down a fifth', () => {
+    const suggestions = suggestSubstitutions('G', { key: 'C', next: 'C' });
+    expect(summarize(suggestions)).toEqual([
+      'tritone: Db7',
+      'secondary-dominant: G7',
+      'relative: Em',
+      'sus-resolution: Gsus4 G',
+    ]);
+    expect(suggestions[0].needsNext).toBe(true);
+    expect(summarize(suggestSubstitutions('G', { key: 'C' }))).not.toContain('tritone: Db7');
+  });
+
+  it('leads into the next chord with a secondary dominant or passing diminished', () => {
+    const suggestions = suggestSubstitutions('C', { key: 'C', next: 'Dm' });
+    expect(summarize(suggestions)).toEqual([
+      'secondary-dominant: A7',
+      'relative: Am',
+      'passing-diminished: C C#dim7',
+      'sus-resolution: Csus4 C',
+    ]);
+    expect(suggestions[0].explanation).toBe('V7/ii: the dominant of Dm, pulling into it');
+  });
+
+  it('spells suggestions in the key', () => {
+    expect(summarize(suggestSubstitutions('Bb', { key: 'F', next: 'C' }))).toEqual([
+      'secondary-dominant: G7',
+      'relative: Gm',
+      'passing-diminished: Bb Bdim7',
+      'sus-resolution: Bbsus4 Bb',
+    ]);
+  });
+
+  it('keeps sevenths on the relative chord and skips N.C.', () => {
+    expect(summarize(suggestSubstitutions('Am', { key: 'C' }))).toEqual(['relative: C', 'sus-resolution: Asus4 Am']);
+    expect(summarize(suggestSubstitutions('Cmaj7', { key: 'C' }))).toEqual(['relative: Am7']);
+    expect(suggestSubstitutions('N.C.', { key: 'C' })).toEqual([]);
+  });
+});
+
+describe('applySubstitutions', () => {
+  const sections = parseSections('[Verse]\n[C]Hello [Dm]world [C]again [G]now\n\n[Chorus]\n[C]One [Dm]two');
+
+  it('counts the chords a substitution would replace', () => {
+    expect(countSubstitutionTargets(sections, 'C')).toBe(3);
+    expect(countSubstitutionTargets(sections, 'C', 'Dm')).toBe(2);
+  });
+
+  it('replays substitutions over every section, placing added chords side by side', () => {
+    const result = applySubstitutions(sections, [
+      { chord: 'C', chords: ['C', 'C#dim7'], next: 'Dm' },
+      { chord: 'G', chords: ['Gsus4', 'G'] },
+    ]);
+    expect(result.map(section => section.content)).toEqual([
+      '[C][C#dim7]Hello [Dm]world [C]again [Gsus4][G]now',
+      '[C][C#dim7]One [Dm]two',
+    ]);
+  });
+
+  it('replaces a single occurrence and leaves other sections untouched', () => {
+    const result = applySubstitutions(sections, [{ chord: 'C', chords: ['Am'], occurrence: { section: 0, index: 2 } }]);
+    expect(result[0].content).toBe('[C]Hello [Dm]world [Am]again [G]now');
+    expect(result[1]).toBe(sections[1]);
+  });
+});
@@ -0,0 +1,280 @@
+// ============================================
+// Chord Substitutions
+// Reharmonization ideas for a chord in its key and before its next chord,
+// and replaying substitutions tried on a song over its original sheet
+// ============================================
+
+import {
+  AppliedSubstitution,
+  ChordSubstitution,
+  ChordSymbol,
+  SemitoneShift,
+  SongSection,
+  SubstitutionContext,
+} from '@/types';
+import { formatChord, getPitchClass, isNoChord, parseChord } from '@/utils/chord';
+import { analyzeChord } from '@/utils/harmony';
+import { getLineChords, setSectionLines } from '@/utils/songStructure';
+import { keyUsesFlats, transposeChord } from '@/utils/transpose';
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * Note a number of semitones above another
+ */
+function noteAbove(note: string, semitones: number, useFlats: boolean): string {
+  return transposeChord(note, (semitones % 12) as SemitoneShift, useFlats);
+}
+
+/**
+ * Chord symbol without extensions, alterations or bass
+ */
+function plainSymbol(root: string, quality: ChordSymbol['quality'], seventh?: ChordSymbol['seventh']): string {
+  return formatChord({
+    root,
+    quality,
+    seventh,
+    extension: seventh ? 7 : undefined,
+    alterations: [],
+    added: [],
+    omissions: [],
+  });
+}
+
+function isDominant(symbol: ChordSymbol): boolean {
+  return symbol.quality === 'major' && symbol.seventh === 'minor';
+}
+
+/**
+ * Semitones from one chord's root up to another's
+ */
+function getRootInterval(from: ChordSymbol, to: ChordSymbol): number {
+  return (getPitchClass(to.root) - getPitchClass(from.root) + 12) % 12;
+}
+
+/**
+ * Roman numeral of a chord without its seventh (V7 -> V, iiø7 -> ii)
+ */
+function getTriadNumeral(chord: string, key: string): string | null {
+  const analysis = analyzeChord(chord, key);
+  return analysis ? analysis.roman.replace(/(maj)?\d+.*$/, '').replace(/[°ø+]$/, '') : null;
+}
+
+// ----------------------
+// Suggestions
+// ----------------------
+
+/**
+ * Dominant a tritone away: both share the chord's third and seventh,
+ * and the substitute slides down a half step into the target
+ */
+function getTritoneSubstitution(symbol: ChordSymbol, context: SubstitutionContext): ChordSubstitution | null {
+  const next = context.next ? parseChord(context.next) : null;
+  const resolvesDown = next !== null && getRootInterval(symbol, next) === 5;
+  if (symbol.quality !== 'major' || (!isDominant(symbol) && !resolvesDown)) return null;
+
+  const root = noteAbove(symbol.root, 6, true);
+  const third = noteAbove(symbol.root, 4, false);
+  const seventh = noteAbove(symbol.root, 10, true);
+  const target = next ? ` and slides down a half step into ${context.next}` : '';
+
+  return {
+    type: 'tritone',
+    chords: [plainSymbol(root, 'major', 'minor')],
+    explanation: `Shares the tritone ${third}–${seventh} with ${symbol.root}7${target}`,
+    // A plain triad is only heard as a dominant where it resolves down a fifth
+    needsNext: !isDominant(symbol),
+  };
+}
+
+/**
+ * Relative minor of a major chord, relative major of a minor one
+ */
+function getRelativeSubstitution(symbol: ChordSymbol, context: SubstitutionContext): ChordSubstitution | null {
+  if (symbol.quality !== 'major' && symbol.quality !== 'minor') return null;
+  if (isDominant(symbol)) return null;
+
+  const useFlats = keyUsesFlats(context.key);
+  const major = symbol.quality === 'major';
+  const root = noteAbove(symbol.root, major ? 9 : 3, useFlats);
+  const seventh = symbol.seventh ? (major ? 'minor' : 'major') : undefined;
+  const shared = major
+    ? [symbol.root, noteAbove(symbol.root, 4, useFlats)]
+    : [noteAbove(symbol.root, 3, useFlats), noteAbove(symbol.root, 7, useFlats)];
+
+  return {
+    type: 'relative',
+    chords: [plainSymbol(root, major ? 'minor' : 'major', seventh)],
+    explanation: `Relative ${major ? 'minor' : 'major'}, sharing ${shared.join(' and ')}`,
+    needsNext: false,
+  };
+}
+
+/**
+ * Dominant seventh of the next chord, leading into it
+ */
+function getSecondaryDominant(symbol: ChordSymbol, context: SubstitutionContext): ChordSubstitution | null {
+  const next = context.next ? parseChord(context.next) : null;
+  if (!next || next.quality === 'diminished' || next.quality === 'power') return null;
+
+  const root = noteAbove(next.root, 7, keyUsesFlats(context.key));
+  const chord = plainSymbol(root, 'major', 'minor');
+  if (getPitchClass(root) === getPitchClass(symbol.root) && isDominant(symbol)) return null;
+
+  const numeral = getTriadNumeral(context.next as string, context.key);
+  const label = numeral === 'I' || numeral === 'i' ? 'V7' : numeral ? `V7/${numeral}` : 'V7';
+
+  return {
+    type: 'secondary-dominant',
+    chords: [chord],
+    explanation: `${label}: the dominant of ${context.next}, pulling into it`,
+    needsNext: true,
+  };
+}
+
+/**
+ * Diminished seventh a half step below the next chord, filling a whole step in the bass
+ */
+function getPassingDiminished(
+  chord: string,
+  symbol: ChordSymbol,
+  context: SubstitutionContext
+): ChordSubstitution | null {
+  const next = context.next ? parseChord(context.next) : null;
+  if (!next || getRootInterval(symbol, next) !== 2) return null;
+
+  const passing = plainSymbol(noteAbove(symbol.root, 1, false), 'diminished', 'diminished');
+  return {
+    type: 'passing-diminished',
+    chords: [chord, passing],
+    explanation: `${passing} in the second half walks the bass up from ${symbol.root} to ${next.root}`,
+    needsNext: true,
+  };
+}
+
+/**
+ * Suspended fourth resolving to the chord itself
+ */
+function getSusResolution(chord: string, symbol: ChordSymbol, context: SubstitutionContext): ChordSubstitution | null {
+  if (symbol.quality !== 'major' && symbol.quality !== 'minor') return null;
+  if (symbol.seventh === 'major' || (symbol.quality === 'minor' && symbol.seventh)) return null;
+
+  const useFlats = keyUsesFlats(context.key);
+  const fourth = noteAbove(symbol.root, 5, useFlats);
+  const third = noteAbove(symbol.root, symbol.quality === 'major' ? 4 : 3, useFlats);
+  const sus = formatChord({
+    root: symbol.root,
+    quality: 'sus4',
+    seventh: symbol.seventh,
+    extension: symbol.seventh ? 7 : undefined,
+    alterations: [],
+    added: [],
+    omissions: [],
+  });
+
+  return {
+    type: 'sus-resolution',
+    chords: [sus, chord],
+    explanation: `Holds ${fourth} over the bass, then resolves down to the third (${third})`,
+    needsNext: false,
+  };
+}
+
+/**
+ * Reharmonization ideas for a chord: tritone substitution, relative
+ * major/minor, secondary dominant, diminished passing chord and sus resolution
+ * (those that apply to the chord and what follows it)
+ */
+export function suggestSubstitutions(chord: string, context: SubstitutionContext): ChordSubstitution[] {
+  if (isNoChord(chord)) return [];
+  const symbol = parseChord(chord);
+  if (!symbol) return [];
+
+  const suggestions = [
+    getTritoneSubstitution(symbol, context),
+    getSecondaryDominant(symbol, context),
+    getRelativeSubstitution(symbol, context),
+    getPassingDiminished(chord, symbol, context),
+    getSusResolution(chord, symbol, context),
+  ].filter((suggestion): suggestion is ChordSubstitution => suggestion !== null);
+
+  // Two ideas can land on the same chords (a tritone sub of V7/x)
+  return suggestions.filter((suggestion, index) =>
+    suggestions.findIndex(other => other.chords.join(' ') === suggestion.chords.join(' ')) === index
+  );
+}
+
+// ----------------------
+// Applying
+// ----------------------
+
+/**
+ * Replace the chords a substitution covers in one section. Chords are
+ * counted through its lines in order; several chords take the place of
+ * one side by side, the last over its lyrics ([C][C#dim7]Hello).
+ */
+function applyToSection(section: SongSection, sectionIndex: number, substitution: AppliedSubstitution): SongSection {
+  const { chord, chords: replacement, next, occurrence } = substitution;
+  if (occurrence && occurrence.section !== sectionIndex) return section;
+
+  const chords = getLineChords(section.lines);
+  let index = 0;
+  let changed = false;
+  const lines = section.lines.map(line => ({
+    ...line,
+    segments: line.segments.flatMap(segment => {
+      if (segment.chord === undefined) return [segment];
+      const position = index++;
+      const matches = segment.chord === chord &&
+        (!occurrence || occurrence.index === position) &&
+        (next === undefined || chords[position + 1] === next);
+      if (!matches) return [segment];
+
+      changed = true;
+      return replacement.map((current, i) => ({
+        chord: current,
+        lyrics: i === replacement.length - 1 ? segment.lyrics : '',
+      }));
+    }),
+  }));
+
+  return changed ? setSectionLines(section, lines) : section;
+}
+
+/**
+ * Replay substitutions, in the order they were tried, over a song's sections
+ */
+export function applySubstitutions(sections: SongSection[], substitutions: AppliedSubstitution[]): SongSection[] {
+  return substitutions.reduce(
+    (current, substitution) => current.map((section, index) => applyToSection(section, index, substitution)),
+    sections
+  );
+}
+
+/**
+ * How many chords a substitution would replace across the song
+ */
+export function countSubstitutionTargets(
+  sections: SongSection[],
+  chord: string,
+  next?: string
+): number {
+  return sections.reduce((total, section) => {
+    const chords = getLineChords(section.lines);
+    return total + chords.filter((current, index) =>
+      current === chord && (next === undefined || chords[index + 1] === next)
+    ).length;
+  }, 0);
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  suggestSubstitutions,
+  applySubstitutions,
+  countSubstitutionTargets,
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { formatTab, getUnplayableNotes, isTabLine, layoutTabString, parseTab, transposeTab } from '@/utils/tablature';
+
+const riff = ['e|-----0---|', 'B|---1---1-|', 'G|-2h4-----|', 'D|---------|', 'A|-3-------|', 'E|---------|'];
+
+describe('isTabLine', () => {
+  it('recognizes named and bar-lined tab strings', () => {
+    expect(isTabLine('e|---0---3---|')).toBe(true);
+    expect(isTabLine('E ---5h7---')).toBe(true);
+    expect(isTabLine('|--0--|')).toBe(true);
+  });
+
+  it('rejects dividers, chord lines and lyrics', () => {
+    expect(isTabLine('-----')).toBe(false);
+    expect(isTabLine('Am   G')).toBe(false);
+    expect(isTabLine('---- hello')).toBe(false);
+  });
+});
+
+describe('parseTab', () => {
+  it('reads string names, frets, techniques and bar lines', () => {
+    const block = parseTab(riff);
+    expect(block.strings).toEqual(['e', 'B', 'G', 'D', 'A', 'E']);
+    expect(block.bars).toEqual([0, 10]);
+    expect(block.width).toBe(11);
+    expect(block.notes).toEqual([
+      { string: 0, column: 6, fret: 0 },
+      { string: 1, column: 4, fret: 1 },
+      { string: 1, column: 8, fret: 1 },
+      { string: 2, column: 2, fret: 2, technique: 'hammer-on' },
+      { string: 2, column: 4, fret: 4 },
+      { string: 4, column: 2, fret: 3 },
+    ]);
+  });
+
+  it('reads two digits only as a fret on the neck', () => {
+    expect(parseTab(['e|--57--12--5~~~--x--|']).notes).toEqual([
+      { string: 0, column: 3, fret: 5 },
+      { string: 0, column: 4, fret: 7 },
+      { string: 0, column: 7, fret: 12 },
+      { string: 0, column: 11, fret: 5, technique: 'vibrato' },
+      { string: 0, column: 17, fret: null },
+    ]);
+  });
+});
+
+describe('formatTab', () => {
+  it('writes a block back as it was read', () => {
+    expect(formatTab(parseTab(riff))).toBe(riff.join('\n'));
+    expect(formatTab(parseTab(['--0--3--', '--1--1--']))).toBe('--0--3--\n--1--1--');
+  });
+
+  it('pushes later columns right when a fret gains a digit', () => {
+    const block = transposeTab(parseTab(riff), 10);
+    expect(formatTab(block)).toBe([
+      'e|------10--|',
+      'B|----11--11|',
+      'G|-12h14----|',
+      'D|----------|',
+      'A|-13-------|',
+      'E|----------|',
+    ].join('\n'));
+    expect(layoutTabString(block, 2)).toEqual([
+      { text: '|-' },
+      { text: '12h', note: { string: 2, column: 2, fret: 12, technique: 'hammer-on' } },
+      { text: '14', note: { string: 2, column: 4, fret: 14 } },
+      { text: '----|' },
+    ]);
+  });
+
+  it('keeps a dash between notes that grow into each other', () => {
+    expect(formatTab(transposeTab(parseTab(['e|-8-9-|', 'B|-8-9-|']), 2))).toBe('e|-10-11|\nB|-10-11|');
+  });
+});
+
+describe('transposeTab', () => {
+  it('moves every fret by the shift', () => {
+    expect(formatTab(transposeTab(parseTab(riff), 2))).toBe([
+      'e|-----2---|',
+      'B|---3---3-|',
+      'G|-4h6-----|',
+      'D|---------|',
+      'A|-5-------|',
+      'E|---------|',
+    ].join('\n'));
+  });
+
+  it('moves a note below the nut to the next lower string', () => {
+    const block = transposeTab(parseTab(['e|---0---|', 'B|-------|', 'G|---2---|']), -1);
+    expect(block.notes).toEqual([
+      { string: 1, column: 4, fret: 4 },
+      { string: 2, column: 4, fret: 1 },
+    ]);
+    expect(getUnplayableNotes(block)).toEqual([]);
+  });
+
+  it('tries the octave the other way when notes fall off the neck', () => {
+    expect(formatTab(transposeTab(parseTab(['|--0--|', '|--1--|']), -1))).toBe('|--11-|\n|--12-|');
+    expect(transposeTab(parseTab(['e|--22--|']), 5).notes).toEqual([{ string: 0, column: 3, fret: 15 }]);
+  });
+
+  it('flags notes that stay off the neck', () => {
+    const block = transposeTab(parseTab(['e|--0--12--|']), -1, 12);
+    expect(getUnplayableNotes(block)).toEqual([{ string: 0, column: 3, fret: -1, unplayable: true }]);
+    expect(formatTab(block)).toBe('e|--?--11--|');
+  });
+});
@@ -0,0 +1,275 @@
+// ============================================
+// Tablature
+// Reads ASCII tab blocks (one e|---0---| line per string) into notes
+// and techniques, lays them out again and moves them to a new key
+// ============================================
+
+import { TabBlock, TabNote, TabRun, TabTechnique } from '@/types';
+import { getPitchClass } from '@/utils/chord';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// Highest fret a transposed note may land on
+const MAX_FRET = 24;
+
+// e|---0---3---|, E ---5h7---, |--0--|
+const TAB_LINE_PATTERN = /^\s*([A-Ga-g][#b]?)?\s*([-0-9xXhpbrsv/\\~|()<>*.=^\s]*)$/;
+
+const TECHNIQUES: Record<string, TabTechnique> = {
+  h: 'hammer-on',
+  p: 'pull-off',
+  b: 'bend',
+  r: 'release',
+  '/': 'slide-up',
+  '\\': 'slide-down',
+  s: 'slide',
+  '~': 'vibrato',
+  v: 'vibrato',
+};
+
+const TECHNIQUE_SYMBOLS: Record<TabTechnique, string> = {
+  'hammer-on': 'h',
+  'pull-off': 'p',
+  bend: 'b',
+  release: 'r',
+  'slide-up': '/',
+  'slide-down': '\\',
+  slide: 's',
+  vibrato: '~',
+};
+
+// ----------------------
+// Helper Functions
+// ----------------------
+
+/**
+ * A note as written in the tab: fret and technique (5h), x when muted,
+ * ? below the nut
+ */
+function getNoteText(note: TabNote): string {
+  const fret = note.fret === null ? 'x' : note.fret < 0 ? '?' : String(note.fret);
+  return fret + (note.technique ? TECHNIQUE_SYMBOLS[note.technique] : '');
+}
+
+/**
+ * Where each column of a block is drawn. A fret that gained a digit in
+ * transposition pushes the later columns right, so no string runs into
+ * itself and a dash still parts two notes (10-11, not 1011) unless a
+ * technique joins them; the other strings stay lined up with it.
+ */
+function layoutColumns(block: TabBlock): { columns: number[]; width: number } {
+  const ends = block.strings.map(() => 0); // Where each string is free again
+  const next = block.strings.map(() => 0); // Where each string's next note may go
+  const columns: number[] = [];
+
+  for (let column = 0; column <= block.width; column++) {
+    const notes = block.notes.filter(note => note.column === column);
+    const isBar = block.bars.includes(column);
+
+    let at = column === 0 ? 0 : columns[column - 1] + 1;
+    for (const note of notes) at = Math.max(at, next[note.string]);
+    if (isBar) at = Math.max(at, ...ends);
+    columns.push(at);
+
+    for (const note of notes) {
+      ends[note.string] = at + getNoteText(note).length;
+      next[note.string] = ends[note.string] + (note.technique ? 0 : 1);
+    }
+    if (isBar) {
+      ends.fill(at + 1);
+      next.fill(at + 1);
+    }
+  }
+
+  return { columns, width: Math.max(columns[block.width], ...ends) };
+}
+
+/**
+ * Pitch class of each string from its name, or null when one is unnamed
+ */
+function getStringPitches(block: TabBlock): number[] | null {
+  if (!block.strings.every(name => /^[A-Ga-g][#b]?$/.test(name))) return null;
+  return block.strings.map(name => getPitchClass(name.charAt(0).toUpperCase() + name.slice(1)));
+}
+
+/**
+ * Move every fret of a block by some semitones. A note pushed below the
+ * nut goes to a lower string, one pushed past the last fret to a higher
+ * string, when the tuning is known and that string is free; otherwise
+ * it stays on its string, flagged unplayable.
+ */
+function shiftTab(block: TabBlock, semitones: number, maxFret: number): TabBlock {
+  const pitches = getStringPitches(block);
+  // Semitones from each string down to the next lower string
+  const intervals = pitches ? pitches.slice(0, -1).map((pitch, i) => (pitch - pitches[i + 1] + 12) % 12 || 12) : [];
+  const taken = new Set(block.notes.map(note => `${note.string}:${note.column}`));
+
+  const notes = block.notes.map((note): TabNote => {
+    if (note.fret === null) return note;
+    const fret = note.fret + semitones;
+    if (fret >= 0 && fret <= maxFret) return { ...note, fret };
+
+    let string = note.string;
+    let moved = fret;
+    while (pitches && moved < 0 && string < intervals.length) {
+      moved += intervals[string];
+      string++;
+    }
+    while (pitches && moved > maxFret && string > 0) {
+      string--;
+      moved -= intervals[string];
+    }
+
+    if (moved < 0 || moved > maxFret || taken.has(`${string}:${note.column}`)) {
+      return { ...note, fret, unplayable: true };
+    }
+    taken.add(`${string}:${note.column}`);
+    // A hammer-on or slide doesn't carry over to another string
+    const { technique, ...rest } = note;
+    return { ...rest, string, fret: moved, ...(technique === 'vibrato' || technique === 'bend' ? { technique } : {}) };
+  });
+
+  return { ...block, notes };
+}
+
+// ----------------------
+// Parsing
+// ----------------------
+
+/**
+ * Check if a line is a string of an ASCII tab: a run of dashes with frets,
+ * techniques and bar lines, named (e|---0---) or inside bar lines
+ */
+export function isTabLine(line: string): boolean {
+  const match = line.trimEnd().match(TAB_LINE_PATTERN);
+  if (!match || !match[2].includes('--') || (match[2].match(/-/g) ?? []).length < 3) return false;
+  return !!match[1] || /[|\d]/.test(match[2]);
+}
+
+/**
+ * Read the string lines of a tab block. Frets take up to two digits
+ * (12, but 57 is 5 then 7); a technique letter right after a fret leads
+ * into the next note on that string. Other marks are filler.
+ */
+export function parseTab(lines: string[]): TabBlock {
+  const notes: TabNote[] = [];
+  const bars = new Set<number>();
+  let width = 0;
+
+  const strings = lines.map((line, string) => {
+    const [, name = '', body = ''] = line.trimEnd().match(TAB_LINE_PATTERN) ?? [];
+    width = Math.max(width, body.length);
+
+    let last: TabNote | null = null;
+    let end = -1; // Column right after the last note, where its technique goes
+    for (let i = 0; i < body.length; i++) {
+      const char = body[i];
+      if (/\d/.test(char)) {
+        const pair = body.slice(i, i + 2);
+        const digits = /^\d\d$/.test(pair) && parseInt(pair, 10) <= MAX_FRET ? pair : char;
+        last = { string, column: i, fret: parseInt(digits, 10) };
+        notes.push(last);
+        end = i + digits.length;
+        i = end - 1;
+      } else if (char === 'x' || char === 'X') {
+        last = { string, column: i, fret: null };
+        notes.push(last);
+        end = i + 1;
+      } else if (char === '|') {
+        bars.add(i);
+      } else if (TECHNIQUES[char] && last && i === end) {
+        last.technique = last.technique ?? TECHNIQUES[char];
+        end = i + 1; // 5~~~ is one vibrato
+      }
+    }
+    return name;
+  });
+
+  return { strings, notes, bars: Array.from(bars).sort((a, b) => a - b), width };
+}
+
+// ----------------------
+// Layout
+// ----------------------
+
+/**
+ * Lay out one string of a block as runs of dashes, bar lines and notes
+ */
+export function layoutTabString(block: TabBlock, string: number): TabRun[] {
+  const { columns, width } = layoutColumns(block);
+  const items = [
+    ...block.bars.map(column => ({ column, text: '|', note: undefined as TabNote | undefined })),
+    ...block.notes.filter(note => note.string === string).map(note => ({ column: note.column, text: getNoteText(note), note })),
+  ].sort((a, b) => a.column - b.column);
+
+  const runs: TabRun[] = [];
+  let at = 0;
+  const push = (text: string, note?: TabNote) => {
+    const last = runs[runs.length - 1];
+    if (!note && last && !last.note) last.text += text;
+    else runs.push(note ? { text, note } : { text });
+    at += text.length;
+  };
+
+  for (const { column, text, note } of items) {
+    if (columns[column] > at) push('-'.repeat(columns[column] - at));
+    push(text, note);
+  }
+  if (width > at) push('-'.repeat(width - at));
+  return runs;
+}
+
+/**
+ * Write a block back as text, one line per string with its name
+ */
+export function formatTab(block: TabBlock): string {
+  const nameWidth = Math.max(0, ...block.strings.map(name => name.length));
+  const separator = nameWidth > 0 && !block.bars.includes(0) ? ' ' : '';
+  return block.strings
+    .map((name, string) =>
+      name.padEnd(nameWidth) + separator + layoutTabString(block, string).map(run => run.text).join('')
+    )
+    .join('\n');
+}
+
+// ----------------------
+// Transposition
+// ----------------------
+
+/**
+ * Transpose a tab by moving its frets. When notes would fall off the neck,
+ * the same shift an octave the other way is tried, and the one with fewer
+ * unplayable notes is kept; the notes left off the neck are flagged.
+ */
+export function transposeTab(block: TabBlock, semitones: number, maxFret = MAX_FRET): TabBlock {
+  if (semitones === 0) return block;
+
+  const unplayable = (tab: TabBlock) => getUnplayableNotes(tab).length;
+  const shifted = shiftTab(block, semitones, maxFret);
+  if (unplayable(shifted) === 0) return shifted;
+
+  const octave = shiftTab(block, semitones > 0 ? semitones - 12 : semitones + 12, maxFret);
+  return unplayable(octave) < unplayable(shifted) ? octave : shifted;
+}
+
+/**
+ * Notes of a tab that can't be played as transposed
+ */
+export function getUnplayableNotes(block: TabBlock): TabNote[] {
+  return block.notes.filter(note => note.unplayable);
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  isTabLine,
+  parseTab,
+  layoutTabString,
+  formatTab,
+  transposeTab,
+  getUnplayableNotes,
+};
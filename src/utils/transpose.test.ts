@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { detectKey, shiftKey, transposeChords } from '@/utils/transpose';
+
+describe('detectKey', () => {
+  it('bases confidence on the chords that parse', () => {
+    const valid = ['G', 'C', 'D', 'G'];
+    const mixed = ['G', 'sus4', 'C', '???', 'D', 'N.C.x', 'G', 'H7', 'xyz', 'foo'];
+
+    const clean = detectKey(valid);
+    const noisy = detectKey(mixed);
+
+    expect(noisy.detectedKey).toBe('G');
+    expect(noisy.confidenceScore).toBe(clean.confidenceScore);
+  });
+
+  it('finds G for chords that fit both G and C', () => {
+    const chords = 'Em7 G Cadd9 Em7 G Dsus4 Cadd9 Am7 Cadd9 G Em7 G Dsus4 Cadd9'.split(' ');
+    expect(detectKey(chords).detectedKey).toBe('G');
+  });
+});
+
+describe('transposeChords', () => {
+  it('spells chords for the key they land in', () => {
+    expect(transposeChords(['C', 'F', 'G7'], 3, { originalKey: 'C' })).toEqual(['Eb', 'Ab', 'Bb7']);
+    expect(transposeChords(['C', 'F', 'G7'], 4, { originalKey: 'C' })).toEqual(['E', 'A', 'B7']);
+  });
+
+  it('keeps a minor song minor when spelling for the target', () => {
+    const targetKey = shiftKey('Em', -4);
+    expect(targetKey).toBe('Cm');
+    expect(transposeChords(['Em', 'C', 'B7'], -4, { originalKey: 'Em', targetKey })).toEqual(['Cm', 'Ab', 'G7']);
+  });
+
+  it('lets a sharps or flats preference win', () => {
+    expect(transposeChords(['C'], 1, { originalKey: 'C', accidentals: 'sharps' })).toEqual(['C#']);
+    expect(transposeChords(['C'], 1, { originalKey: 'C', accidentals: 'flats' })).toEqual(['Db']);
+  });
+});
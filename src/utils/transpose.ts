@@ -5,6 +5,19 @@
 // Range: -12 to +12 semitones
 // ============================================
 
+import { AccidentalPreference, ChordSymbol, SimplificationLevel, SongSection } from '@/types';
+import {
+  parseChord,
+  formatChord,
+  isChord,
+  getPitchClass,
+  getChordIntervals,
+} from '@/utils/chord';
+import { parseChordLine, rewriteLyricsChords } from '@/utils/chordLine';
+import { simplifyChord, simplifyChords, simplifyLyrics } from '@/utils/simplify';
+import { mapSectionChords, mapSectionTabs } from '@/utils/songStructure';
+import { transposeTab } from '@/utils/tablature';
+
 // ----------------------
 // Constants
 // ----------------------
@@ -21,7 +34,7 @@ const MAJOR_KEYS = [
   { name: 'A', index: 9, flats: 0, sharps: 3 },
   { name: 'E', index: 4, flats: 0, sharps: 4 },
   { name: 'B', index: 11, flats: 0, sharps: 5 },
-  { name: 'F#', index: 6, flats: 1, sharps: 6 },
+  { name: 'F#', index: 6, flats: 0, sharps: 6 },
   { name: 'Db', index: 1, flats: 5, sharps: 0 },
   { name: 'Ab', index: 8, flats: 4, sharps: 0 },
   { name: 'Eb', index: 3, flats: 3, sharps: 0 },
@@ -29,14 +42,45 @@ const MAJOR_KEYS = [
   { name: 'F', index: 5, flats: 1, sharps: 0 },
 ];
 
-// Minor key signatures (relative to major)
-const MINOR_KEYS = MAJOR_KEYS.map((major, i) => ({
-  name: `${NOTES[(major.index + 9) % 12]}m`,
+// Minor key signatures (relative to major, spelled like their signature)
+const MINOR_KEYS = MAJOR_KEYS.map((major) => ({
+  name: `${(major.flats > 0 ? FLAT_NOTES : SHARP_NOTES)[(major.index + 9) % 12]}m`,
   index: (major.index + 9) % 12,
   flats: major.flats,
   sharps: major.sharps,
 }));
 
+// Diatonic triads by semitone above the tonic
+// Minor allows both v and V (harmonic minor)
+type TriadClass = 'major' | 'minor' | 'diminished' | 'open';
+
+const DIATONIC_TRIADS: Record<'major' | 'minor', Record<number, TriadClass[]>> = {
+  major: {
+    0: ['major'], 2: ['minor'], 4: ['minor'], 5: ['major'],
+    7: ['major'], 9: ['minor'], 11: ['diminished'],
+  },
+  minor: {
+    0: ['minor'], 2: ['diminished'], 3: ['major'], 5: ['minor'],
+    7: ['minor', 'major'], 8: ['major'], 10: ['major'],
+  },
+};
+
+// Key detection weights (per chord occurrence unless noted)
+const KEY_WEIGHTS = {
+  diatonic: 1,
+  borrowed: 0.2,
+  chromatic: -0.6,
+  tonic: 0.6,
+  dominant: 0.3,
+  subdominant: 0.15,
+  tonicTone: 0.3, // Chord sounds the tonic note
+  fifthTone: 0.15, // Chord sounds the fifth of the key
+  authenticCadence: 0.8,
+  plagalCadence: 0.4,
+  firstChord: 1.5, // once per song
+  lastChord: 1.5, // once per song
+};
+
 // Beginner-friendly keys (G, C, D, A, E and their minors)
 const BEGINNER_KEYS = ['G', 'C', 'D', 'A', 'E', 'Am', 'Em', 'Dm'];
 
@@ -52,49 +96,36 @@ export interface TransposeResult {
   semitones: SemitoneShift;
 }
 
+export interface KeyScore {
+  key: string;
+  score: number; // Average weighted score per chord
+  diatonicFit: number; // 0-1 share of chords that belong to the key
+}
+
 export interface KeyDetectionResult {
   detectedKey: string;
   confidence: 'high' | 'medium' | 'low';
+  confidenceScore: number; // 0-1
   possibleKeys: string[];
+  ranking: KeyScore[]; // All 24 keys, best first
+}
+
+export interface TransposeOptions {
+  originalKey?: string; // Detected from the chords when omitted
+  targetKey?: string; // Derived from originalKey + semitones when omitted
+  accidentals?: AccidentalPreference;
+  simplify?: SimplificationLevel; // Applied after transposing; defaults to 'full'
 }
 
 // ----------------------
 // Helper Functions
 // ----------------------
 
-/**
- * Normalize note name to sharp format
- */
-function normalizeToSharp(note: string): string {
-  const lowerNote = note.toLowerCase();
-  const flatMap: Record<string, string> = {
-    'db': 'c#', 'eb': 'd#', 'gb': 'f#', 'ab': 'g#', 'bb': 'a#',
-    'cb': 'b', 'fb': 'e', 'cb': 'b',
-  };
-  return flatMap[lowerNote] || note.charAt(0).toUpperCase() + note.slice(1).replace('#', '#');
-}
-
-/**
- * Normalize note name to flat format
- */
-function normalizeToFlat(note: string): string {
-  const sharpMap: Record<string, string> = {
-    'c#': 'db', 'd#': 'eb', 'f#': 'gb', 'g#': 'ab', 'a#': 'bb',
-  };
-  const normalized = normalizeToSharp(note);
-  return sharpMap[normalized] || normalized;
-}
-
 /**
  * Get note index (0-11)
  */
 function getNoteIndex(note: string): number {
-  const normalized = normalizeToSharp(note);
-  const index = NOTES.indexOf(normalized);
-  if (index === -1) {
-    throw new Error(`Invalid note: ${note}`);
-  }
-  return index;
+  return getPitchClass(note);
 }
 
 /**
@@ -108,185 +139,314 @@ function transposeNote(note: string, semitones: SemitoneShift, useFlats = false)
 }
 
 // ----------------------
-// Chord Parsing
+// Core Transposition
 // ----------------------
 
 /**
- * Parse a chord into its root and quality
+ * Transpose a chord by semitones
  */
-export function parseChord(chord: string): { root: string; quality: string; bass?: string } {
-  const chordRegex = /^([A-G][#b]?)(.*?)(\/[A-G][#b]?)?$/;
-  const match = chord.trim().match(chordRegex);
+export function transposeChord(chord: string, semitones: SemitoneShift, useFlats = false): string {
+  if (semitones === 0 || !chord.trim()) {
+    return chord;
+  }
   
-  if (!match) {
-    return { root: chord, quality: '' };
+  // N.C. and unparseable text pass through untouched
+  const parsed = parseChord(chord);
+  if (!parsed) {
+    return chord;
   }
   
-  return {
-    root: match[1],
-    quality: match[2] || '',
-    bass: match[3]?.slice(1), // Remove the slash
+  // Transpose root and bass, then print in canonical form
+  const transposed: ChordSymbol = {
+    ...parsed,
+    root: transposeNote(parsed.root, semitones, useFlats),
+    bass: parsed.bass 
+      ? transposeNote(parsed.bass, semitones, useFlats)
+      : undefined,
   };
+  
+  return formatChord(transposed);
 }
 
 /**
- * Check if a string looks like a chord
+ * Transpose multiple chords (optimized for performance)
  */
-export function isChord(text: string): boolean {
-  const chordPatterns = [
-    /^[A-G][#b]?(m|maj|dim|aug|sus|add| maj7| m7| 7| maj9| m9| 9| 11| 13)?$/i,
-    /^[A-G][#b]?\/(A-G][#b]?)?$/i,
-  ];
-  return chordPatterns.some(pattern => pattern.test(text.trim()));
+export function transposeChords(
+  chords: string[], 
+  semitones: SemitoneShift,
+  options: TransposeOptions = {}
+): string[] {
+  const level = options.simplify ?? 'full';
+  if (semitones === 0) {
+    return simplifyChords(chords, level);
+  }
+  
+  const useFlats = resolveUseFlats(semitones, options, chords);
+  return chords.map(chord => simplifyChord(transposeChord(chord, semitones, useFlats), level));
+}
+
+/**
+ * Transpose song lyrics with inline [chords] or chord lines above the lyrics
+ */
+export function transposeLyrics(
+  lyrics: string, 
+  semitones: SemitoneShift,
+  options: TransposeOptions = {}
+): string {
+  const level = options.simplify ?? 'full';
+  if (semitones === 0) {
+    return simplifyLyrics(lyrics, level);
+  }
+  
+  const useFlats = resolveUseFlats(semitones, options, extractChords(lyrics));
+  
+  // Chord lines keep each chord over its syllable; [Verse 1] headers and
+  // tab string lines (transposed by transposeSection) are left alone
+  return rewriteLyricsChords(lyrics, chord =>
+    simplifyChord(transposeChord(chord, semitones, useFlats), level)
+  );
+}
+
+/**
+ * Transpose the chords of a song section, each staying over its lyrics,
+ * and move the frets of its tab blocks
+ */
+export function transposeSection(
+  section: SongSection,
+  semitones: SemitoneShift,
+  options: TransposeOptions = {}
+): SongSection {
+  const level = options.simplify ?? 'full';
+  if (semitones === 0) {
+    return level === 'full' ? section : mapSectionChords(section, chord => simplifyChord(chord, level));
+  }
+
+  const useFlats = resolveUseFlats(semitones, options, section.chords ?? []);
+  const transposed = mapSectionChords(section, chord =>
+    simplifyChord(transposeChord(chord, semitones, useFlats), level)
+  );
+  return mapSectionTabs(transposed, block => transposeTab(block, semitones));
+}
+
+/**
+ * Collect the chords of a lyrics sheet in order: bracketed chords
+ * (skipping [Verse 1] headers) and chord lines above the lyrics
+ */
+export function extractChords(lyrics: string): string[] {
+  const chords: string[] = [];
+  for (const line of lyrics.split('\n')) {
+    const positions = parseChordLine(line);
+    if (positions) {
+      chords.push(...positions.map(p => p.chord));
+      continue;
+    }
+    for (const match of Array.from(line.matchAll(/\[([^\]\n]+)\]/g))) {
+      if (isChord(match[1])) {
+        chords.push(match[1]);
+      }
+    }
+  }
+  return chords;
 }
 
 // ----------------------
-// Core Transposition
+// Enharmonic Spelling
 // ----------------------
 
 /**
- * Transpose a chord by semitones
+ * Find the key signature entry for a key name (C, F#m, Bb...)
  */
-export function transposeChord(chord: string, semitones: SemitoneShift, useFlats = false): string {
-  if (semitones === 0 || !chord.trim()) {
-    return chord;
-  }
-  
-  const parsed = parseChord(chord);
+function findKeySignature(key: string) {
+  const isMinor = /m$/.test(key);
+  const index = getNoteIndex(key.replace(/m$/, ''));
+  const keys = isMinor ? MINOR_KEYS : MAJOR_KEYS;
+  return keys.find(k => k.index === index);
+}
+
+/**
+ * Check if a key is written with flats (F, Bb, Dm...) rather than sharps
+ */
+export function keyUsesFlats(key: string): boolean {
+  // An explicitly spelled key wins: Gb uses flats even though F# is in the table
+  const accidental = key.charAt(1);
+  if (accidental === 'b') return true;
+  if (accidental === '#') return false;
   
-  // Transpose root
-  const newRoot = transposeNote(parsed.root, semitones, useFlats);
+  const signature = findKeySignature(key);
+  return !!signature && signature.flats > signature.sharps;
+}
+
+/**
+ * Move a key by semitones, keeping its mode (Em + 1 = Fm, C + 1 = Db)
+ */
+export function shiftKey(key: string, semitones: SemitoneShift): string {
+  const isMinor = /m$/.test(key);
+  const index = getNoteIndex(key.replace(/m$/, ''));
+  const newIndex = ((index + semitones) % 12 + 12) % 12;
+  const keys = isMinor ? MINOR_KEYS : MAJOR_KEYS;
+  return keys.find(k => k.index === newIndex)?.name ?? key;
+}
+
+/**
+ * Decide whether transposed notes are spelled with flats.
+ * A sharps/flats preference overrides the target key's signature.
+ */
+export function resolveUseFlats(
+  semitones: SemitoneShift,
+  options: TransposeOptions = {},
+  chords: string[] = []
+): boolean {
+  if (options.accidentals === 'sharps') return false;
+  if (options.accidentals === 'flats') return true;
   
-  // Transpose bass if present
-  const newBass = parsed.bass 
-    ? transposeNote(parsed.bass, semitones, useFlats)
-    : undefined;
+  if (options.targetKey) {
+    return keyUsesFlats(options.targetKey);
+  }
   
-  // Reconstruct chord
-  if (newBass) {
-    return `${newRoot}${parsed.quality}/${newBass}`;
+  const originalKey = options.originalKey
+    ?? (chords.length > 0 ? detectKey(chords).detectedKey : undefined);
+  if (!originalKey) {
+    return false;
   }
-  return `${newRoot}${parsed.quality}`;
+  
+  return keyUsesFlats(shiftKey(originalKey, semitones));
 }
 
+// ----------------------
+// Key Detection
+// ----------------------
+
 /**
- * Transpose multiple chords (optimized for performance)
+ * Reduce a parsed chord to the triad class used for diatonic matching
  */
-export function transposeChords(chords: string[], semitones: SemitoneShift): string[] {
-  if (semitones === 0) {
-    return chords;
+function getTriadClass(chord: ChordSymbol): TriadClass | null {
+  switch (chord.quality) {
+    case 'major':
+      return 'major';
+    case 'minor':
+      return 'minor';
+    case 'diminished':
+      return 'diminished';
+    case 'augmented':
+      return null;
+    default:
+      // sus and power chords have no third, so they fit either way
+      return 'open';
   }
-  
-  return chords.map(chord => transposeChord(chord, semitones));
 }
 
 /**
- * Transpose song lyrics with inline chords
+ * Score how well a chord sequence fits one key
  */
-export function transposeLyrics(
-  lyrics: string, 
-  semitones: SemitoneShift
-): string {
-  if (semitones === 0) {
-    return lyrics;
-  }
+function scoreKey(chords: ChordSymbol[], tonic: number, mode: 'major' | 'minor'): KeyScore {
+  const scale = DIATONIC_TRIADS[mode];
+  const name = (mode === 'major' ? MAJOR_KEYS : MINOR_KEYS).find(k => k.index === tonic)!.name;
+  const degrees = chords.map(chord => (getNoteIndex(chord.root) - tonic + 12) % 12);
+  
+  let score = 0;
+  let diatonic = 0;
+  
+  const fits = (index: number): boolean => {
+    const allowed = scale[degrees[index]];
+    const triad = getTriadClass(chords[index]);
+    return !!allowed && triad !== null && (triad === 'open' || allowed.includes(triad));
+  };
   
-  const lines = lyrics.split('\n');
-  const transposedLines = lines.map(line => {
-    // Match chords at the start of lines (above-lyrics format)
-    const aboveFormat = /^(\[[^\]]+\]\s*)*(\[[A-G][#b]?(maj|m|dim|aug|sus|add|7| maj7| m7| 9| 11| 13)?(,?\s*[A-G][#b]?(maj|m|dim|aug|sus|add|7| maj7| m7| 9| 11| 13)?)*\])\s*$/;
+  chords.forEach((chord, i) => {
+    const degree = degrees[i];
+    if (fits(i)) {
+      diatonic++;
+      score += KEY_WEIGHTS.diatonic;
+      if (degree === 0) score += KEY_WEIGHTS.tonic;
+      if (degree === 7) score += KEY_WEIGHTS.dominant;
+      if (degree === 5) score += KEY_WEIGHTS.subdominant;
+    } else if (scale[degree]) {
+      // Right root, borrowed quality (secondary dominants, modal mixture)
+      score += KEY_WEIGHTS.borrowed;
+    } else {
+      score += KEY_WEIGHTS.chromatic;
+    }
     
-    // Match inline chords in brackets
-    const inlineFormat = /\[([A-G][#b]?(?:maj|m|dim|aug|sus|add|7| maj7| m7| 9| 11| 13)?(?:\/[A-G][#b]?)?)\]/g;
+    // Chords whose roots fit several keys still point to the one whose
+    // tonic and fifth they sound (Em7 G Dsus4 Cadd9 all hold G and D)
+    const tones = getChordIntervals(chord).map(interval => (degree + interval) % 12);
+    if (tones.includes(0)) score += KEY_WEIGHTS.tonicTone;
+    if (tones.includes(7)) score += KEY_WEIGHTS.fifthTone;
     
-    if (aboveFormat.test(line)) {
-      // Above-lyrics format: [Am] [G] [F]
-      return line.replace(/\[([A-G][#b]?[^\]]*)\]/g, (_, chord) => {
-        return `[${transposeChord(chord, semitones)}]`;
-      });
-    } else if (inlineFormat.test(line)) {
-      // Inline format: Love [Am]me [G]tender
-      return line.replace(inlineFormat, (_, chord) => {
-        return `[${transposeChord(chord, semitones)}]`;
-      });
+    // Cadences into the tonic: V-I, IV-I, bVII-i
+    if (i > 0 && degree === 0 && fits(i)) {
+      const previous = degrees[i - 1];
+      if (previous === 7) score += KEY_WEIGHTS.authenticCadence;
+      if (previous === 5) score += KEY_WEIGHTS.plagalCadence;
+      if (previous === 10 && mode === 'minor') score += KEY_WEIGHTS.plagalCadence;
     }
-    
-    return line;
   });
   
-  return transposedLines.join('\n');
+  if (degrees[0] === 0 && fits(0)) score += KEY_WEIGHTS.firstChord;
+  if (degrees[degrees.length - 1] === 0 && fits(degrees.length - 1)) score += KEY_WEIGHTS.lastChord;
+  
+  return {
+    key: name,
+    score: score / chords.length,
+    diatonicFit: diatonic / chords.length,
+  };
 }
 
-// ----------------------
-// Key Detection
-// ----------------------
+/**
+ * Rate all 24 major and minor keys against a chord sequence, best first
+ */
+export function rankKeys(chords: string[]): KeyScore[] {
+  const parsedChords = chords
+    .map(chord => parseChord(chord))
+    .filter((parsed): parsed is ChordSymbol => parsed !== null);
+  
+  if (parsedChords.length === 0) {
+    return [];
+  }
+  
+  const scores = MAJOR_KEYS.flatMap(({ index }) => [
+    scoreKey(parsedChords, index, 'major'),
+    scoreKey(parsedChords, index, 'minor'),
+  ]);
+  
+  return scores.sort((a, b) => b.score - a.score);
+}
 
 /**
  * Detect the likely key of a song from its chords
  */
 export function detectKey(chords: string[]): KeyDetectionResult {
-  if (chords.length === 0) {
+  const ranking = rankKeys(chords);
+  
+  if (ranking.length === 0) {
     return {
       detectedKey: 'C',
       confidence: 'low',
+      confidenceScore: 0,
       possibleKeys: MAJOR_KEYS.map(k => k.name),
+      ranking,
     };
   }
   
-  // Count chord frequencies
-  const chordCounts: Record<string, number> = {};
-  chords.forEach(chord => {
-    const parsed = parseChord(chord);
-    chordCounts[parsed.root] = (chordCounts[parsed.root] || 0) + 1;
-  });
+  const [best, runnerUp] = ranking;
   
-  // Find most common root notes
-    const sortedRoots = Object.entries(chordCounts)
-    .sort((a, b) => b[1] - a[1])
-    .map(([root]) => root);
+  // Confidence combines how diatonic the song is, how clearly the best key
+  // beats the runner-up, and how many chords there were to go on
+  const margin = Math.min(1, Math.max(0, (best.score - runnerUp.score) / Math.max(best.score, 1)) * 4);
+  const parsedCount = chords.filter(chord => parseChord(chord) !== null).length;
+  const sampleSize = Math.min(1, parsedCount / 8);
+  const confidenceScore = Math.round(best.diatonicFit * (0.5 + margin / 2) * sampleSize * 100) / 100;
   
-  // Attempt to identify major/minor
-  const hasMinor = chords.some(c => c.toLowerCase().includes('m') && !c.toLowerCase().includes('maj'));
-  const hasMajor = chords.some(c => !c.toLowerCase().includes('m') || c.toLowerCase().includes('maj'));
-  
-  // Check for primary chords (I, IV, V, vi)
-  const possibleKeys = sortedRoots.flatMap(root => {
-    const rootIndex = getNoteIndex(root);
-    return [
-      ...MAJOR_KEYS.filter(k => k.index === rootIndex).map(k => k.name),
-      ...MINOR_KEYS.filter(k => k.index === rootIndex).map(k => k.name),
-    ];
-  });
-  
-  // Best guess
-  let detectedKey = possibleKeys[0] || 'C';
-  if (hasMinor && !hasMajor) {
-    detectedKey = detectedKey.replace(/^(?!.*m)/, ''); // Ensure minor
-    if (!detectedKey.endsWith('m')) {
-      const minorVersion = MINOR_KEYS.find(k => k.name.replace('m', '') === possibleKeys[0]);
-      if (minorVersion) detectedKey = minorVersion.name;
-    }
-  }
-  
-  // Determine confidence based on data quality
-  const confidence: 'high' | 'medium' | 'low' = 
-    chords.length > 10 ? 'high' :
-    chords.length > 5 ? 'medium' : 'low';
-  
-  // Deduplicate possible keys
-  const uniqueKeys: string[] = [];
-  const seen = new Set<string>();
-  for (const key of possibleKeys) {
-    if (!seen.has(key)) {
-      seen.add(key);
-      uniqueKeys.push(key);
-    }
-  }
+  const confidence: KeyDetectionResult['confidence'] = 
+    confidenceScore >= 0.7 ? 'high' :
+    confidenceScore >= 0.4 ? 'medium' : 'low';
   
   return {
-    detectedKey,
+    detectedKey: best.key,
     confidence,
-    possibleKeys: uniqueKeys.slice(0, 5),
+    confidenceScore,
+    possibleKeys: ranking.slice(0, 5).map(k => k.key),
+    ranking,
   };
 }
 
@@ -320,31 +480,31 @@ export function transposeKey(fromKey: string, toKey: string): SemitoneShift {
 // ----------------------
 
 /**
- * Suggest beginner-friendly keys
- */
-export function suggestEasyModeKeys(currentKey: string): Array<{ key: string; distance: SemitoneShift }> {
-  return BEGINNER_KEYS.map(key => ({
-    key,
-    distance: transposeKey(currentKey, key),
-  })).sort((a, b) => Math.abs(a.distance) - Math.abs(b.distance));
-}
-
-/**
- * Check if a chord is beginner-friendly
+ * Suggest beginner-friendly keys.
+ * Other keys the song visits (modulations) move along with the main key,
+ * so targets that keep every section in an easy key rank first.
  */
-export function isBeginnerFriendly(chord: string): boolean {
-  const beginnerChords = [
-    'C', 'G', 'D', 'A', 'E',
-    'Am', 'Em', 'Dm',
-    'G7', 'D7', 'A7', 'E7',
-    'Cadd9', 'Gadd9', 'Dsus4', 'Asus2',
-  ];
+export function suggestEasyModeKeys(
+  currentKey: string,
+  otherKeys: string[] = []
+): Array<{ key: string; distance: SemitoneShift; songKeys: string[] }> {
+  const isMinor = /m$/.test(currentKey);
   
-  const parsed = parseChord(chord);
-  return beginnerChords.some(c => 
-    c.toLowerCase() === chord.toLowerCase() ||
-    c.toLowerCase() === parsed.root.toLowerCase()
-  );
+  return BEGINNER_KEYS
+    .filter(key => /m$/.test(key) === isMinor)
+    .map(key => {
+      const distance = transposeKey(currentKey, key);
+      return {
+        key,
+        distance,
+        songKeys: otherKeys.map(other => shiftKey(other, distance)),
+      };
+    })
+    .sort((a, b) => {
+      const hardA = a.songKeys.filter(k => !BEGINNER_KEYS.includes(k)).length;
+      const hardB = b.songKeys.filter(k => !BEGINNER_KEYS.includes(k)).length;
+      return hardA - hardB || Math.abs(a.distance) - Math.abs(b.distance);
+    });
 }
 
 // ----------------------
@@ -368,7 +528,7 @@ export function getRelativeMinor(majorKey: string): string {
   const major = MAJOR_KEYS.find(k => k.name === majorKey);
   if (!major) return `${majorKey}m`;
   const minorIndex = (major.index + 9) % 12;
-  return `${NOTES[minorIndex]}m`;
+  return MINOR_KEYS.find(k => k.index === minorIndex)?.name ?? `${NOTES[minorIndex]}m`;
 }
 
 /**
@@ -378,7 +538,7 @@ export function getRelativeMajor(minorKey: string): string {
   const minor = MINOR_KEYS.find(k => k.name === minorKey);
   if (!minor) return minorKey.replace('m', '');
   const majorIndex = (minor.index + 3) % 12;
-  return NOTES[majorIndex];
+  return MAJOR_KEYS.find(k => k.index === majorIndex)?.name ?? NOTES[majorIndex];
 }
 
 // ----------------------
@@ -391,19 +551,18 @@ export type ChordFamily = 'major' | 'minor' | '7' | 'maj7' | 'm7' | 'sus' | 'dim
  * Detect chord family
  */
 export function getChordFamily(chord: string): ChordFamily {
-  const lower = chord.toLowerCase();
   const parsed = parseChord(chord);
+  if (!parsed) return 'major';
   
   if (parsed.bass) return 'slash';
-  if (lower.includes('add')) return 'add';
-  if (lower.includes('dim')) return 'dim';
-  if (lower.includes('aug')) return 'aug';
-  if (lower.includes('sus')) return 'sus';
-  if (lower === 'm7' || lower.includes('min7')) return 'm7';
-  if (lower === 'maj7' || lower.includes('maj7')) return 'maj7';
-  if (lower.includes('m') && lower.includes('7')) return 'm7';
-  if (lower.includes('7')) return '7';
-  if (lower === 'm' || lower.includes('min')) return 'minor';
+  if (parsed.added.length > 0) return 'add';
+  if (parsed.quality === 'diminished') return 'dim';
+  if (parsed.quality === 'augmented') return 'aug';
+  if (parsed.quality === 'sus2' || parsed.quality === 'sus4') return 'sus';
+  if (parsed.seventh === 'major') return 'maj7';
+  if (parsed.seventh && parsed.quality === 'minor') return 'm7';
+  if (parsed.seventh) return '7';
+  if (parsed.quality === 'minor') return 'minor';
   return 'major';
 }
 
@@ -415,13 +574,17 @@ export default {
   transposeChord,
   transposeChords,
   transposeLyrics,
+  transposeSection,
+  extractChords,
   detectKey,
+  rankKeys,
   transposeKey,
   suggestEasyModeKeys,
-  isBeginnerFriendly,
   getAllKeys,
   parseChord,
   isChord,
   getChordFamily,
+  keyUsesFlats,
+  shiftKey,
 };
 
@@ -0,0 +1,249 @@
+// ============================================
+// Tunings
+// Tuning presets, custom tunings and how they shift chord shapes
+// Chords on the sheet are the sounding pitches; shapes are what you fret
+// ============================================
+
+import { ChordFingering, Tuning } from '@/types';
+import { getPitchClass, normalizeNote } from '@/utils/chord';
+import { shiftKey } from '@/utils/transpose';
+
+// ----------------------
+// Constants
+// ----------------------
+
+const PITCH_PATTERN = /^([A-G][#b♯♭]?)(-?\d)?$/;
+
+export const TUNING_PRESETS: Tuning[] = [
+  { id: 'standard', name: 'Standard', strings: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'eb-standard', name: 'Eb Standard', strings: ['Eb2', 'Ab2', 'Db3', 'Gb3', 'Bb3', 'Eb4'] },
+  { id: 'd-standard', name: 'D Standard', strings: ['D2', 'G2', 'C3', 'F3', 'A3', 'D4'] },
+  { id: 'drop-d', name: 'Drop D', strings: ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'drop-c', name: 'Drop C', strings: ['C2', 'G2', 'C3', 'F3', 'A3', 'D4'] },
+  { id: 'dadgad', name: 'DADGAD', strings: ['D2', 'A2', 'D3', 'G3', 'A3', 'D4'] },
+  { id: 'open-g', name: 'Open G', strings: ['D2', 'G2', 'D3', 'G3', 'B3', 'D4'] },
+  { id: 'open-d', name: 'Open D', strings: ['D2', 'A2', 'D3', 'F#3', 'A3', 'D4'] },
+  { id: 'open-e', name: 'Open E', strings: ['E2', 'B2', 'E3', 'G#3', 'B3', 'E4'] },
+];
+
+export const STANDARD_TUNING = TUNING_PRESETS[0];
+
+// ----------------------
+// Pitch Helpers
+// ----------------------
+
+/**
+ * Convert a pitch with octave (E2, Bb3) to a MIDI note number
+ */
+export function getMidiNumber(pitch: string): number {
+  const match = pitch.match(PITCH_PATTERN);
+  if (!match || match[2] === undefined) {
+    throw new Error(`Invalid pitch: ${pitch}`);
+  }
+
+  const note = normalizeNote(match[1]);
+  const pitchClass = getPitchClass(note);
+  let midi = (parseInt(match[2], 10) + 1) * 12 + pitchClass;
+
+  // Cb and B# cross the octave boundary
+  if (note === 'Cb') midi -= 12;
+  if (note === 'B#') midi += 12;
+  return midi;
+}
+
+/**
+ * Note name of a pitch without its octave (Eb2 -> Eb)
+ */
+function getNoteName(pitch: string): string {
+  return normalizeNote(pitch.replace(/-?\d+$/, ''));
+}
+
+/**
+ * Open string MIDI numbers of a tuning, lowest string first
+ */
+export function getStringMidiNumbers(tuning: Tuning): number[] {
+  return tuning.strings.map(getMidiNumber);
+}
+
+/**
+ * Sounding MIDI numbers of a fretted shape (string 1 = highest, fret -1 = muted),
+ * lowest string first
+ */
+export function getFingeringMidiNumbers(positions: ChordFingering[], tuning: Tuning): number[] {
+  const openStrings = getStringMidiNumbers(tuning);
+  return positions
+    .filter(({ string, fret }) => fret >= 0 && string >= 1 && string <= openStrings.length)
+    .sort((a, b) => b.string - a.string)
+    .map(({ string, fret }) => openStrings[openStrings.length - string] + fret);
+}
+
+// ----------------------
+// Tuning Lookup
+// ----------------------
+
+/**
+ * Find a preset by id
+ */
+export function getTuning(id: string): Tuning | undefined {
+  return TUNING_PRESETS.find(tuning => tuning.id === id);
+}
+
+/**
+ * Build a tuning from note names ("D A D G B E" or "D2 A2 D3 G3 B3 E4").
+ * Strings without an octave take the one closest to standard tuning.
+ * Returns the matching preset when the pitches are the same.
+ */
+export function createCustomTuning(input: string | string[], name?: string): Tuning {
+  const notes = Array.isArray(input) ? input : input.trim().split(/[\s,]+/);
+  if (notes.length === 0 || notes.some(note => !PITCH_PATTERN.test(note))) {
+    throw new Error(`Invalid tuning: ${notes.join(' ')}`);
+  }
+
+  const standard = getStringMidiNumbers(STANDARD_TUNING);
+  const strings: string[] = [];
+
+  notes.forEach((note, index) => {
+    if (/\d$/.test(note)) {
+      strings.push(normalizeNote(note));
+      return;
+    }
+
+    // Aim for the standard string, or a fourth above the previous string
+    const reference = standard[index] ?? getMidiNumber(strings[index - 1]) + 5;
+    const pitchClass = getPitchClass(normalizeNote(note));
+    const below = reference - ((reference - pitchClass + 120) % 12);
+    const midi = reference - below <= 6 ? below : below + 12;
+    strings.push(`${normalizeNote(note)}${Math.floor(midi / 12) - 1}`);
+  });
+
+  const id = `custom:${strings.join(' ')}`;
+  const preset = TUNING_PRESETS.find(tuning => tuning.strings.join(' ') === strings.join(' '));
+  if (preset) return preset;
+
+  return {
+    id,
+    name: name ?? strings.map(getNoteName).join(''),
+    strings,
+  };
+}
+
+// ----------------------
+// Tuning Math
+// ----------------------
+
+/**
+ * Semitones each string is moved from standard tuning, lowest string first
+ */
+export function getTuningOffsets(tuning: Tuning): number[] {
+  const standard = getStringMidiNumbers(STANDARD_TUNING);
+  return getStringMidiNumbers(tuning).map((midi, index) =>
+    standard[index] === undefined ? 0 : midi - standard[index]
+  );
+}
+
+/**
+ * Check if a tuning is plain standard tuning
+ */
+export function isStandardTuning(tuning: Tuning): boolean {
+  return tuning.strings.length === 6 && getTuningOffsets(tuning).every(offset => offset === 0);
+}
+
+/**
+ * Semitones between a fretted shape and the chord it sounds as.
+ * Non-zero when every string above the lowest is moved by the same amount
+ * (Eb Standard -1, Drop C -2); otherwise shapes keep their names.
+ */
+export function getShapeShift(tuning: Tuning): number {
+  const upper = getTuningOffsets(tuning).slice(1);
+  return upper.every(offset => offset === upper[0]) ? upper[0] ?? 0 : 0;
+}
+
+/**
+ * Describe a whole-neck shift ("tuned down a half step")
+ */
+function describeShift(semitones: number): string {
+  const direction = semitones < 0 ? 'down' : 'up';
+  const size = Math.abs(semitones);
+  if (size === 1) return `tuned ${direction} a half step`;
+  if (size === 2) return `tuned ${direction} a whole step`;
+  return `tuned ${direction} ${size} semitones`;
+}
+
+/**
+ * Describe a tuning relative to standard ("tuned down a half step",
+ * "low string dropped to D", "tuned D A D G A D")
+ */
+export function describeTuning(tuning: Tuning): string {
+  const offsets = getTuningOffsets(tuning);
+  if (isStandardTuning(tuning)) return 'standard tuning';
+
+  const shift = getShapeShift(tuning);
+  const [lowest, ...upper] = offsets;
+  const upperUniform = upper.every(offset => offset === shift);
+
+  if (upperUniform && lowest === shift) {
+    return describeShift(shift);
+  }
+  if (upperUniform) {
+    const lowString = `low string ${lowest < shift ? 'dropped' : 'raised'} to ${getNoteName(tuning.strings[0])}`;
+    return shift === 0 ? lowString : `${describeShift(shift)}, ${lowString}`;
+  }
+
+  return `tuned ${tuning.strings.map(getNoteName).join(' ')}`;
+}
+
+/**
+ * Key a shape key sounds in with a capo and tuning
+ */
+export function getSoundingKey(shapeKey: string, capo: number, tuning: Tuning): string {
+  return shiftKey(shapeKey, capo + getShapeShift(tuning));
+}
+
+/**
+ * Shape key that sounds in a key with a capo and tuning
+ */
+export function getShapeKey(soundingKey: string, capo: number, tuning: Tuning): string {
+  return shiftKey(soundingKey, -(capo + getShapeShift(tuning)));
+}
+
+/**
+ * Explain how to play a shape key ("Capo 3, play D shapes, sounds in E,
+ * tuned down a half step")
+ */
+export function describeShapes(shapeKey: string, capo: number, tuning: Tuning): string {
+  const base = capo === 0
+    ? `No capo, play ${shapeKey} shapes`
+    : `Capo ${capo}, play ${shapeKey} shapes`;
+
+  if (isStandardTuning(tuning)) return base;
+  return `${base}, sounds in ${getSoundingKey(shapeKey, capo, tuning)}, ${describeTuning(tuning)}`;
+}
+
+/**
+ * Keep the diagrams voiced for a tuning (untagged diagrams are standard)
+ */
+export function filterDiagramsByTuning<T extends { tuning?: string }>(
+  diagrams: T[],
+  tuning: Tuning
+): T[] {
+  return diagrams.filter(diagram => (diagram.tuning ?? STANDARD_TUNING.id) === tuning.id);
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  TUNING_PRESETS,
+  STANDARD_TUNING,
+  getTuning,
+  createCustomTuning,
+  getTuningOffsets,
+  getShapeShift,
+  isStandardTuning,
+  describeTuning,
+  describeShapes,
+  getSoundingKey,
+  getShapeKey,
+  filterDiagramsByTuning,
+};
@@ -10,8 +10,9 @@ import {
   ValidationResult, 
   ValidationError, 
   ValidationWarning,
-  SongSection 
 } from '@/types';
+import { isChord } from '@/utils/chord';
+import { parseSections } from '@/utils/songStructure';
 
 // ----------------------
 // Constants
@@ -171,14 +172,29 @@ export function validateParsedSong(song: ParsedSong): ValidationResult {
     });
   }
   
-  // Check for content in each section
-  const emptySections = song.sections.filter(s => !s.content || s.content.trim() === '');
+  // Check for content in each section (references play another section's)
+  const emptySections = song.sections.filter(s =>
+    s.reference === undefined && (!s.content || s.content.trim() === '')
+  );
   if (emptySections.length > 0) {
     warnings.push({
       field: 'sections',
       message: `${emptySections.length} empty section(s) found`,
     });
   }
+
+  // References must point back to a section with lines
+  const brokenReferences = song.sections.filter((s, index) =>
+    s.reference !== undefined &&
+    (s.reference < 0 || s.reference >= index || song.sections[s.reference].reference !== undefined)
+  );
+  if (brokenReferences.length > 0) {
+    errors.push({
+      field: 'sections',
+      message: `${brokenReferences.length} section(s) repeat a section that does not come before them`,
+      severity: 'major',
+    });
+  }
   
   // Validate chord detection
   if (song.detectedChords.length > 0) {
@@ -299,65 +315,10 @@ function isValidUrl(url: string): boolean {
 }
 
 /**
- * Basic chord validation
+ * Chord validation using the shared chord grammar
  */
 function isValidChord(chord: string): boolean {
-  const chordPattern = /^[A-G][#b]?(maj|m|dim|aug|sus|add|7| maj7| m7| 9| 11| 13)?(\/[A-G][#b]?)?$/i;
-  return chordPattern.test(chord);
-}
-
-/**
- * Parse lyrics into sections
- */
-function parseSections(lyrics: string): SongSection[] {
-  const sectionPatterns = [
-    { type: 'intro', pattern: /^Intro:?\s*/i },
-    { type: 'verse', pattern: /^Verse\s*\d*:?\s*/i },
-    { type: 'pre-chorus', pattern: /^Pre-Chorus:?\s*/i },
-    { type: 'chorus', pattern: /^Chorus:?\s*/i },
-    { type: 'bridge', pattern: /^Bridge:?\s*/i },
-    { type: 'outro', pattern: /^Outro:?\s*/i },
-  ];
-  
-  const sections: SongSection[] = [];
-  const lines = lyrics.split('\n');
-  
-  let currentSection: SongSection = {
-    type: 'other' as const,
-    content: '',
-  };
-  
-  for (const line of lines) {
-    // Check if line is a section header
-    let isSectionHeader = false;
-    for (const { type, pattern } of sectionPatterns) {
-      if (pattern.test(line)) {
-        // Save previous section if it has content
-        if (currentSection.content.trim()) {
-          sections.push(currentSection);
-        }
-        currentSection = {
-          type: type as 'intro' | 'verse' | 'pre-chorus' | 'chorus' | 'bridge' | 'outro',
-          content: '',
-          isChorus: type === 'chorus',
-        };
-        isSectionHeader = true;
-        break;
-      }
-    }
-    
-    // Add non-header lines to current section
-    if (!isSectionHeader && line.trim()) {
-      currentSection.content += (currentSection.content ? '\n' : '') + line;
-    }
-  }
-  
-  // Save last section
-  if (currentSection.content.trim()) {
-    sections.push(currentSection);
-  }
-  
-  return sections;
+  return isChord(chord);
 }
 
 // ----------------------
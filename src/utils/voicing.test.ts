@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ChordFingering } from '@/types';
+import { STANDARD_TUNING, getFingeringMidiNumbers, getTuning } from '@/utils/tuning';
+import { generateVoicings, getBestVoicing, getDifficultyLevel, scoreDiagram } from '@/utils/voicing';
+
+// Positions from frets written lowest string first (x32010), with optional fingers
+function toPositions(frets: string, fingers: number[] = []): ChordFingering[] {
+  return frets.split('').map((fret, index) => {
+    const position = { string: frets.length - index, fret: fret === 'x' ? -1 : parseInt(fret, 10) };
+    return fingers[index] ? { ...position, finger: fingers[index] } : position;
+  });
+}
+
+// Frets of a diagram, lowest string first
+function toFrets(positions: ChordFingering[]): string {
+  return [...positions]
+    .sort((a, b) => b.string - a.string)
+    .map(position => (position.fret < 0 ? 'x' : position.fret.toString(16)))
+    .join('');
+}
+
+describe('generateVoicings', () => {
+  it('finds the open shapes first', () => {
+    expect(toFrets(getBestVoicing('C')!.positions)).toBe('x32010');
+    expect(toFrets(getBestVoicing('G')!.positions)).toBe('320003');
+    expect(toFrets(getBestVoicing('Am')!.positions)).toBe('x02210');
+  });
+
+  it('plays every required tone with the root in the bass', () => {
+    for (const diagram of generateVoicings('Cmaj7')) {
+      const notes = getFingeringMidiNumbers(diagram.positions, STANDARD_TUNING);
+      const pitchClasses = new Set(notes.map(midi => midi % 12));
+      expect([0, 4, 11].every(pc => pitchClasses.has(pc))).toBe(true);
+      expect(Math.min(...notes) % 12).toBe(0);
+    }
+  });
+
+  it('voices chords for the tuning it is given', () => {
+    expect(toFrets(getBestVoicing('D', getTuning('drop-d'))!.positions)).toMatch(/^0/);
+  });
+
+  it('returns nothing for symbols that are not chords', () => {
+    expect(generateVoicings('N.C.')).toEqual([]);
+  });
+});
+
+describe('scoreDiagram', () => {
+  it('rates the open chords as beginner', () => {
+    for (const frets of ['x32010', '320003', 'xx0232', '022000']) {
+      expect(getDifficultyLevel(scoreDiagram({ positions: toPositions(frets) }))).toBe('beginner');
+    }
+  });
+
+  it('never rates a barre shape as beginner, full or partial', () => {
+    const barre = { fret: 1, fromString: 6, toString: 1 };
+    expect(getDifficultyLevel(scoreDiagram({ positions: toPositions('111111', [1, 1, 1, 1, 1, 1]), barre })))
+      .not.toBe('beginner');
+    expect(getDifficultyLevel(scoreDiagram({ positions: toPositions('xx3211', [0, 0, 3, 2, 1, 1]) })))
+      .not.toBe('beginner');
+    const barred = generateVoicings('F', STANDARD_TUNING, 20).filter(diagram => diagram.barred);
+    expect(barred.length).toBeGreaterThan(0);
+    expect(barred.every(diagram => diagram.difficulty !== 'beginner')).toBe(true);
+  });
+
+  it('counts the reach of a finger between two lower frets as a stretch', () => {
+    expect(getDifficultyLevel(scoreDiagram({ positions: toPositions('x20402') }))).not.toBe('beginner');
+    expect(scoreDiagram({ positions: toPositions('x20402') }))
+      .toBeGreaterThan(scoreDiagram({ positions: toPositions('x20302') }));
+  });
+});
@@ -0,0 +1,391 @@
+// ============================================
+// Chord Voicings
+// Works out playable fretboard voicings from a chord's intervals and a tuning
+// Ranked by hand stretch and difficulty, easiest first
+// ============================================
+
+import { ChordBarre, ChordDiagram, ChordFingering, ChordSymbol, Tuning, VoicingLimits } from '@/types';
+import { parseChord, formatChord, getChordIntervals, getOptionalIntervals, getPitchClass } from '@/utils/chord';
+import { STANDARD_TUNING, getStringMidiNumbers } from '@/utils/tuning';
+
+// ----------------------
+// Constants
+// ----------------------
+
+// Guitar limits; other instruments pass their own
+export const DEFAULT_VOICING_LIMITS: VoicingLimits = {
+  maxFret: 12,
+  maxSpan: 3,
+  minStrings: 4,
+  rootInBass: true,
+};
+
+const MAX_FINGERS = 4;
+const POWER_CHORD_STRINGS = 2;
+const MAX_INNER_MUTES = 1; // Muted strings above the bass note
+const DEFAULT_LIMIT = 6;
+
+const MUTED = -1;
+const OPEN_POSITION_FRETS = 4; // Shapes within the first four frets
+
+// Difficulty points of a voicing (lower is easier)
+const COST = {
+  finger: 1,
+  barre: 3.75, // Full or partial; enough that no barre shape rates beginner
+  stretch: 2, // Per fret of span beyond three neighbouring frets (or of reach, see getReach)
+  position: 0.5, // Per fret above the first, once the shape leaves open position
+  bassMute: 0.75, // Low strings left out
+  innerMute: 3, // Strings muted between sounding strings
+};
+
+// Ranking penalty for leaving out the fifth (fuller chords first, not harder)
+const MISSING_FIFTH_PENALTY = 0.5;
+
+// Score ceilings for each ChordDiagram difficulty level
+const DIFFICULTY_LEVELS: Array<{ max: number; level: ChordDiagram['difficulty'] }> = [
+  { max: 4.5, level: 'beginner' },
+  { max: 8.5, level: 'intermediate' },
+  { max: 11, level: 'advanced' },
+];
+
+// ----------------------
+// Type Definitions
+// ----------------------
+
+interface ChordTones {
+  tones: Set<number>; // Pitch classes that may be played
+  required: Set<number>; // Pitch classes every voicing must contain
+  bass?: number; // Pitch class the lowest note must have
+  fifth?: number; // Optional perfect fifth
+  minStrings: number;
+}
+
+interface Voicing {
+  frets: number[]; // Per string, lowest string first (-1 = muted)
+  diagram: ChordDiagram;
+  rank: number; // Difficulty score plus completeness penalties
+}
+
+// ----------------------
+// Chord Tones
+// ----------------------
+
+/**
+ * Pitch classes of a chord, split into required and optional tones.
+ * The perfect fifth and inner extensions (9 of an 11, 9 and 11 of a 13) may be left out.
+ */
+function getChordTones(symbol: ChordSymbol, limits: VoicingLimits): ChordTones {
+  const root = getPitchClass(symbol.root);
+  const intervals = getChordIntervals(symbol);
+  const optional = new Set(getOptionalIntervals(symbol));
+
+  const toPitchClass = (interval: number) => (root + interval) % 12;
+  const tones = new Set(intervals.map(toPitchClass));
+  const required = new Set(intervals.filter(i => !optional.has(i)).map(toPitchClass));
+
+  // A slash bass outside the chord is added as a tone
+  const bass = symbol.bass ? getPitchClass(symbol.bass) : root;
+  tones.add(bass);
+  required.add(bass);
+
+  return {
+    tones,
+    required,
+    // Re-entrant tunings put other chord tones below the root
+    bass: limits.rootInBass || symbol.bass ? bass : undefined,
+    fifth: intervals.includes(7) ? toPitchClass(7) : undefined,
+    minStrings: symbol.quality === 'power'
+      ? Math.min(POWER_CHORD_STRINGS, limits.minStrings)
+      : limits.minStrings,
+  };
+}
+
+// ----------------------
+// Fingering
+// ----------------------
+
+/**
+ * Assign fingers to fretted notes, using a barre with the index finger
+ * when there are more notes than fingers.
+ * Returns null when the shape cannot be held with one hand.
+ */
+function assignFingers(
+  frets: number[]
+): { fingers: Array<number | undefined>; barre?: { fret: number; from: number; to: number } } | null {
+  const fingers: Array<number | undefined> = frets.map(() => undefined);
+  const fretted = frets
+    .map((fret, index) => ({ fret, index }))
+    .filter(note => note.fret > 0)
+    .sort((a, b) => a.fret - b.fret || a.index - b.index);
+
+  if (fretted.length <= MAX_FINGERS) {
+    fretted.forEach((note, i) => {
+      fingers[note.index] = i + 1;
+    });
+    return { fingers };
+  }
+
+  // Barre the lowest fret from its lowest string up to the highest string it covers
+  const barreFret = fretted[0].fret;
+  const barreStrings = fretted.filter(note => note.fret === barreFret).map(note => note.index);
+  const from = Math.min(...barreStrings);
+  const to = Math.max(...barreStrings);
+  const covered = frets.slice(from, to + 1);
+  if (barreStrings.length < 2 || covered.some(fret => fret < barreFret)) {
+    return null;
+  }
+
+  const others = fretted.filter(note => note.fret > barreFret);
+  if (others.length + 1 > MAX_FINGERS) {
+    return null;
+  }
+
+  barreStrings.forEach(index => {
+    fingers[index] = 1;
+  });
+  others.forEach((note, i) => {
+    fingers[note.index] = i + 2;
+  });
+  return { fingers, barre: { fret: barreFret, from, to } };
+}
+
+// ----------------------
+// Scoring
+// ----------------------
+
+/**
+ * Frets a finger reaches past the fingers held on both sides of it, as in
+ * x20402 where the G string's 4 sits between two notes on the second fret.
+ * A reach of one fret (D: xx0232) is no stretch. Frets lowest string first.
+ */
+function getReach(frets: number[]): number {
+  return frets.reduce((reach, fret, index) => {
+    const below = frets.slice(0, index).filter(other => other > 0);
+    const above = frets.slice(index + 1).filter(other => other > 0);
+    if (fret <= 0 || below.length === 0 || above.length === 0) return reach;
+    return Math.max(reach, fret - Math.max(Math.min(...below), Math.min(...above)));
+  }, 0);
+}
+
+/**
+ * Check if one finger holds several strings, as a partial barre
+ * written with its fingers (xx3211 fingered 0 0 3 2 1 1)
+ */
+function hasPartialBarre(positions: ChordFingering[]): boolean {
+  const fingers = positions
+    .filter(position => position.fret > 0 && position.finger !== undefined)
+    .map(position => position.finger);
+  return new Set(fingers).size < fingers.length;
+}
+
+/**
+ * Difficulty score of a voicing from its fingers, barre, stretch,
+ * fret position and muted strings (lower is easier)
+ */
+export function scoreDiagram(diagram: Pick<ChordDiagram, 'positions' | 'barre'>): number {
+  // Lowest string first
+  const strings = [...diagram.positions].sort((a, b) => b.string - a.string);
+  const firstSounding = strings.findIndex(position => position.fret >= 0);
+  if (firstSounding === -1) return 0;
+
+  const fretted = strings.filter(position => position.fret > 0);
+  const frets = fretted.map(position => position.fret);
+  const minFret = frets.length > 0 ? Math.min(...frets) : 1;
+  const maxFret = frets.length > 0 ? Math.max(...frets) : 0;
+  const span = maxFret - minFret;
+  const fingerCount = fretted.every(position => position.finger !== undefined)
+    ? new Set(fretted.map(position => position.finger)).size
+    : fretted.length;
+  const innerMutes = strings.slice(firstSounding).filter(position => position.fret < 0).length;
+  const stretch = Math.max(span - 2, getReach(strings.map(position => position.fret)) - 1, 0);
+
+  const score =
+    fingerCount * COST.finger +
+    (diagram.barre || hasPartialBarre(fretted) ? COST.barre : 0) +
+    stretch * COST.stretch +
+    (maxFret > OPEN_POSITION_FRETS ? (minFret - 1) * COST.position : 0) +
+    firstSounding * COST.bassMute +
+    innerMutes * COST.innerMute;
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Map a difficulty score onto the ChordDiagram difficulty levels
+ */
+export function getDifficultyLevel(score: number): ChordDiagram['difficulty'] {
+  return DIFFICULTY_LEVELS.find(level => score <= level.max)?.level ?? 'expert';
+}
+
+// ----------------------
+// Search
+// ----------------------
+
+/**
+ * Check the finished voicing: enough strings, every required tone, right bass note
+ */
+function isCompleteVoicing(frets: number[], chord: ChordTones, openMidi: number[]): boolean {
+  const sounding = frets
+    .map((fret, index) => (fret === MUTED ? null : openMidi[index] + fret))
+    .filter((midi): midi is number => midi !== null);
+
+  if (sounding.length < Math.min(chord.minStrings, frets.length)) {
+    return false;
+  }
+
+  const pitchClasses = new Set(sounding.map(midi => midi % 12));
+  const hasRequired = Array.from(chord.required).every(pc => pitchClasses.has(pc));
+  return hasRequired && (chord.bass === undefined || Math.min(...sounding) % 12 === chord.bass);
+}
+
+/**
+ * Walk every string from the lowest up, keeping fretted notes within a hand span
+ */
+function searchVoicings(
+  name: string,
+  chord: ChordTones,
+  tuning: Tuning,
+  limits: VoicingLimits
+): Voicing[] {
+  const openMidi = getStringMidiNumbers(tuning);
+  const openPitches = openMidi.map(midi => midi % 12);
+  const voicings: Voicing[] = [];
+  const frets: number[] = [];
+
+  const visit = (index: number, minFret: number, maxFret: number, innerMutes: number) => {
+    if (index === openMidi.length) {
+      if (!isCompleteVoicing(frets, chord, openMidi)) return;
+      const diagram = toDiagram(name, frets, tuning);
+      if (!diagram) return;
+
+      const hasFifth = chord.fifth === undefined || frets.some(
+        (fret, string) => fret !== MUTED && (openPitches[string] + fret) % 12 === chord.fifth
+      );
+      const rank = scoreDiagram(diagram) + (hasFifth ? 0 : MISSING_FIFTH_PENALTY);
+      voicings.push({ frets: [...frets], diagram, rank });
+      return;
+    }
+
+    const started = frets.some(fret => fret !== MUTED);
+
+    // Mute this string (freely below the bass note, sparingly above it)
+    if (!started || innerMutes < MAX_INNER_MUTES) {
+      frets.push(MUTED);
+      visit(index + 1, minFret, maxFret, started ? innerMutes + 1 : innerMutes);
+      frets.pop();
+    }
+
+    for (let fret = 0; fret <= limits.maxFret; fret++) {
+      if (!chord.tones.has((openPitches[index] + fret) % 12)) continue;
+
+      const nextMin = fret > 0 ? Math.min(minFret, fret) : minFret;
+      const nextMax = fret > 0 ? Math.max(maxFret, fret) : maxFret;
+      if (nextMax - nextMin > limits.maxSpan) continue;
+
+      frets.push(fret);
+      visit(index + 1, nextMin, nextMax, innerMutes);
+      frets.pop();
+    }
+  };
+
+  visit(0, Infinity, -Infinity, 0);
+  return voicings;
+}
+
+/**
+ * Check if a voicing only repeats a chosen one with strings left out
+ */
+function isSubsetOf(candidate: number[], chosen: number[]): boolean {
+  return candidate.every((fret, index) => fret === MUTED || fret === chosen[index]);
+}
+
+// ----------------------
+// Diagrams
+// ----------------------
+
+/**
+ * Build a ChordDiagram from per-string frets (lowest string first).
+ * Returns null when the shape cannot be fingered.
+ */
+function toDiagram(chord: string, frets: number[], tuning: Tuning): ChordDiagram | null {
+  const fingering = assignFingers(frets);
+  if (!fingering) return null;
+
+  const stringCount = frets.length;
+  const fretted = frets.filter(fret => fret > 0);
+  const maxFret = fretted.length > 0 ? Math.max(...fretted) : 0;
+  const minFret = fretted.length > 0 ? Math.min(...fretted) : 1;
+
+  // Strings are numbered from the highest (1) to the lowest
+  const positions: ChordFingering[] = frets.map((fret, index) => {
+    const finger = fingering.fingers[index];
+    return finger !== undefined
+      ? { string: stringCount - index, fret, finger }
+      : { string: stringCount - index, fret };
+  });
+
+  const barre: ChordBarre | undefined = fingering.barre && {
+    fret: fingering.barre.fret,
+    fromString: stringCount - fingering.barre.from,
+    toString: stringCount - fingering.barre.to,
+  };
+
+  return {
+    chord,
+    positions,
+    baseFret: maxFret <= OPEN_POSITION_FRETS ? 1 : minFret,
+    barred: barre !== undefined,
+    ...(barre ? { barre } : {}),
+    difficulty: getDifficultyLevel(scoreDiagram({ positions, barre })),
+    tuning: tuning.id,
+  };
+}
+
+/**
+ * Generate playable voicings for a chord in a tuning, easiest first.
+ * Returns an empty list for N.C. and unparseable symbols.
+ */
+export function generateVoicings(
+  chord: string | ChordSymbol,
+  tuning: Tuning = STANDARD_TUNING,
+  limit: number = DEFAULT_LIMIT,
+  limits: VoicingLimits = DEFAULT_VOICING_LIMITS
+): ChordDiagram[] {
+  const symbol = typeof chord === 'string' ? parseChord(chord) : chord;
+  if (!symbol) return [];
+
+  const soundingCount = (voicing: Voicing) => voicing.frets.filter(fret => fret !== MUTED).length;
+  const ranked = searchVoicings(formatChord(symbol), getChordTones(symbol, limits), tuning, limits)
+    .sort((a, b) => a.rank - b.rank || soundingCount(b) - soundingCount(a));
+
+  const chosen: Voicing[] = [];
+  for (const voicing of ranked) {
+    if (chosen.length >= limit) break;
+    if (chosen.some(c => isSubsetOf(voicing.frets, c.frets))) continue;
+    chosen.push(voicing);
+  }
+
+  return chosen.map(voicing => voicing.diagram);
+}
+
+/**
+ * Easiest voicing of a chord, if it can be played at all
+ */
+export function getBestVoicing(
+  chord: string | ChordSymbol,
+  tuning: Tuning = STANDARD_TUNING,
+  limits: VoicingLimits = DEFAULT_VOICING_LIMITS
+): ChordDiagram | undefined {
+  return generateVoicings(chord, tuning, 1, limits)[0];
+}
+
+// ----------------------
+// Export
+// ----------------------
+
+export default {
+  generateVoicings,
+  getBestVoicing,
+  scoreDiagram,
+  getDifficultyLevel,
+};